@@ -1,10 +1,37 @@
 import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
+import { DatabaseModule } from './common/database/database.module';
+import { IdempotencyModule } from './common/idempotency/idempotency.module';
+import { DomainEventsModule } from './common/events/domain-events.module';
+import { LoggingModule } from './common/logging/logging.module';
+import { AuditModule } from './common/audit/audit.module';
+import { AuthModule } from './common/auth/auth.module';
+import { TenancyModule } from './common/tenancy/tenancy.module';
+import { RateLimitModule } from './common/rate-limit/rate-limit.module';
+import { TrashModule } from './common/trash/trash.module';
 import { PaymentModule } from './modules/payment/payment.module';
+import { WebhookModule } from './modules/webhook/webhook.module';
+import { ApiKeyModule } from './modules/api-key/api-key.module';
+import { MinorUnitAmounts1760832000000 } from './modules/payment/migrations/minor-unit-amounts.migration';
 
 @Module({
-  imports: [PaymentModule],
+  imports: [
+    ScheduleModule.forRoot(),
+    LoggingModule.forRoot(),
+    DatabaseModule.forRoot({ migrations: [MinorUnitAmounts1760832000000] }),
+    IdempotencyModule.forRoot(),
+    DomainEventsModule.forRoot(),
+    AuthModule.forRoot(),
+    RateLimitModule.forRoot(),
+    TenancyModule.forRoot(),
+    AuditModule.forRoot(),
+    TrashModule.forRoot(),
+    PaymentModule,
+    WebhookModule,
+    ApiKeyModule,
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -0,0 +1,37 @@
+import { Column, Entity, Index } from 'typeorm';
+import { AutoEntity } from '../decorators/auto-entity.decorator';
+import { BaseEntity } from '../base/base-entity';
+
+/**
+ * Field-level change: values as stored (e.g. amounts in minor units)
+ */
+export interface AuditFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Audit log entity - one create, update, delete or business action on an entity
+ */
+@Entity('audit_logs')
+@Index(['entityType', 'entityId'])
+@AutoEntity()
+export class AuditLog extends BaseEntity {
+  @Column()
+  entityType: string;
+
+  @Column()
+  entityId: number;
+
+  @Column()
+  action: string; // create | update | delete | a business action such as process or refund
+
+  @Column('simple-json')
+  changes: Record<string, AuditFieldChange>;
+
+  @Column({ type: 'varchar', nullable: true })
+  actor?: string | null; // 'system' outside HTTP requests, null for unauthenticated requests
+
+  @Column({ type: 'varchar', nullable: true })
+  requestId?: string | null;
+}
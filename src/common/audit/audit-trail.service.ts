@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+import type { IRepository } from '../interfaces/repository.interface';
+import { InjectEntityRepository } from '../database/repository.tokens';
+import { BaseEntity } from '../base/base-entity';
+import { getNotAuditedFields } from '../decorators/not-audited.decorator';
+import { AuditFieldChange, AuditLog } from './audit-log.entity';
+import { getAuditContext, SYSTEM_ACTOR } from './audit.context';
+
+const UNAUDITED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'version']);
+
+/**
+ * Records who changed what on entities handled by BaseCrudService
+ * Columns marked @NotAudited() never reach the audit log
+ */
+@Injectable()
+export class AuditTrail {
+  constructor(
+    @InjectEntityRepository(AuditLog)
+    private readonly auditLogRepository: IRepository<AuditLog>,
+  ) {}
+
+  /**
+   * Record an action with the field-level diff between both versions
+   * previous is null for creates, current is null for deletes
+   * Updates that change nothing are not recorded
+   */
+  async record(
+    entityType: string,
+    entityId: number,
+    action: string,
+    previous: BaseEntity | null,
+    current: BaseEntity | null,
+  ): Promise<AuditLog | null> {
+    const changes = diffEntities(previous, current);
+    if (previous && current && Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    const context = getAuditContext();
+    return this.auditLogRepository.create({
+      entityType,
+      entityId,
+      action,
+      changes,
+      actor: context ? context.actor : SYSTEM_ACTOR,
+      requestId: context?.requestId ?? null,
+    });
+  }
+
+  /**
+   * Audit entries of one entity, oldest first
+   */
+  async findHistory(entityType: string, entityId: number): Promise<AuditLog[]> {
+    const entries = await this.auditLogRepository.findBy({
+      entityType,
+      entityId,
+    });
+    return entries.sort((a, b) => a.id - b.id);
+  }
+}
+
+function diffEntities(
+  previous: BaseEntity | null,
+  current: BaseEntity | null,
+): Record<string, AuditFieldChange> {
+  const before = toAuditValues(previous);
+  const after = toAuditValues(current);
+  const changes: Record<string, AuditFieldChange> = {};
+
+  for (const field of new Set([
+    ...Object.keys(before),
+    ...Object.keys(after),
+  ])) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Plain column values - relations, functions and @NotAudited() columns are
+ * skipped, dates become ISO strings
+ */
+function toAuditValues(entity: BaseEntity | null): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  const notAudited = new Set(
+    entity ? getNotAuditedFields(entity.constructor) : [],
+  );
+
+  for (const [field, value] of Object.entries(entity ?? {})) {
+    if (
+      UNAUDITED_FIELDS.has(field) ||
+      notAudited.has(field) ||
+      typeof value === 'function'
+    ) {
+      continue;
+    }
+    if (value instanceof Date) {
+      values[field] = value.toISOString();
+    } else if (!(value instanceof BaseEntity)) {
+      values[field] = value;
+    }
+  }
+
+  return values;
+}
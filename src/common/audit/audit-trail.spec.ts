@@ -0,0 +1,222 @@
+import {
+  Body,
+  INestApplication,
+  Injectable,
+  Param,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { Column, Entity } from 'typeorm';
+import { BaseEntity } from '../base/base-entity';
+import { BaseCrudService } from '../base/base-crud-service';
+import { BaseController } from '../base/base-controller';
+import { BaseListResponseDto, BaseResponseDto } from '../base/base-dto';
+import { CrudController } from '../decorators/crud-controller.decorator';
+import {
+  CreateEndpoint,
+  DeleteEndpoint,
+  UpdateEndpoint,
+} from '../decorators/endpoint.decorator';
+import { NotAudited } from '../decorators/not-audited.decorator';
+import { DatabaseModule } from '../database/database.module';
+import { InjectEntityRepository } from '../database/repository.tokens';
+import type { IRepository } from '../interfaces/repository.interface';
+import { ResponseInterceptor } from '../interceptors/response.interceptor';
+import { AuditModule } from './audit.module';
+
+@Entity('audit_spec_notes')
+class Note extends BaseEntity {
+  @Column()
+  title: string;
+
+  @Column({ default: false })
+  archived: boolean;
+
+  @NotAudited()
+  @Column({ nullable: true })
+  secret?: string;
+}
+
+@Injectable()
+class NoteService extends BaseCrudService<Note> {
+  constructor(@InjectEntityRepository(Note) repository: IRepository<Note>) {
+    super(repository);
+  }
+
+  protected getEntityName = () => 'Note';
+
+  archive(id: number): Promise<Note> {
+    return this.save(id, { archived: true }, 'archive');
+  }
+}
+
+class NoteResponseDto extends BaseResponseDto {}
+class NoteListResponseDto extends BaseListResponseDto<NoteResponseDto> {}
+
+@CrudController('notes', 'Note')
+class NoteController extends BaseController<
+  Note,
+  Partial<Note>,
+  Partial<Note>,
+  NoteResponseDto,
+  NoteListResponseDto
+> {
+  constructor(noteService: NoteService) {
+    super(noteService);
+  }
+
+  protected getResponseClass = () => NoteResponseDto;
+  protected getListResponseClass = () => NoteListResponseDto;
+  protected getEntityName = () => 'Note';
+
+  @CreateEndpoint('Note', NoteResponseDto)
+  create(@Body() dto: Partial<Note>) {
+    return this.createEntity(dto);
+  }
+
+  @UpdateEndpoint('Note', NoteResponseDto)
+  update(@Param('id', ParseIntPipe) id: number, @Body() dto: Partial<Note>) {
+    return this.updateEntity(id, dto);
+  }
+
+  @DeleteEndpoint('Note')
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.removeEntity(id);
+  }
+}
+
+describe('Audit trail', () => {
+  let app: INestApplication<App>;
+  let noteService: NoteService;
+
+  const history = (id: number) =>
+    request(app.getHttpServer()).get(`/notes/${id}/history`);
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        DatabaseModule.forFeature([Note]),
+        AuditModule.forRoot(),
+      ],
+      controllers: [NoteController],
+      providers: [NoteService],
+    }).compile();
+
+    app = module.createNestApplication();
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+
+    noteService = module.get(NoteService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should record field-level diffs of every change', async () => {
+    const server = app.getHttpServer();
+    const created = await request(server)
+      .post('/notes')
+      .set('X-Request-Id', 'req-create')
+      .send({ title: 'draft' })
+      .expect(201);
+    const id = (created.body as { data: { id: number } }).data.id;
+
+    await request(server)
+      .patch(`/notes/${id}`)
+      .send({ title: 'final' })
+      .expect(200);
+    await request(server)
+      .patch(`/notes/${id}`)
+      .send({ title: 'final' })
+      .expect(200);
+    await noteService.archive(id);
+    await request(server).delete(`/notes/${id}`).expect(200);
+
+    const response = await history(id).expect(200);
+    expect(response.body).toMatchObject({
+      data: {
+        total: 4,
+        items: [
+          {
+            entityType: 'Note',
+            entityId: id,
+            action: 'create',
+            changes: {
+              title: { from: null, to: 'draft' },
+              archived: { from: null, to: false },
+            },
+            actor: null,
+            requestId: 'req-create',
+          },
+          {
+            action: 'update',
+            changes: { title: { from: 'draft', to: 'final' } },
+          },
+          {
+            action: 'archive',
+            changes: { archived: { from: false, to: true } },
+            actor: 'system',
+            requestId: null,
+          },
+          {
+            action: 'delete',
+            changes: { deletedAt: { from: null } },
+          },
+        ],
+      },
+    });
+  });
+
+  it('should leave @NotAudited() columns out of the diff', async () => {
+    const note = await noteService.create({ title: 'draft', secret: 's1' });
+    await noteService.update(note.id, { secret: 's2' });
+    await noteService.update(note.id, { title: 'final', secret: 's3' });
+
+    const entries = await noteService.findHistory(note.id);
+    expect(entries).toHaveLength(2);
+    expect(entries[1].changes).toEqual({
+      title: { from: 'draft', to: 'final' },
+    });
+    expect(JSON.stringify(entries)).not.toMatch(/secret|s1|s3/);
+  });
+
+  it('should generate a request ID when none is sent', async () => {
+    const note = await request(app.getHttpServer())
+      .post('/notes')
+      .send({ title: 'draft' })
+      .expect(201);
+    const id = (note.body as { data: { id: number } }).data.id;
+
+    const [entry] = await noteService.findHistory(id);
+    expect(entry.requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should record restores made through the inherited route', async () => {
+    const note = await noteService.create({ title: 'draft' });
+    await noteService.remove(note.id);
+
+    await request(app.getHttpServer())
+      .post(`/notes/${note.id}/restore`)
+      .expect(200);
+
+    const entries = await noteService.findHistory(note.id);
+    expect(entries.map((entry) => entry.action)).toEqual([
+      'create',
+      'delete',
+      'restore',
+    ]);
+    expect(Object.keys(entries[2].changes)).toEqual(['deletedAt']);
+    expect(entries[2].changes.deletedAt.from).toBe(
+      entries[1].changes.deletedAt.to,
+    );
+    expect(entries[2].changes.deletedAt.to).toBeNull();
+  });
+
+  it('should return 404 for entities that never existed', async () => {
+    await history(42).expect(404);
+  });
+});
@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const SYSTEM_ACTOR = 'system';
+
+/**
+ * Who is making the current change - set per HTTP request by AuditContextInterceptor
+ */
+export interface AuditContext {
+  actor: string | null;
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+export function runWithAuditContext<T>(
+  context: AuditContext,
+  callback: () => T,
+): T {
+  return storage.run(context, callback);
+}
+
+/**
+ * Context of the running request - undefined for scheduled jobs and other background work
+ */
+export function getAuditContext(): AuditContext | undefined {
+  return storage.getStore();
+}
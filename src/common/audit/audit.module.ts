@@ -0,0 +1,28 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { DatabaseModule } from '../database/database.module';
+import { AuditContextInterceptor } from '../interceptors/audit-context.interceptor';
+import { AuditLog } from './audit-log.entity';
+import { AuditTrail } from './audit-trail.service';
+
+/**
+ * Audit module - records changes made through BaseCrudService
+ *
+ * Usage (AppModule): imports: [AuditModule.forRoot()]
+ * Without it, services skip auditing and history endpoints return an empty list
+ */
+@Global()
+@Module({})
+export class AuditModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: AuditModule,
+      imports: [DatabaseModule.forFeature([AuditLog])],
+      providers: [
+        AuditTrail,
+        { provide: APP_INTERCEPTOR, useClass: AuditContextInterceptor },
+      ],
+      exports: [AuditTrail],
+    };
+  }
+}
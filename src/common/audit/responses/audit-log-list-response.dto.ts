@@ -0,0 +1,10 @@
+import { BaseListResponseDto } from '../../base/base-dto';
+import { AutoListResponse } from '../../decorators/auto-response.decorator';
+import { AuditLogResponseDto } from './audit-log-response.dto';
+
+/**
+ * Response DTO for an entity's change history
+ * Swagger documentation is automatically configured via @AutoListResponse
+ */
+@AutoListResponse(AuditLogResponseDto)
+export class AuditLogListResponseDto extends BaseListResponseDto<AuditLogResponseDto> {}
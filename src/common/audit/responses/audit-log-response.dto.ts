@@ -0,0 +1,18 @@
+import { BaseResponseDto } from '../../base/base-dto';
+import { AutoResponse } from '../../decorators/auto-response.decorator';
+import type { AuditFieldChange } from '../audit-log.entity';
+import { AuditLogResponseMapping } from './mapping';
+
+/**
+ * Response DTO for an audit log entry
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(AuditLogResponseMapping)
+export class AuditLogResponseDto extends BaseResponseDto {
+  entityType: string;
+  entityId: number;
+  action: string;
+  changes: Record<string, AuditFieldChange>;
+  actor?: string | null;
+  requestId?: string | null;
+}
@@ -0,0 +1,46 @@
+import { ResponseFieldConfig } from '../../decorators/auto-response.decorator';
+
+/**
+ * Response field configuration for audit DTOs
+ * Used by @AutoResponse decorator for Swagger documentation
+ */
+export const AuditLogResponseMapping: Record<string, ResponseFieldConfig> = {
+  entityType: {
+    description: 'Audited entity',
+    example: 'Payment',
+    required: true,
+    type: String,
+  },
+  entityId: {
+    description: 'Audited entity ID',
+    example: 1,
+    required: true,
+    type: Number,
+  },
+  action: {
+    description:
+      'create, update, delete or a business action such as process or refund',
+    example: 'update',
+    required: true,
+    type: String,
+  },
+  changes: {
+    description: 'Changed fields with their stored values before and after',
+    example: { amount: { from: 9999, to: 4999 } },
+    required: true,
+    type: Object,
+  },
+  actor: {
+    description:
+      'Who made the change - system for scheduled jobs, null when unauthenticated',
+    example: 'system',
+    required: false,
+    type: String,
+  },
+  requestId: {
+    description: 'X-Request-Id of the request that made the change',
+    example: '3f2b1c9e-8d7a-4e6f-9a0b-1c2d3e4f5a6b',
+    required: false,
+    type: String,
+  },
+};
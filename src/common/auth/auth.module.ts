@@ -0,0 +1,38 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { JwtModule } from '@nestjs/jwt';
+import { getAuthConfig } from '../config/auth.config';
+import { AuthGuard } from '../guards/auth.guard';
+import { AccessGuard } from '../guards/access.guard';
+
+/**
+ * Auth module - bearer token or API key authentication on every route
+ *
+ * Usage (AppModule): imports: [AuthModule.forRoot()]
+ * Opt out with @Public(), restrict with @Roles() / @Permissions() / @Scopes()
+ * or the { roles, permissions, scopes } endpoint and CrudController options
+ *
+ * The key is read when the application starts (see auth.config.ts)
+ * API keys need a global API_KEY_VERIFIER provider (ApiKeyModule)
+ */
+@Module({})
+export class AuthModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: AuthModule,
+      imports: [
+        JwtModule.registerAsync({
+          useFactory: () => {
+            const { publicKey, secret, ...verifyOptions } = getAuthConfig();
+            return { publicKey, secret, verifyOptions };
+          },
+        }),
+      ],
+      providers: [
+        // Guards run in this order: authenticate, then check access
+        { provide: APP_GUARD, useClass: AuthGuard },
+        { provide: APP_GUARD, useClass: AccessGuard },
+      ],
+    };
+  }
+}
@@ -1,24 +1,75 @@
+import { Readable } from 'stream';
+import {
+  HttpException,
+  HttpStatus,
+  Logger,
+  Param,
+  ParseIntPipe,
+  StreamableFile,
+  Type,
+} from '@nestjs/common';
 import { IBaseService } from '../interfaces/base-service.interface';
-import { BaseListResponseDto } from './base-dto';
+import { BatchResult, BatchUpdate } from '../interfaces/batch.interface';
+import { ListQueryOptions } from '../interfaces/list-query.interface';
+import {
+  HistoryEndpoint,
+  RestoreEndpoint,
+} from '../decorators/endpoint.decorator';
+import { AuditLogResponseDto } from '../audit/responses/audit-log-response.dto';
+import { AuditLogListResponseDto } from '../audit/responses/audit-log-list-response.dto';
+import { ValidationPipe } from '../pipes/validation.pipe';
+import {
+  getErrorCode,
+  getHttpErrorMessages,
+} from '../filters/http-exception.filter';
+import { BulkCreateDto } from '../bulk/dto/bulk-create.dto';
+import { BulkUpdateDto, BulkUpdateItemDto } from '../bulk/dto/bulk-update.dto';
+import { BulkDeleteDto } from '../bulk/dto/bulk-delete.dto';
+import { BulkResponseDto } from '../bulk/responses/bulk-response.dto';
+import { BulkItemResultResponseDto } from '../bulk/responses/bulk-item-result-response.dto';
+import {
+  EXPORT_CONTENT_TYPES,
+  ExportFormatType,
+} from '../export/export-format';
+import { getExportColumns } from '../export/export-columns';
+import { serializeExport } from '../export/export.serializer';
+
+const bulkItemValidationPipe = new ValidationPipe();
+
+/**
+ * Rows fetched per query while streaming an export
+ */
+const EXPORT_BATCH_SIZE = 500;
+
+type ParsedBulkItem<TInput> = { input: TInput } | { error: unknown };
 
 /**
  * Abstract base controller providing standard CRUD operations
- * 
+ *
  * Type parameters:
  * - T1: Entity type
  * - T2: Create DTO type
  * - T3: Update DTO type
  * - T4: Single response DTO type
  * - T5: List response DTO type
+ *
+ * Every subclass also serves POST /:id/restore for soft-deleted items
+ * and GET /:id/history from the audit trail
  */
 export abstract class BaseController<T1, T2, T3, T4, T5> {
+  private readonly bulkLogger = new Logger(BaseController.name);
+
   constructor(protected readonly service: IBaseService<T1>) {}
 
   /**
    * Abstract methods that must be implemented by child controllers
    */
   protected abstract getResponseClass(): new (data: T1) => T4;
-  protected abstract getListResponseClass(): new (items: T4[], total: number) => T5;
+  protected abstract getListResponseClass(): new (
+    items: T4[],
+    total: number,
+    pagination?: { page: number; limit: number },
+  ) => T5;
   protected abstract getEntityName(): string;
 
   /**
@@ -31,17 +82,57 @@ export abstract class BaseController<T1, T2, T3, T4, T5> {
   }
 
   /**
-   * Find all entities
+   * Find all entities - paginated, sorted and filtered when a list query is given
+   * With an export format, every match is streamed instead (page and limit are ignored)
    */
-  protected async findAllEntities(): Promise<T5> {
-    const entities = await this.service.findAll();
+  protected async findAllEntities(query?: ListQueryOptions): Promise<T5>;
+  protected async findAllEntities(
+    query: ListQueryOptions,
+    format: ExportFormatType | undefined,
+  ): Promise<T5 | StreamableFile>;
+  protected async findAllEntities(
+    query?: ListQueryOptions,
+    format?: ExportFormatType,
+  ): Promise<T5 | StreamableFile> {
+    if (query && format) {
+      return this.exportEntities(query, format);
+    }
+
     const ResponseClass = this.getResponseClass();
     const ListResponseClass = this.getListResponseClass();
-    
+
+    if (query) {
+      const { items, total } = await this.service.findPage(query);
+      const responseItems = items.map((entity) => new ResponseClass(entity));
+      return new ListResponseClass(responseItems, total, query);
+    }
+
+    const entities = await this.service.findAll();
     const responseItems = entities.map((entity) => new ResponseClass(entity));
     return new ListResponseClass(responseItems, entities.length);
   }
 
+  /**
+   * Stream every entity matching a list query as CSV or NDJSON
+   * Rows are read in batches, so memory use does not grow with the result
+   */
+  protected exportEntities(
+    query: ListQueryOptions,
+    format: ExportFormatType,
+  ): StreamableFile {
+    const ResponseClass = this.getResponseClass();
+    const columns = getExportColumns(ResponseClass, query.deleted);
+    const fileName = `${this.getEntityName().toLowerCase().replace(/\s+/g, '-')}s.${format}`;
+
+    return new StreamableFile(
+      Readable.from(serializeExport(this.readAll(query), columns, format)),
+      {
+        type: EXPORT_CONTENT_TYPES[format],
+        disposition: `attachment; filename="${fileName}"`,
+      },
+    );
+  }
+
   /**
    * Find one entity by ID
    */
@@ -52,20 +143,240 @@ export abstract class BaseController<T1, T2, T3, T4, T5> {
   }
 
   /**
-   * Update entity by ID
+   * Update entity by ID - pass the @IfMatch() version to reject stale writes with 412
    */
-  protected async updateEntity(id: number, updateDto: T3): Promise<T4> {
-    const entity = await this.service.update(id, updateDto);
+  protected async updateEntity(
+    id: number,
+    updateDto: T3,
+    version?: number,
+  ): Promise<T4> {
+    const entity = await this.service.update(id, updateDto, version);
     const ResponseClass = this.getResponseClass();
     return new ResponseClass(entity);
   }
 
   /**
-   * Remove entity by ID
+   * Remove entity by ID - pass the @IfMatch() version to reject stale deletes with 412
    */
-  protected async removeEntity(id: number): Promise<{ message: string }> {
-    await this.service.remove(id);
-    return { message: `${this.getEntityName()} with ID ${id} deleted successfully` };
+  protected async removeEntity(
+    id: number,
+    version?: number,
+  ): Promise<{ message: string }> {
+    await this.service.remove(id, version);
+    return {
+      message: `${this.getEntityName()} with ID ${id} deleted successfully`,
+    };
   }
-}
 
+  /**
+   * Bulk create - each item is validated like a single create body
+   * Invalid items are reported and, unless atomic, the valid ones still go through
+   * Pass the create response class when it differs, e.g. to include a secret shown once
+   */
+  protected bulkCreateEntities(
+    body: BulkCreateDto,
+    createDtoClass: Type<T2>,
+    atomic = false,
+    ResponseClass: new (data: T1) => T4 = this.getResponseClass(),
+  ): Promise<BulkResponseDto> {
+    return this.runBulk(
+      body.items,
+      (item) => this.validateBulkItem(createDtoClass, item),
+      (createDtos) => this.service.createMany(createDtos, atomic),
+      atomic,
+      HttpStatus.CREATED,
+      (entity) => new ResponseClass(entity),
+    );
+  }
+
+  /**
+   * Bulk update - each item is { id, changes, version? }, changes validated like a single update body
+   */
+  protected bulkUpdateEntities(
+    body: BulkUpdateDto,
+    updateDtoClass: Type<T3>,
+    atomic = false,
+  ): Promise<BulkResponseDto> {
+    return this.runBulk(
+      body.items,
+      async (item): Promise<BatchUpdate<T3>> => {
+        const { id, changes, version } = await this.validateBulkItem(
+          BulkUpdateItemDto,
+          item,
+        );
+        return {
+          id,
+          version,
+          changes: await this.validateBulkItem(updateDtoClass, changes),
+        };
+      },
+      (updates) => this.service.updateMany(updates, atomic),
+      atomic,
+      HttpStatus.OK,
+      (entity) => new (this.getResponseClass())(entity),
+    );
+  }
+
+  /**
+   * Bulk soft delete
+   */
+  protected bulkRemoveEntities(
+    body: BulkDeleteDto,
+    atomic = false,
+  ): Promise<BulkResponseDto> {
+    return this.runBulk(
+      body.ids,
+      (id) => Promise.resolve(id as number),
+      (ids) => this.service.removeMany(ids, atomic),
+      atomic,
+      HttpStatus.OK,
+      (id) => ({ id }),
+    );
+  }
+
+  /**
+   * Restore a soft-deleted entity - inherited route, no subclass code needed
+   */
+  @RestoreEndpoint()
+  async restore(@Param('id', ParseIntPipe) id: number): Promise<T4> {
+    const entity = await this.service.restore(id);
+    const ResponseClass = this.getResponseClass();
+    return new ResponseClass(entity);
+  }
+
+  /**
+   * Change history of an entity - inherited route, no subclass code needed
+   */
+  @HistoryEndpoint()
+  async findHistory(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<AuditLogListResponseDto> {
+    const entries = await this.service.findHistory(id);
+    const responseItems = entries.map(
+      (entry) => new AuditLogResponseDto(entry),
+    );
+    return new AuditLogListResponseDto(responseItems, entries.length);
+  }
+
+  private async *readAll(query: ListQueryOptions): AsyncGenerator<T4> {
+    const ResponseClass = this.getResponseClass();
+
+    for (let page = 1; ; page++) {
+      const { items } = await this.service.findPage({
+        ...query,
+        page,
+        limit: EXPORT_BATCH_SIZE,
+      });
+      for (const entity of items) {
+        yield new ResponseClass(entity);
+      }
+      if (items.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Validate every item, run the valid ones through the service batch
+   * and report one result per item in request order
+   */
+  private async runBulk<TInput, TValue>(
+    rawItems: unknown[],
+    parse: (item: unknown) => Promise<TInput>,
+    execute: (inputs: TInput[]) => Promise<BatchResult<TValue>>,
+    atomic: boolean,
+    successStatus: HttpStatus,
+    toData: (value: TValue) => unknown,
+  ): Promise<BulkResponseDto> {
+    const parsed = await Promise.all(
+      rawItems.map(async (item): Promise<ParsedBulkItem<TInput>> => {
+        try {
+          return { input: await parse(item) };
+        } catch (error) {
+          return { error };
+        }
+      }),
+    );
+    const results = parsed.map((item, index) =>
+      'error' in item
+        ? new BulkItemResultResponseDto({
+            index,
+            status: 'failed',
+            ...this.toBulkError(item.error),
+          })
+        : new BulkItemResultResponseDto({ index, status: 'skipped' }),
+    );
+
+    const validIndexes = parsed.flatMap((item, index) =>
+      'input' in item ? [index] : [],
+    );
+    if (
+      validIndexes.length === 0 ||
+      (atomic && validIndexes.length < parsed.length)
+    ) {
+      return new BulkResponseDto(false, results);
+    }
+
+    const batch = await execute(
+      validIndexes.map((index) => (parsed[index] as { input: TInput }).input),
+    );
+    batch.items.forEach((outcome, position) => {
+      const index = validIndexes[position];
+      if (outcome.status === 'succeeded') {
+        results[index] = new BulkItemResultResponseDto({
+          index,
+          status: 'succeeded',
+          statusCode: successStatus,
+          data: toData(outcome.value),
+        });
+      } else if (outcome.status === 'failed') {
+        results[index] = new BulkItemResultResponseDto({
+          index,
+          status: 'failed',
+          ...this.toBulkError(outcome.error),
+        });
+      } else {
+        results[index] = new BulkItemResultResponseDto({
+          index,
+          status: outcome.status,
+        });
+      }
+    });
+
+    return new BulkResponseDto(batch.committed, results);
+  }
+
+  private validateBulkItem<TDto>(
+    dtoClass: Type<TDto>,
+    item: unknown,
+  ): Promise<TDto> {
+    return bulkItemValidationPipe.transform(item, {
+      type: 'body',
+      metatype: dtoClass,
+    }) as Promise<TDto>;
+  }
+
+  private toBulkError(error: unknown): {
+    statusCode: number;
+    code: string;
+    errors: string[];
+  } {
+    if (error instanceof HttpException) {
+      return {
+        statusCode: error.getStatus(),
+        code: getErrorCode(error),
+        errors: getHttpErrorMessages(error),
+      };
+    }
+
+    this.bulkLogger.error(
+      `Bulk ${this.getEntityName()} item failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error.stack : undefined,
+    );
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      code: 'INTERNAL_SERVER_ERROR',
+      errors: ['Internal server error'],
+    };
+  }
+}
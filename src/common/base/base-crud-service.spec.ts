@@ -0,0 +1,165 @@
+import { BadRequestException } from '@nestjs/common';
+import { EntityNotFoundError } from '../errors/domain.error';
+import { InMemoryRepository } from '../repositories/in-memory.repository';
+import { InMemoryTransactionManager } from '../database/in-memory-transaction.manager';
+import { BaseCrudService } from './base-crud-service';
+import { BaseEntity } from './base-entity';
+
+class Note extends BaseEntity {
+  title: string;
+  locked: boolean;
+}
+
+class NoteService extends BaseCrudService<Note> {
+  calls: string[] = [];
+
+  protected getEntityName = () => 'Note';
+
+  protected beforeCreate(dto: Partial<Note>): Partial<Note> {
+    this.calls.push('beforeCreate');
+    return { ...dto, locked: false };
+  }
+
+  protected afterCreate(): void {
+    this.calls.push('afterCreate');
+  }
+
+  protected afterUpdate(entity: Note, previous: Note): void {
+    this.calls.push(`afterUpdate:${previous.title}->${entity.title}`);
+  }
+
+  protected beforeRemove(entity: Note): void {
+    if (entity.locked) {
+      throw new BadRequestException('Cannot delete locked notes');
+    }
+  }
+}
+
+describe('BaseCrudService', () => {
+  let service: NoteService;
+
+  beforeEach(() => {
+    service = new NoteService(new InMemoryRepository<Note>());
+  });
+
+  it('should run create hooks around persistence', async () => {
+    const note = await service.create({ title: 'first' });
+
+    expect(note.locked).toBe(false);
+    expect(service.calls).toEqual(['beforeCreate', 'afterCreate']);
+  });
+
+  it('should pass the previous state to afterUpdate', async () => {
+    const note = await service.create({ title: 'draft' });
+    await service.update(note.id, { title: 'final' });
+
+    expect(service.calls).toContain('afterUpdate:draft->final');
+  });
+
+  it('should let only one of two concurrent updates of a version win', async () => {
+    const note = await service.create({ title: 'draft' });
+
+    const results = await Promise.allSettled([
+      service.update(note.id, { title: 'first' }, 1),
+      service.update(note.id, { title: 'second' }, 1),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(results[1]).toMatchObject({
+      reason: { code: 'VERSION_CONFLICT' },
+    });
+    expect(await service.findOne(note.id)).toMatchObject({
+      title: 'first',
+      version: 2,
+    });
+  });
+
+  it('should let beforeRemove veto a delete', async () => {
+    const note = await service.create({ title: 'keep' });
+    await service.update(note.id, { locked: true });
+
+    await expect(service.remove(note.id)).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(await service.findOne(note.id)).toBeDefined();
+  });
+
+  it('should throw EntityNotFoundError with the entity name', async () => {
+    await expect(service.findOne(42)).rejects.toMatchObject({
+      code: 'NOTE_NOT_FOUND',
+      message: 'Note with ID 42 not found',
+    });
+  });
+
+  it('should soft-delete and restore', async () => {
+    const note = await service.create({ title: 'old' });
+    await service.remove(note.id);
+
+    await expect(service.findOne(note.id)).rejects.toBeInstanceOf(
+      EntityNotFoundError,
+    );
+    expect(await service.findAll()).toEqual([]);
+    expect(
+      await service.findPage({
+        page: 1,
+        limit: 20,
+        sort: [],
+        filters: [],
+        deleted: 'only',
+      }),
+    ).toMatchObject({ total: 1, items: [{ id: note.id }] });
+
+    await expect(service.restore(note.id)).resolves.toMatchObject({
+      title: 'old',
+      deletedAt: null,
+    });
+    await expect(service.restore(note.id)).rejects.toMatchObject({
+      code: 'NOTE_NOT_DELETED',
+    });
+  });
+
+  it('should purge only items deleted before the cutoff', async () => {
+    const first = await service.create({ title: 'first' });
+    const second = await service.create({ title: 'second' });
+    await service.remove(first.id);
+    const cutoff = new Date(Date.now() + 1000);
+
+    expect(await service.purgeDeleted(cutoff)).toBe(1);
+    await expect(service.findOne(first.id, true)).rejects.toBeInstanceOf(
+      EntityNotFoundError,
+    );
+    expect(await service.findOne(second.id)).toBeDefined();
+  });
+
+  it('should keep going after a failed batch item unless atomic', async () => {
+    const transactionManager = new InMemoryTransactionManager();
+    const repository = transactionManager.track(new InMemoryRepository<Note>());
+    service = Object.assign(new NoteService(repository), {
+      transactionManager,
+    });
+    const note = await service.create({ title: 'draft' });
+    const updates = [
+      { id: note.id, changes: { title: 'final' } },
+      { id: 999, changes: { title: 'missing' } },
+    ];
+
+    const atomic = await service.updateMany(updates, true);
+    expect(atomic.committed).toBe(false);
+    expect(atomic.items.map((item) => item.status)).toEqual([
+      'rolled_back',
+      'failed',
+    ]);
+    expect((await service.findOne(note.id)).title).toBe('draft');
+
+    const partial = await service.updateMany(updates);
+    expect(partial.committed).toBe(true);
+    expect(partial.items.map((item) => item.status)).toEqual([
+      'succeeded',
+      'failed',
+    ]);
+    expect((await service.findOne(note.id)).title).toBe('final');
+  });
+});
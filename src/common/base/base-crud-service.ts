@@ -0,0 +1,439 @@
+import { HttpStatus, Inject, Optional } from '@nestjs/common';
+import { IBaseService } from '../interfaces/base-service.interface';
+import {
+  DomainError,
+  EntityNotFoundError,
+  VersionConflictError,
+  toErrorCodePrefix,
+} from '../errors/domain.error';
+import { IRepository } from '../interfaces/repository.interface';
+import {
+  ListQueryOptions,
+  PaginatedResult,
+} from '../interfaces/list-query.interface';
+import { BaseEntity } from './base-entity';
+import { AuditTrail } from '../audit/audit-trail.service';
+import { AuditLog } from '../audit/audit-log.entity';
+import { TRANSACTION_MANAGER } from '../interfaces/transaction-manager.interface';
+import type { TransactionManager } from '../interfaces/transaction-manager.interface';
+import {
+  BatchItemResult,
+  BatchResult,
+  BatchUpdate,
+} from '../interfaces/batch.interface';
+
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Thrown to roll back a dry run once every item has been tried
+ */
+class DryRunRollback extends Error {}
+
+/**
+ * Abstract base service providing standard CRUD operations over a repository
+ *
+ * Type parameters:
+ * - TEntity: Entity type
+ * - TCreate: Create DTO type
+ * - TUpdate: Update DTO type
+ *
+ * Business rules belong in the lifecycle hooks, not in overridden CRUD methods:
+ * - beforeCreate / afterCreate
+ * - beforeUpdate / afterUpdate
+ * - beforeRemove / afterRemove
+ *
+ * remove() soft-deletes: the row keeps a deletedAt timestamp, can be restored,
+ * and is purged for good by TrashPurgeJob after the retention period
+ *
+ * update() and remove() take the version the caller last read (If-Match)
+ * and refuse with 412 when the entity has changed since. Every write is
+ * conditional on the version it was based on, so a concurrent change
+ * between the read and the write also answers 412 instead of being lost
+ *
+ * Every create, update, delete, restore, purge and save() is recorded
+ * in the audit trail when AuditModule is loaded
+ */
+export abstract class BaseCrudService<
+  TEntity extends BaseEntity,
+  TCreate = Partial<TEntity>,
+  TUpdate = Partial<TEntity>,
+> implements IBaseService<TEntity, TCreate, TUpdate>
+{
+  @Optional()
+  @Inject(AuditTrail)
+  protected readonly auditTrail?: AuditTrail;
+
+  @Optional()
+  @Inject(TRANSACTION_MANAGER)
+  protected readonly transactionManager?: TransactionManager;
+
+  constructor(protected readonly repository: IRepository<TEntity>) {}
+
+  /**
+   * Entity name used in error messages
+   */
+  protected abstract getEntityName(): string;
+
+  /**
+   * Create entity - runs beforeCreate/afterCreate hooks
+   */
+  async create(createDto: TCreate): Promise<TEntity> {
+    const data = await this.beforeCreate(createDto);
+    const entity = await this.repository.create(data);
+    await this.audit('create', entity.id, null, entity);
+    await this.afterCreate(entity);
+    return entity;
+  }
+
+  /**
+   * Find all entities
+   */
+  findAll(): Promise<TEntity[]> {
+    return this.repository.findAll();
+  }
+
+  /**
+   * Find a page of entities matching a list query
+   */
+  findPage(query: ListQueryOptions): Promise<PaginatedResult<TEntity>> {
+    return this.repository.findPage(query);
+  }
+
+  /**
+   * Find one entity by ID - throws EntityNotFoundError (404) if missing or soft-deleted
+   */
+  async findOne(id: number, withDeleted = false): Promise<TEntity> {
+    const entity = await this.repository.findById(id, withDeleted);
+
+    if (!entity) {
+      throw this.notFound(id);
+    }
+
+    return entity;
+  }
+
+  /**
+   * Update entity by ID - runs beforeUpdate/afterUpdate hooks
+   */
+  async update(
+    id: number,
+    updateDto: TUpdate,
+    expectedVersion?: number,
+  ): Promise<TEntity> {
+    const existing = await this.findOne(id);
+    this.checkVersion(existing, expectedVersion);
+    const changes = await this.beforeUpdate(existing, updateDto);
+    const updated = await this.persist(existing, changes, 'update');
+    await this.afterUpdate(updated, existing);
+    return updated;
+  }
+
+  /**
+   * Soft-delete entity by ID - runs beforeRemove/afterRemove hooks
+   */
+  async remove(id: number, expectedVersion?: number): Promise<void> {
+    const entity = await this.findOne(id);
+    this.checkVersion(entity, expectedVersion);
+    await this.beforeRemove(entity);
+    if (!(await this.repository.softDelete(id, entity.version))) {
+      throw await this.writeConflict(id);
+    }
+    await this.audit('delete', id, entity, await this.findOne(id, true));
+    await this.afterRemove(entity);
+  }
+
+  /**
+   * Bring back a soft-deleted entity
+   */
+  async restore(id: number): Promise<TEntity> {
+    const entity = await this.findOne(id, true);
+
+    if (!entity.deletedAt) {
+      throw new DomainError(
+        `${toErrorCodePrefix(this.getEntityName())}_NOT_DELETED`,
+        `${this.getEntityName()} with ID ${id} is not deleted`,
+        HttpStatus.BAD_REQUEST,
+        { id },
+      );
+    }
+
+    await this.repository.restore(id);
+    const restored = await this.findOne(id);
+    await this.audit('restore', id, entity, restored);
+    return restored;
+  }
+
+  /**
+   * Permanently delete entities soft-deleted before the cutoff
+   * Returns how many were purged
+   */
+  async purgeDeleted(before: Date): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const { items } = await this.repository.findPage({
+        page: 1,
+        limit: PURGE_BATCH_SIZE,
+        sort: [],
+        filters: [{ field: 'deletedAt', operator: 'lt', value: before }],
+        deleted: 'only',
+      });
+
+      for (const entity of items) {
+        await this.repository.delete(entity.id);
+        await this.audit('purge', entity.id, entity, null);
+      }
+
+      purged += items.length;
+      if (items.length < PURGE_BATCH_SIZE) {
+        return purged;
+      }
+    }
+  }
+
+  /**
+   * Batch variants - every item runs through its single operation and hooks
+   * With atomic, all items share one transaction and the first failure rolls back the batch;
+   * writes of other requests wait for it rather than being rolled back with it
+   *
+   * A dry run of createMany reports every item as if written, hooks and business
+   * rules included, then rolls the whole batch back
+   */
+  createMany(
+    createDtos: TCreate[],
+    atomic = false,
+    dryRun = false,
+  ): Promise<BatchResult<TEntity>> {
+    const work = (createDto: TCreate) => this.create(createDto);
+    return dryRun
+      ? this.runDryBatch(createDtos, work)
+      : this.runBatch(createDtos, work, atomic);
+  }
+
+  updateMany(
+    updates: BatchUpdate<TUpdate>[],
+    atomic = false,
+  ): Promise<BatchResult<TEntity>> {
+    return this.runBatch(
+      updates,
+      ({ id, changes, version }) => this.update(id, changes, version),
+      atomic,
+    );
+  }
+
+  removeMany(ids: number[], atomic = false): Promise<BatchResult<number>> {
+    return this.runBatch(
+      ids,
+      async (id) => {
+        await this.remove(id);
+        return id;
+      },
+      atomic,
+    );
+  }
+
+  /**
+   * Audit entries of an entity, oldest first - still available after it is deleted
+   */
+  async findHistory(id: number): Promise<AuditLog[]> {
+    const entries =
+      (await this.auditTrail?.findHistory(this.getEntityName(), id)) ?? [];
+
+    if (entries.length === 0) {
+      await this.findOne(id, true);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Persist changes to an existing entity without running update hooks
+   * Use from custom business operations (e.g. process, refund)
+   * and name the operation as the audit action
+   *
+   * With expectedVersion - the version the operation's checks were made
+   * against - it fails with 412 when the entity changed since
+   */
+  protected async save(
+    id: number,
+    changes: Partial<TEntity>,
+    action: string = 'update',
+    expectedVersion?: number,
+  ): Promise<TEntity> {
+    const existing = await this.findOne(id);
+    this.checkVersion(existing, expectedVersion);
+    return this.persist(existing, changes, action);
+  }
+
+  private async persist(
+    existing: TEntity,
+    changes: Partial<TEntity>,
+    action: string,
+  ): Promise<TEntity> {
+    const entity = await this.repository.update(
+      existing.id,
+      changes,
+      existing.version,
+    );
+
+    if (!entity) {
+      throw await this.writeConflict(existing.id);
+    }
+
+    await this.audit(action, existing.id, existing, entity);
+    return entity;
+  }
+
+  private async audit(
+    action: string,
+    id: number,
+    previous: TEntity | null,
+    current: TEntity | null,
+  ): Promise<void> {
+    await this.auditTrail?.record(
+      this.getEntityName(),
+      id,
+      action,
+      previous,
+      current,
+    );
+  }
+
+  private async runBatch<TInput, TResult>(
+    inputs: TInput[],
+    work: (input: TInput) => Promise<TResult>,
+    atomic: boolean,
+  ): Promise<BatchResult<TResult>> {
+    if (!atomic) {
+      return { committed: true, items: await this.runEach(inputs, work) };
+    }
+
+    const values: TResult[] = [];
+    try {
+      await this.requireTransactionManager('Atomic batches').run(async () => {
+        for (const input of inputs) {
+          values.push(await work(input));
+        }
+      });
+    } catch (error) {
+      if (values.length === inputs.length) {
+        throw error; // The commit itself failed
+      }
+
+      return {
+        committed: false,
+        items: inputs.map((_, index): BatchItemResult<TResult> => {
+          if (index < values.length) {
+            return { status: 'rolled_back' };
+          }
+          return index === values.length
+            ? { status: 'failed', error }
+            : { status: 'skipped' };
+        }),
+      };
+    }
+
+    return {
+      committed: true,
+      items: values.map((value) => ({ status: 'succeeded', value })),
+    };
+  }
+
+  private async runDryBatch<TInput, TResult>(
+    inputs: TInput[],
+    work: (input: TInput) => Promise<TResult>,
+  ): Promise<BatchResult<TResult>> {
+    let items: BatchItemResult<TResult>[] = [];
+    try {
+      await this.requireTransactionManager('Dry runs').run(async () => {
+        items = await this.runEach(inputs, work);
+        throw new DryRunRollback();
+      });
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) {
+        throw error;
+      }
+    }
+
+    return { committed: false, items };
+  }
+
+  private async runEach<TInput, TResult>(
+    inputs: TInput[],
+    work: (input: TInput) => Promise<TResult>,
+  ): Promise<BatchItemResult<TResult>[]> {
+    const items: BatchItemResult<TResult>[] = [];
+    for (const input of inputs) {
+      try {
+        items.push({ status: 'succeeded', value: await work(input) });
+      } catch (error) {
+        items.push({ status: 'failed', error });
+      }
+    }
+    return items;
+  }
+
+  protected requireTransactionManager(feature: string): TransactionManager {
+    if (!this.transactionManager) {
+      throw new Error(
+        `${feature} need the TRANSACTION_MANAGER of DatabaseModule.forRoot()`,
+      );
+    }
+    return this.transactionManager;
+  }
+
+  private checkVersion(entity: TEntity, expectedVersion?: number): void {
+    if (expectedVersion !== undefined && entity.version !== expectedVersion) {
+      throw new VersionConflictError(
+        this.getEntityName(),
+        entity.id,
+        entity.version,
+      );
+    }
+  }
+
+  /**
+   * Error for a conditional write that matched no row - changed meanwhile, or gone
+   */
+  private async writeConflict(
+    id: number,
+  ): Promise<VersionConflictError | EntityNotFoundError> {
+    const current = await this.repository.findById(id);
+    return current
+      ? new VersionConflictError(this.getEntityName(), id, current.version)
+      : this.notFound(id);
+  }
+
+  protected notFound(id: number): EntityNotFoundError {
+    return new EntityNotFoundError(this.getEntityName(), id);
+  }
+
+  /**
+   * Lifecycle hooks - override in child services
+   */
+  /* eslint-disable @typescript-eslint/no-unused-vars */
+  protected beforeCreate(
+    createDto: TCreate,
+  ): Promise<Partial<TEntity>> | Partial<TEntity> {
+    return { ...createDto } as Partial<TEntity>;
+  }
+
+  protected afterCreate(_entity: TEntity): Promise<void> | void {}
+
+  protected beforeUpdate(
+    _entity: TEntity,
+    updateDto: TUpdate,
+  ): Promise<Partial<TEntity>> | Partial<TEntity> {
+    return { ...updateDto } as Partial<TEntity>;
+  }
+
+  protected afterUpdate(
+    _entity: TEntity,
+    _previous: TEntity,
+  ): Promise<void> | void {}
+
+  protected beforeRemove(_entity: TEntity): Promise<void> | void {}
+
+  protected afterRemove(_entity: TEntity): Promise<void> | void {}
+  /* eslint-enable @typescript-eslint/no-unused-vars */
+}
@@ -28,6 +28,21 @@ export abstract class BaseResponseDto {
   @ApiProperty({ description: 'Last update timestamp', example: '2024-01-01T00:00:00.000Z' })
   updatedAt: Date;
 
+  @ApiProperty({ description: 'Version, bumped on every update - also sent as the ETag header', example: 1 })
+  version: number;
+
+  @ApiProperty({
+    description: 'Soft deletion timestamp, set only on items listed with includeDeleted or onlyDeleted',
+    example: null,
+    required: false,
+    type: Date,
+    nullable: true,
+  })
+  deletedAt?: Date | null;
+
+  @ApiProperty({ description: 'Tenant owning the entity', example: 'acme', required: false, type: String, nullable: true })
+  tenantId?: string | null;
+
   constructor(partial?: Partial<any>) {
     if (partial) {
       Object.assign(this, partial);
@@ -51,9 +66,24 @@ export class BaseListResponseDto<T> {
   @ApiProperty({ description: 'Total count', example: 10 })
   total: number;
 
-  constructor(items: T[], total?: number) {
+  @ApiProperty({ description: 'Current page', example: 1, required: false })
+  page?: number;
+
+  @ApiProperty({ description: 'Items per page', example: 20, required: false })
+  limit?: number;
+
+  @ApiProperty({ description: 'Total number of pages', example: 1, required: false })
+  totalPages?: number;
+
+  constructor(items: T[], total?: number, pagination?: { page: number; limit: number }) {
     this.items = items;
     this.total = total !== undefined ? total : items.length;
+
+    if (pagination) {
+      this.page = pagination.page;
+      this.limit = pagination.limit;
+      this.totalPages = Math.ceil(this.total / pagination.limit);
+    }
   }
 }
 
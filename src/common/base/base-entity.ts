@@ -0,0 +1,38 @@
+import {
+  Column,
+  CreateDateColumn,
+  DeleteDateColumn,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  VersionColumn,
+} from 'typeorm';
+
+/**
+ * Abstract base class for all persisted entities
+ *
+ * Provides the identity and timestamp columns every repository relies on
+ * deletedAt marks soft-deleted rows, which repositories hide unless asked for
+ * version is bumped on every update and backs ETag / If-Match
+ * tenantId is stamped on create and scopes every read and write (see TenantScopedRepository)
+ */
+export abstract class BaseEntity {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @DeleteDateColumn({ nullable: true })
+  deletedAt?: Date | null;
+
+  @VersionColumn({ default: 1 })
+  version: number;
+
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  tenantId?: string | null;
+}
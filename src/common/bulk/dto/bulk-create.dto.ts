@@ -0,0 +1,11 @@
+import { AutoApplyDecorators } from '../../decorators/auto-apply.decorator';
+import { BulkCreateMapping } from './mapping';
+
+/**
+ * Body of POST /{resource}/bulk
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(BulkCreateMapping)
+export class BulkCreateDto {
+  items: Record<string, unknown>[];
+}
@@ -0,0 +1,11 @@
+import { AutoApplyDecorators } from '../../decorators/auto-apply.decorator';
+import { BulkDeleteMapping } from './mapping';
+
+/**
+ * Body of DELETE /{resource}/bulk
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(BulkDeleteMapping)
+export class BulkDeleteDto {
+  ids: number[];
+}
@@ -0,0 +1,21 @@
+import { AutoApplyDecorators } from '../../decorators/auto-apply.decorator';
+import { BulkUpdateItemMapping, BulkUpdateMapping } from './mapping';
+
+/**
+ * Body of PATCH /{resource}/bulk
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(BulkUpdateMapping)
+export class BulkUpdateDto {
+  items: Record<string, unknown>[];
+}
+
+/**
+ * One item of BulkUpdateDto, validated on its own so errors stay per item
+ */
+@AutoApplyDecorators(BulkUpdateItemMapping)
+export class BulkUpdateItemDto {
+  id: number;
+  changes: Record<string, unknown>;
+  version?: number;
+}
@@ -0,0 +1,48 @@
+import {
+  IdArrayField,
+  NumberField,
+  ObjectArrayField,
+  ObjectField,
+} from '../../decorators/field.decorator';
+
+/**
+ * Most items a single bulk request accepts
+ */
+export const MAX_BULK_ITEMS = 1000;
+
+/**
+ * Field mappings for bulk request DTOs
+ * Items are validated one by one against the resource's own create/update DTO
+ */
+export const BulkCreateMapping = {
+  items: () =>
+    ObjectArrayField(
+      'Items to create, each shaped like the single create body',
+      [{ amount: 99.99, currency: 'USD' }],
+      MAX_BULK_ITEMS,
+    ),
+};
+
+export const BulkUpdateMapping = {
+  items: () =>
+    ObjectArrayField(
+      'Changes to apply, each { id, changes, version? }',
+      [{ id: 1, changes: { description: 'Corrected' }, version: 2 }],
+      MAX_BULK_ITEMS,
+    ),
+};
+
+export const BulkUpdateItemMapping = {
+  id: () => NumberField('Entity ID', 1, true, 1),
+  changes: () =>
+    ObjectField(
+      'Fields to change, shaped like the single update body',
+      { description: 'Corrected' },
+      true,
+    ),
+  version: () => NumberField('Expected version, like If-Match', 2, false, 1),
+};
+
+export const BulkDeleteMapping = {
+  ids: () => IdArrayField('IDs to delete', [1, 2, 3], MAX_BULK_ITEMS),
+};
@@ -0,0 +1,21 @@
+import { AutoResponse } from '../../decorators/auto-response.decorator';
+import type { BatchItemStatus } from '../../interfaces/batch.interface';
+import { BulkItemResultResponseMapping } from './mapping';
+
+/**
+ * Response DTO for one item of a bulk request
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(BulkItemResultResponseMapping)
+export class BulkItemResultResponseDto {
+  index: number;
+  status: BatchItemStatus;
+  statusCode?: number;
+  data?: unknown;
+  code?: string;
+  errors?: string[];
+
+  constructor(partial?: Partial<BulkItemResultResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
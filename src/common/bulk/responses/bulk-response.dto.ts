@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AutoResponse } from '../../decorators/auto-response.decorator';
+import { BulkItemResultResponseDto } from './bulk-item-result-response.dto';
+import { BulkResponseMapping } from './mapping';
+
+/**
+ * Response DTO for a bulk request - one result per item, in request order
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(BulkResponseMapping)
+export class BulkResponseDto {
+  committed: boolean;
+  succeeded: number;
+  failed: number;
+
+  @ApiProperty({
+    description: 'Per-item results',
+    type: BulkItemResultResponseDto,
+    isArray: true,
+  })
+  items: BulkItemResultResponseDto[];
+
+  constructor(committed: boolean, items: BulkItemResultResponseDto[]) {
+    this.committed = committed;
+    this.items = items;
+    this.succeeded = items.filter((item) => item.status === 'succeeded').length;
+    this.failed = items.filter((item) => item.status === 'failed').length;
+  }
+}
@@ -0,0 +1,74 @@
+import { ResponseFieldConfig } from '../../decorators/auto-response.decorator';
+
+const BULK_ITEM_STATUSES = ['succeeded', 'failed', 'rolled_back', 'skipped'];
+
+/**
+ * Response field configuration for bulk DTOs
+ * Used by @AutoResponse decorator for Swagger documentation
+ */
+export const BulkItemResultResponseMapping: Record<
+  string,
+  ResponseFieldConfig
+> = {
+  index: {
+    description: 'Position of the item in the request',
+    example: 0,
+    required: true,
+    type: Number,
+  },
+  status: {
+    description: 'rolled_back and skipped only happen in atomic mode',
+    example: 'succeeded',
+    required: true,
+    enum: BULK_ITEM_STATUSES,
+  },
+  statusCode: {
+    description:
+      'HTTP status the item would have had as a single request (succeeded and failed items)',
+    example: 201,
+    required: false,
+    type: Number,
+  },
+  data: {
+    description:
+      'Created or updated entity, as returned by the single endpoint',
+    example: { id: 1 },
+    required: false,
+    type: Object,
+  },
+  code: {
+    description:
+      'Error code of a failed item, as in the problem+json of the single endpoint',
+    example: 'VALIDATION_FAILED',
+    required: false,
+    type: String,
+  },
+  errors: {
+    description: 'Validation or business errors of a failed item',
+    example: ['amount must be a positive number'],
+    required: false,
+    type: String,
+    isArray: true,
+  },
+};
+
+export const BulkResponseMapping: Record<string, ResponseFieldConfig> = {
+  committed: {
+    description: 'false when an atomic batch was rolled back',
+    example: true,
+    required: true,
+    type: Boolean,
+  },
+  succeeded: {
+    description: 'Items written',
+    example: 2,
+    required: true,
+    type: Number,
+  },
+  failed: {
+    description: 'Items that failed',
+    example: 0,
+    required: true,
+    type: Number,
+  },
+};
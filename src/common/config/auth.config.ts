@@ -0,0 +1,35 @@
+import type { Algorithm } from 'jsonwebtoken';
+
+/**
+ * JWT authentication configuration
+ *
+ * Selected through environment variables:
+ * - JWT_PUBLIC_KEY: PEM public key checking RS256 / ES256 tokens (\n escapes allowed)
+ * - JWT_SECRET: shared secret checking HS256 tokens, used when no public key is set
+ * - JWT_ISSUER / JWT_AUDIENCE: expected iss and aud claims (optional)
+ *
+ * Tokens are only verified here - issuing them is the identity provider's job
+ */
+export interface AuthConfig {
+  publicKey?: string;
+  secret?: string;
+  algorithms: Algorithm[];
+  issuer?: string;
+  audience?: string;
+}
+
+export function getAuthConfig(): AuthConfig {
+  const publicKey = process.env.JWT_PUBLIC_KEY?.replace(/\\n/g, '\n');
+  const secret = process.env.JWT_SECRET;
+
+  if (!publicKey && !secret) {
+    throw new Error('Set JWT_PUBLIC_KEY or JWT_SECRET to verify access tokens');
+  }
+
+  return {
+    ...(publicKey ? { publicKey } : { secret }),
+    algorithms: publicKey ? ['RS256', 'ES256'] : ['HS256'],
+    issuer: process.env.JWT_ISSUER || undefined,
+    audience: process.env.JWT_AUDIENCE || undefined,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Currency configuration
+ *
+ * Selected through environment variables:
+ * - CURRENCIES: comma-separated ISO 4217 codes enabled for payments (default USD,EUR,GBP).
+ *   An exponent can be set per code as CODE:exponent (e.g. JPY:0,KWD:3); codes
+ *   without one use the ISO 4217 exponent
+ */
+export interface CurrencyConfigEntry {
+  code: string;
+  exponent?: number;
+}
+
+export interface CurrencyConfig {
+  currencies: CurrencyConfigEntry[];
+}
+
+const DEFAULT_CURRENCIES = 'USD,EUR,GBP';
+
+export function getCurrencyConfig(): CurrencyConfig {
+  const raw = process.env.CURRENCIES || DEFAULT_CURRENCIES;
+
+  return {
+    currencies: raw
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [code, exponent] = entry.split(':');
+        return {
+          code: code.trim().toUpperCase(),
+          exponent: exponent === undefined ? undefined : Number(exponent),
+        };
+      }),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Database configuration
+ *
+ * Selected through environment variables:
+ * - DB_DRIVER: 'sqlite' (default) or 'memory'
+ * - DB_DATABASE: SQLite file path (defaults to data/basenestapi.sqlite, ':memory:' under tests)
+ * - DB_SYNCHRONIZE: 'false' to disable automatic schema sync
+ */
+export type DatabaseDriver = 'sqlite' | 'memory';
+
+export interface DatabaseConfig {
+  driver: DatabaseDriver;
+  database: string;
+  synchronize: boolean;
+}
+
+export function getDatabaseConfig(): DatabaseConfig {
+  const isTest = process.env.NODE_ENV === 'test';
+
+  return {
+    driver: process.env.DB_DRIVER === 'memory' ? 'memory' : 'sqlite',
+    database:
+      process.env.DB_DATABASE ??
+      (isTest ? ':memory:' : 'data/basenestapi.sqlite'),
+    synchronize: process.env.DB_SYNCHRONIZE !== 'false',
+  };
+}
@@ -0,0 +1,22 @@
+/**
+ * CSV import configuration
+ *
+ * Selected through environment variables:
+ * - IMPORT_MAX_FILE_MB: largest accepted upload (default 10)
+ * - IMPORT_MAX_ROWS: most data rows per file (default 10000)
+ * - IMPORT_JOB_RETENTION_HOURS: how long finished jobs stay readable (default 24)
+ */
+export interface ImportConfig {
+  maxFileBytes: number;
+  maxRows: number;
+  jobRetentionMs: number;
+}
+
+export function getImportConfig(): ImportConfig {
+  return {
+    maxFileBytes: Number(process.env.IMPORT_MAX_FILE_MB ?? 10) * 1024 * 1024,
+    maxRows: Number(process.env.IMPORT_MAX_ROWS ?? 10000),
+    jobRetentionMs:
+      Number(process.env.IMPORT_JOB_RETENTION_HOURS ?? 24) * 60 * 60 * 1000,
+  };
+}
@@ -0,0 +1,57 @@
+import type { LogLevel } from '@nestjs/common';
+
+/**
+ * Log levels from the most to the least severe
+ */
+export const LOG_LEVELS: LogLevel[] = [
+  'fatal',
+  'error',
+  'warn',
+  'log',
+  'debug',
+  'verbose',
+];
+
+const DEFAULT_REDACT_FIELDS = [
+  'customerEmail',
+  'customerName',
+  'cardToken',
+  'password',
+  'secret',
+  'token',
+  'authorization',
+  'apiKey',
+];
+
+/**
+ * Structured JSON logging configuration
+ *
+ * Selected through environment variables:
+ * - LOG_LEVEL: least severe level written (default log; debug adds request bodies)
+ * - LOG_REDACT_FIELDS: comma-separated field names whose values are never logged,
+ *   matched case-insensitively at any depth (default: customer, card and credential fields)
+ */
+export interface LoggingConfig {
+  levels: LogLevel[];
+  redactFields: string[];
+}
+
+export function getLoggingConfig(): LoggingConfig {
+  const level = (process.env.LOG_LEVEL ?? 'log') as LogLevel;
+  const index = LOG_LEVELS.indexOf(level);
+
+  if (index < 0) {
+    throw new Error(
+      `Unsupported LOG_LEVEL ${level} - use one of ${LOG_LEVELS.join(', ')}`,
+    );
+  }
+
+  const redactFields = process.env.LOG_REDACT_FIELDS?.split(',')
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+  return {
+    levels: LOG_LEVELS.slice(0, index + 1),
+    redactFields: redactFields ?? DEFAULT_REDACT_FIELDS,
+  };
+}
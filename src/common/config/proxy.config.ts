@@ -0,0 +1,23 @@
+/**
+ * Express `trust proxy` setting - which proxies request.ip may be taken from
+ *
+ * Selected through the TRUST_PROXY environment variable (default false:
+ * request.ip is the connecting address and X-Forwarded-For is ignored):
+ * - true or false
+ * - a hop count, e.g. 1 behind a single load balancer
+ * - comma-separated addresses, subnets or Express presets, e.g. loopback,10.0.0.0/8
+ */
+export function getTrustProxyConfig(): boolean | number | string[] {
+  const value = process.env.TRUST_PROXY?.trim();
+
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+  return value.split(',').map((entry) => entry.trim());
+}
@@ -0,0 +1,43 @@
+import type {
+  RateLimitPolicy,
+  RateLimitStrategy,
+} from '../interfaces/rate-limit-store.interface';
+
+const STRATEGIES: RateLimitStrategy[] = ['fixed-window', 'token-bucket'];
+
+/**
+ * Default rate limit of routes without @RateLimit()
+ *
+ * Selected through environment variables:
+ * - RATE_LIMIT_MAX: requests per client and window (default 100, 0 disables the default)
+ * - RATE_LIMIT_WINDOW_SECONDS: window length (default 60)
+ * - RATE_LIMIT_STRATEGY: fixed-window (default) or token-bucket
+ */
+export function getRateLimitConfig(): RateLimitPolicy | null {
+  return policyOf(Number(process.env.RATE_LIMIT_MAX ?? 100));
+}
+
+/**
+ * Limit of requests failing authentication per IP
+ *
+ * Selected through environment variables:
+ * - RATE_LIMIT_IP_MAX: failed requests per IP and window (default 300, 0 disables it)
+ * - window and strategy as in getRateLimitConfig()
+ */
+export function getIpRateLimitConfig(): RateLimitPolicy | null {
+  return policyOf(Number(process.env.RATE_LIMIT_IP_MAX ?? 300));
+}
+
+function policyOf(limit: number): RateLimitPolicy | null {
+  const windowSeconds = Number(process.env.RATE_LIMIT_WINDOW_SECONDS ?? 60);
+  const strategy = (process.env.RATE_LIMIT_STRATEGY ??
+    'fixed-window') as RateLimitStrategy;
+
+  if (!STRATEGIES.includes(strategy)) {
+    throw new Error(
+      `Unsupported RATE_LIMIT_STRATEGY ${strategy} - use ${STRATEGIES.join(' or ')}`,
+    );
+  }
+
+  return limit > 0 ? { limit, windowSeconds, strategy } : null;
+}
@@ -0,0 +1,18 @@
+/**
+ * Trash configuration
+ *
+ * Selected through environment variables:
+ * - TRASH_RETENTION_DAYS: how long soft-deleted items can be restored before they are purged (default 30)
+ * - TRASH_ROLE: role needed to list soft-deleted items and restore them (default admin)
+ */
+export interface TrashConfig {
+  retentionDays: number;
+  role: string;
+}
+
+export function getTrashConfig(): TrashConfig {
+  return {
+    retentionDays: Number(process.env.TRASH_RETENTION_DAYS ?? 30),
+    role: process.env.TRASH_ROLE || 'admin',
+  };
+}
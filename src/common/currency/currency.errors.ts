@@ -0,0 +1,30 @@
+import { HttpStatus } from '@nestjs/common';
+import { DomainError } from '../errors/domain.error';
+
+/**
+ * CURRENCY_UNSUPPORTED - the code is not enabled in the currency registry
+ */
+export class CurrencyUnsupportedError extends DomainError {
+  constructor(currency: string, supported: string[]) {
+    super(
+      'CURRENCY_UNSUPPORTED',
+      `Invalid currency. Supported: ${supported.join(', ')}`,
+      HttpStatus.BAD_REQUEST,
+      { currency, supported },
+    );
+  }
+}
+
+/**
+ * AMOUNT_PRECISION_EXCEEDED - more decimals than the currency's minor unit allows
+ */
+export class AmountPrecisionError extends DomainError {
+  constructor(amount: number, currency: string, exponent: number) {
+    super(
+      'AMOUNT_PRECISION_EXCEEDED',
+      `Amount ${amount} has more than ${exponent} decimal places allowed for ${currency}`,
+      HttpStatus.BAD_REQUEST,
+      { amount, currency, exponent },
+    );
+  }
+}
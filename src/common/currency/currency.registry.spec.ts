@@ -0,0 +1,53 @@
+import {
+  AmountPrecisionError,
+  CurrencyUnsupportedError,
+} from './currency.errors';
+import { CurrencyRegistry } from './currency.registry';
+
+describe('CurrencyRegistry', () => {
+  const registry = new CurrencyRegistry({
+    currencies: [
+      { code: 'USD' },
+      { code: 'JPY' },
+      { code: 'KWD' },
+      { code: 'XTS', exponent: 1 },
+    ],
+  });
+
+  it('should use ISO 4217 exponents unless configured', () => {
+    expect(registry.codes).toEqual(['USD', 'JPY', 'KWD', 'XTS']);
+    expect(registry.get('usd').exponent).toBe(2);
+    expect(registry.get('JPY').exponent).toBe(0);
+    expect(registry.get('KWD').exponent).toBe(3);
+    expect(registry.get('XTS').exponent).toBe(1);
+  });
+
+  it('should convert between major and minor units without float drift', () => {
+    expect(registry.toMinorUnits(0.1 + 0.2, 'USD')).toBe(30);
+    expect(registry.toMinorUnits(19.99, 'USD')).toBe(1999);
+    expect(registry.toMinorUnits(500, 'JPY')).toBe(500);
+    expect(registry.toMinorUnits(1.005, 'KWD')).toBe(1005);
+    expect(registry.fromMinorUnits(1999, 'USD')).toBe(19.99);
+    expect(registry.fromMinorUnits(1005, 'KWD')).toBe(1.005);
+  });
+
+  it('should reject amounts more precise than the currency', () => {
+    expect(() => registry.toMinorUnits(1.5, 'JPY')).toThrow(
+      AmountPrecisionError,
+    );
+    expect(() => registry.toMinorUnits(9.999, 'USD')).toThrow(
+      'Amount 9.999 has more than 2 decimal places allowed for USD',
+    );
+  });
+
+  it('should reject disabled and unknown currencies', () => {
+    expect(registry.isSupported('EUR')).toBe(false);
+    expect(() => registry.get('EUR')).toThrow(CurrencyUnsupportedError);
+    expect(() => registry.get('EUR')).toThrow(
+      'Invalid currency. Supported: USD, JPY, KWD, XTS',
+    );
+    expect(
+      () => new CurrencyRegistry({ currencies: [{ code: 'ABC' }] }),
+    ).toThrow("Unknown ISO 4217 currency 'ABC'");
+  });
+});
@@ -0,0 +1,160 @@
+import { getCurrencyConfig } from '../config/currency.config';
+import type { CurrencyConfig } from '../config/currency.config';
+import {
+  AmountPrecisionError,
+  CurrencyUnsupportedError,
+} from './currency.errors';
+
+export interface CurrencyDefinition {
+  code: string;
+  exponent: number; // Number of minor-unit digits (2 for USD cents, 0 for JPY)
+}
+
+/**
+ * ISO 4217 minor-unit exponents
+ * Codes not listed here can still be enabled with an explicit exponent
+ */
+export const ISO_4217_EXPONENTS: Record<string, number> = {
+  AED: 2,
+  ARS: 2,
+  AUD: 2,
+  BGN: 2,
+  BHD: 3,
+  BRL: 2,
+  CAD: 2,
+  CHF: 2,
+  CLP: 0,
+  CNY: 2,
+  COP: 2,
+  CZK: 2,
+  DKK: 2,
+  EGP: 2,
+  EUR: 2,
+  GBP: 2,
+  HKD: 2,
+  HUF: 2,
+  IDR: 2,
+  ILS: 2,
+  INR: 2,
+  IQD: 3,
+  ISK: 0,
+  JOD: 3,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  LYD: 3,
+  MAD: 2,
+  MXN: 2,
+  MYR: 2,
+  NGN: 2,
+  NOK: 2,
+  NZD: 2,
+  OMR: 3,
+  PEN: 2,
+  PHP: 2,
+  PKR: 2,
+  PLN: 2,
+  RON: 2,
+  SAR: 2,
+  SEK: 2,
+  SGD: 2,
+  THB: 2,
+  TND: 3,
+  TRY: 2,
+  TWD: 2,
+  UAH: 2,
+  UGX: 0,
+  USD: 2,
+  VND: 0,
+  XAF: 0,
+  XOF: 0,
+  ZAR: 2,
+};
+
+/**
+ * Enabled currencies and their minor units
+ *
+ * Amounts cross the API in major units (99.99 USD) and are stored as
+ * integer minor units (9999) so totals never pick up float rounding
+ */
+export class CurrencyRegistry {
+  private readonly currencies = new Map<string, CurrencyDefinition>();
+
+  constructor(config: CurrencyConfig) {
+    for (const {
+      code,
+      exponent = ISO_4217_EXPONENTS[code],
+    } of config.currencies) {
+      if (!/^[A-Z]{3}$/.test(code)) {
+        throw new Error(`Invalid currency code '${code}'`);
+      }
+      if (exponent === undefined) {
+        throw new Error(
+          `Unknown ISO 4217 currency '${code}', configure it as ${code}:<exponent>`,
+        );
+      }
+      if (!Number.isInteger(exponent) || exponent < 0 || exponent > 4) {
+        throw new Error(`Invalid exponent for currency '${code}'`);
+      }
+      this.currencies.set(code, { code, exponent });
+    }
+  }
+
+  get codes(): string[] {
+    return [...this.currencies.keys()];
+  }
+
+  isSupported(code: string): boolean {
+    return this.currencies.has(code.toUpperCase());
+  }
+
+  get(code: string): CurrencyDefinition {
+    const currency = this.currencies.get(code.toUpperCase());
+    if (!currency) {
+      throw new CurrencyUnsupportedError(code, this.codes);
+    }
+    return currency;
+  }
+
+  /**
+   * Convert a major-unit amount to integer minor units
+   * Rejects amounts with more decimals than the currency allows
+   */
+  toMinorUnits(amount: number, code: string): number {
+    const { exponent } = this.get(code);
+    const scaled = amount * 10 ** exponent;
+    const minor = Math.round(scaled);
+
+    if (Math.abs(scaled - minor) > 1e-6) {
+      throw new AmountPrecisionError(amount, code.toUpperCase(), exponent);
+    }
+
+    return minor;
+  }
+
+  /**
+   * Convert integer minor units back to a major-unit amount
+   */
+  fromMinorUnits(minor: number, code: string): number {
+    const exponent = this.exponentOf(code);
+    return Number((minor / 10 ** exponent).toFixed(exponent));
+  }
+
+  /**
+   * Minor-unit exponent of a code, enabled or not (ISO 4217, else 2)
+   * Stored amounts stay readable even if their currency is disabled later
+   */
+  exponentOf(code: string): number {
+    const upper = code.toUpperCase();
+    return (
+      this.currencies.get(upper)?.exponent ?? ISO_4217_EXPONENTS[upper] ?? 2
+    );
+  }
+}
+
+/**
+ * Registry built from the current environment
+ */
+export function getCurrencyRegistry(): CurrencyRegistry {
+  return new CurrencyRegistry(getCurrencyConfig());
+}
@@ -0,0 +1,110 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, MigrationInterface, Repository } from 'typeorm';
+import { BaseEntity } from '../base/base-entity';
+import { getDatabaseConfig } from '../config/database.config';
+import { InMemoryRepository } from '../repositories/in-memory.repository';
+import { TypeOrmRepository } from '../repositories/typeorm.repository';
+import { TenantScopedRepository } from '../repositories/tenant-scoped.repository';
+import { getEntityRepositoryToken } from './repository.tokens';
+import { TRANSACTION_MANAGER } from '../interfaces/transaction-manager.interface';
+import { InMemoryTransactionManager } from './in-memory-transaction.manager';
+import { TypeOrmTransactionManager } from './typeorm-transaction.manager';
+
+type EntityClass = new (...args: any[]) => BaseEntity;
+type MigrationClass = new () => MigrationInterface;
+
+/**
+ * Database module - wires the configured repository implementation
+ *
+ * Usage:
+ * - AppModule: imports: [DatabaseModule.forRoot({ migrations: [...] })]
+ * - Feature module: imports: [DatabaseModule.forFeature([User])]
+ *
+ * Services then inject with @InjectEntityRepository(User)
+ * forRoot() also provides the global TRANSACTION_MANAGER
+ * Every feature repository is scoped to the current tenant (TenantScopedRepository)
+ * Migrations run on startup, before schema sync, so they still see the old schema
+ */
+@Module({})
+export class DatabaseModule {
+  static forRoot(
+    options: { migrations?: MigrationClass[] } = {},
+  ): DynamicModule {
+    const config = getDatabaseConfig();
+
+    if (config.driver === 'memory') {
+      return {
+        module: DatabaseModule,
+        global: true,
+        providers: [
+          {
+            provide: TRANSACTION_MANAGER,
+            useValue: new InMemoryTransactionManager(),
+          },
+        ],
+        exports: [TRANSACTION_MANAGER],
+      };
+    }
+
+    return {
+      module: DatabaseModule,
+      global: true,
+      providers: [
+        {
+          provide: TRANSACTION_MANAGER,
+          useFactory: (dataSource: DataSource) =>
+            new TypeOrmTransactionManager(dataSource),
+          inject: [DataSource],
+        },
+      ],
+      exports: [TRANSACTION_MANAGER],
+      imports: [
+        TypeOrmModule.forRoot({
+          type: 'better-sqlite3',
+          database: config.database,
+          synchronize: config.synchronize,
+          autoLoadEntities: true,
+          migrations: options.migrations ?? [],
+          migrationsRun: Boolean(options.migrations?.length),
+        }),
+      ],
+    };
+  }
+
+  static forFeature(entities: EntityClass[]): DynamicModule {
+    const config = getDatabaseConfig();
+
+    if (config.driver === 'memory') {
+      const providers: Provider[] = entities.map((entity) => ({
+        provide: getEntityRepositoryToken(entity),
+        useFactory: (transactionManager: InMemoryTransactionManager) =>
+          new TenantScopedRepository(
+            transactionManager.track(new InMemoryRepository(entity)),
+          ),
+        inject: [TRANSACTION_MANAGER],
+      }));
+
+      return { module: DatabaseModule, providers, exports: providers };
+    }
+
+    const providers: Provider[] = entities.map((entity) => ({
+      provide: getEntityRepositoryToken(entity),
+      useFactory: (
+        repository: Repository<BaseEntity>,
+        transactionManager: TypeOrmTransactionManager,
+      ) =>
+        new TenantScopedRepository(
+          new TypeOrmRepository(repository, transactionManager),
+        ),
+      inject: [getRepositoryToken(entity), TRANSACTION_MANAGER],
+    }));
+
+    return {
+      module: DatabaseModule,
+      imports: [TypeOrmModule.forFeature(entities)],
+      providers,
+      exports: providers,
+    };
+  }
+}
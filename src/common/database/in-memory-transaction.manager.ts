@@ -0,0 +1,55 @@
+import type { TransactionManager } from '../interfaces/transaction-manager.interface';
+import { BaseEntity } from '../base/base-entity';
+import { InMemoryRepository } from '../repositories/in-memory.repository';
+import {
+  getTransactionContext,
+  runAfterCommitCallbacks,
+  runInTransactionContext,
+  TransactionContext,
+} from './transaction.context';
+
+/**
+ * Snapshot-based transactions for the memory driver
+ *
+ * A failed unit of work restores every tracked repository. There is no
+ * isolation: writes made concurrently by other requests are rolled back too
+ */
+export class InMemoryTransactionManager implements TransactionManager {
+  private readonly repositories = new Set<InMemoryRepository<BaseEntity>>();
+
+  /**
+   * Include a repository in future rollbacks
+   */
+  track<T extends BaseEntity>(
+    repository: InMemoryRepository<T>,
+  ): InMemoryRepository<T> {
+    this.repositories.add(
+      repository as unknown as InMemoryRepository<BaseEntity>,
+    );
+    return repository;
+  }
+
+  async run<T>(work: () => Promise<T>): Promise<T> {
+    if (getTransactionContext()) {
+      return work();
+    }
+
+    const context: TransactionContext = { afterCommit: [] };
+    const snapshots = [...this.repositories].map(
+      (repository) => [repository, repository.snapshot()] as const,
+    );
+
+    let result: T;
+    try {
+      result = await runInTransactionContext(context, work);
+    } catch (err) {
+      for (const [repository, snapshot] of snapshots) {
+        repository.rollback(snapshot);
+      }
+      throw err;
+    }
+
+    runAfterCommitCallbacks(context);
+    return result;
+  }
+}
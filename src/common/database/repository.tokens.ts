@@ -0,0 +1,16 @@
+import { Inject, Type } from '@nestjs/common';
+
+/**
+ * Injection token for an entity's IRepository
+ */
+export function getEntityRepositoryToken(entity: Type): string {
+  return `${entity.name}EntityRepository`;
+}
+
+/**
+ * Injects the IRepository registered for an entity by DatabaseModule.forFeature
+ * Usage: constructor(@InjectEntityRepository(User) private readonly repository: IRepository<User>)
+ */
+export function InjectEntityRepository(entity: Type) {
+  return Inject(getEntityRepositoryToken(entity));
+}
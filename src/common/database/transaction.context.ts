@@ -0,0 +1,48 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { EntityManager } from 'typeorm';
+
+/**
+ * State of the transaction the current async call chain runs in
+ */
+export interface TransactionContext {
+  manager?: EntityManager; // Set by the TypeORM driver
+  afterCommit: Array<() => void>;
+}
+
+const storage = new AsyncLocalStorage<TransactionContext>();
+
+export function runInTransactionContext<T>(
+  context: TransactionContext,
+  work: () => Promise<T>,
+): Promise<T> {
+  return storage.run(context, work);
+}
+
+export function getTransactionContext(): TransactionContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Defer a side effect until the current transaction commits
+ * Runs right away outside a transaction and is dropped on rollback
+ */
+export function afterCommit(callback: () => void): void {
+  const context = storage.getStore();
+
+  if (context) {
+    context.afterCommit.push(callback);
+  } else {
+    callback();
+  }
+}
+
+/**
+ * Run the deferred callbacks of a committed transaction, outside its context
+ */
+export function runAfterCommitCallbacks(context: TransactionContext): void {
+  storage.exit(() => {
+    for (const callback of context.afterCommit) {
+      callback();
+    }
+  });
+}
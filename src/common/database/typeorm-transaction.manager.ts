@@ -0,0 +1,46 @@
+import { DataSource } from 'typeorm';
+import type { TransactionManager } from '../interfaces/transaction-manager.interface';
+import {
+  getTransactionContext,
+  runAfterCommitCallbacks,
+  runInTransactionContext,
+  TransactionContext,
+} from './transaction.context';
+
+/**
+ * Database transactions through the TypeORM DataSource
+ * TypeOrmRepository picks the transactional EntityManager up from the context
+ *
+ * SQLite has a single connection, so transactions run one after the other:
+ * started concurrently, they would nest into each other and commit each other's work
+ *
+ * Anything else on that connection is not isolated from the running transaction:
+ * a write made outside run() lands inside it and is rolled back with it.
+ * TypeOrmRepository therefore runs its writes outside a transaction through run()
+ * as well; reads are not queued and may see rows the transaction has not committed
+ */
+export class TypeOrmTransactionManager implements TransactionManager {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly dataSource: DataSource) {}
+
+  run<T>(work: () => Promise<T>): Promise<T> {
+    if (getTransactionContext()) {
+      return work();
+    }
+
+    const result = this.queue.then(() => this.transaction(work));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const context: TransactionContext = { afterCommit: [] };
+    const result = await this.dataSource.transaction((manager) =>
+      runInTransactionContext({ ...context, manager }, work),
+    );
+
+    runAfterCommitCallbacks(context);
+    return result;
+  }
+}
@@ -0,0 +1,97 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiForbiddenResponse,
+  ApiHeader,
+  ApiSecurity,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import type { AccessRequirements } from '../interfaces/authenticated-user.interface';
+import { TENANT_HEADER } from '../interceptors/tenant-context.interceptor';
+
+export const ROLES_KEY = 'auth:roles';
+export const PERMISSIONS_KEY = 'auth:permissions';
+export const SCOPES_KEY = 'auth:scopes';
+export const TRASH_KEY = 'auth:trash';
+
+/**
+ * Swagger security scheme name of X-API-Key, registered in main.ts
+ */
+export const API_KEY_SECURITY = 'api-key';
+
+/**
+ * Documents the global auth guard: bearer security, the tenant header and the 401 response
+ * Built into CrudController - add it to other controllers that are not @Public()
+ */
+export function ApiAuthentication() {
+  return applyDecorators(
+    ApiBearerAuth(),
+    ApiHeader({
+      name: TENANT_HEADER,
+      required: false,
+      description:
+        'Tenant to act in - required unless the token or API key belongs to a tenant',
+    }),
+    ApiUnauthorizedResponse({
+      description: 'Missing, invalid or expired bearer token or API key',
+    }),
+  );
+}
+
+/**
+ * Roles, permissions and API key scopes required beyond a valid token, checked by AccessGuard
+ * A handler's requirements replace its controller's
+ *
+ * Built into the endpoint decorators and CrudController through { roles, permissions, scopes }
+ */
+export function Access({
+  roles = [],
+  permissions = [],
+  scopes = [],
+}: AccessRequirements) {
+  const decorators: Array<ClassDecorator | MethodDecorator> = [];
+  const requirements: string[] = [];
+  const descriptions: string[] = [];
+
+  if (roles.length > 0) {
+    decorators.push(SetMetadata(ROLES_KEY, roles));
+    requirements.push(`one of the roles ${roles.join(', ')}`);
+  }
+  if (permissions.length > 0) {
+    decorators.push(SetMetadata(PERMISSIONS_KEY, permissions));
+    requirements.push(`the permissions ${permissions.join(', ')}`);
+  }
+  if (requirements.length > 0) {
+    descriptions.push(`Requires ${requirements.join(' and ')}`);
+  }
+  if (scopes.length > 0) {
+    decorators.push(
+      SetMetadata(SCOPES_KEY, scopes),
+      ApiSecurity(API_KEY_SECURITY),
+    );
+    descriptions.push(`API keys need the scopes ${scopes.join(', ')}`);
+  }
+  if (descriptions.length > 0) {
+    decorators.push(
+      ApiForbiddenResponse({ description: descriptions.join('; ') }),
+    );
+  }
+
+  return applyDecorators(...decorators);
+}
+
+/**
+ * Usage: @Roles('finance', 'admin') - callers need any one of them
+ */
+export const Roles = (...roles: string[]) => Access({ roles });
+
+/**
+ * Usage: @Permissions('payments:refund') - callers need all of them
+ */
+export const Permissions = (...permissions: string[]) =>
+  Access({ permissions });
+
+/**
+ * Usage: @Scopes('payments:read') - opens the endpoint to API keys holding all of them
+ */
+export const Scopes = (...scopes: string[]) => Access({ scopes });
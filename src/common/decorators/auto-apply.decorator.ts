@@ -1,3 +1,5 @@
+import { Logger } from '@nestjs/common';
+
 /**
  * Decorator that automatically applies field decorators from mapping object
  * Usage: @AutoApplyDecorators(CreateUserMapping)
@@ -7,7 +9,7 @@
 export function AutoApplyDecorators(fieldMappings: Record<string, () => PropertyDecorator>) {
   return function (target: any) {
     if (!fieldMappings) {
-      console.warn(`No field mappings provided to @AutoApplyDecorators`);
+      Logger.warn('No field mappings provided to @AutoApplyDecorators', 'AutoApplyDecorators');
       return target;
     }
 
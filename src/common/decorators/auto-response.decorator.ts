@@ -1,5 +1,11 @@
+import { Logger } from '@nestjs/common';
 import { ApiProperty } from '@nestjs/swagger';
 
+/**
+ * Metadata key holding the mapping a response DTO was built from
+ */
+export const RESPONSE_MAPPING_KEY = 'responseMapping';
+
 /**
  * Response field configuration interface
  */
@@ -12,21 +18,36 @@ export interface ResponseFieldConfig {
   isArray?: boolean; // Optional array flag
 }
 
+/**
+ * Options of @AutoResponse
+ */
+export interface AutoResponseOptions {
+  exclude?: string[]; // Entity fields never copied to the response, e.g. secret hashes
+}
+
 /**
  * Decorator that automatically applies Swagger documentation and mapping from mapping object
  * Usage: @AutoResponse(UserResponseMapping)
- * 
+ *        @AutoResponse(ApiKeyResponseMapping, { exclude: ['keyHash'] })
+ *
  * Mapping should be defined in the module's responses/mapping.ts file
  * Also adds automatic constructor for entity-to-DTO mapping
  */
-export function AutoResponse(responseMappings: Record<string, ResponseFieldConfig>) {
+export function AutoResponse(
+  responseMappings: Record<string, ResponseFieldConfig>,
+  options: AutoResponseOptions = {},
+) {
   return function <T extends { new (...args: any[]): {} }>(constructor: T) {
     if (responseMappings) {
       // Apply Swagger decorators based on configuration
       for (const [propertyKey, config] of Object.entries(responseMappings)) {
         // Infer type from example if not explicitly provided
         let fieldType = config.type;
-        if (!fieldType && config.example !== undefined && config.example !== null) {
+        if (
+          !fieldType &&
+          config.example !== undefined &&
+          config.example !== null
+        ) {
           if (typeof config.example === 'string') fieldType = String;
           else if (typeof config.example === 'number') fieldType = Number;
           else if (typeof config.example === 'boolean') fieldType = Boolean;
@@ -42,7 +63,10 @@ export function AutoResponse(responseMappings: Record<string, ResponseFieldConfi
         })(constructor.prototype, propertyKey);
       }
     } else {
-      console.warn(`No response mappings provided to @AutoResponse`);
+      Logger.warn(
+        'No response mappings provided to @AutoResponse',
+        'AutoResponse',
+      );
     }
 
     // Return enhanced class with automatic mapping constructor
@@ -51,7 +75,15 @@ export function AutoResponse(responseMappings: Record<string, ResponseFieldConfi
       constructor(...args: any[]) {
         super(...args);
         if (args[0] && typeof args[0] === 'object') {
-          Object.assign(this, args[0]);
+          // Fill only what the DTO's own constructor left unset, so derived values survive
+          for (const [key, value] of Object.entries(args[0])) {
+            if ((this as any)[key] === undefined) {
+              (this as any)[key] = value;
+            }
+          }
+        }
+        for (const key of options.exclude ?? []) {
+          delete (this as any)[key];
         }
       }
     } as T;
@@ -62,6 +94,13 @@ export function AutoResponse(responseMappings: Record<string, ResponseFieldConfi
       writable: false,
     });
 
+    // Keep the mapping for consumers that need the field order (exports)
+    Reflect.defineMetadata(
+      RESPONSE_MAPPING_KEY,
+      responseMappings ?? {},
+      enhancedClass,
+    );
+
     return enhancedClass;
   };
 }
@@ -69,10 +108,10 @@ export function AutoResponse(responseMappings: Record<string, ResponseFieldConfi
 /**
  * Decorator for list response DTOs that automatically configures Swagger documentation
  * Usage: @AutoListResponse(UserResponseDto)
- * 
+ *
  * This decorator automatically applies the correct ApiProperty to the 'items' array
  * to ensure proper Swagger schema generation for generic list responses
- * 
+ *
  * @example
  * @AutoListResponse(UserResponseDto)
  * export class UserListResponseDto extends BaseListResponseDto<UserResponseDto> {}
@@ -81,7 +120,7 @@ export function AutoListResponse(itemType: any) {
   return function <T extends { new (...args: any[]): {} }>(constructor: T) {
     // Delete the generic property descriptor to avoid conflicts
     delete constructor.prototype.items;
-    
+
     // Apply ApiProperty to items with the specific type
     ApiProperty({
       description: `List of ${itemType.name} items`,
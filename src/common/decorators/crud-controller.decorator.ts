@@ -1,14 +1,22 @@
 import { applyDecorators, Controller } from '@nestjs/common';
 import { ApiTags } from '@nestjs/swagger';
+import type { AccessRequirements } from '../interfaces/authenticated-user.interface';
+import { Access, ApiAuthentication } from './access.decorator';
 
 /**
- * Combines @Controller, @ApiTags for consistent CRUD controllers
+ * Combines @Controller, @ApiTags and the bearer auth docs for consistent CRUD controllers
  * Usage: @CrudController('users', 'User')
+ *        @CrudController('users', 'User', { roles: ['admin'] }) - every route needs the role
  */
-export function CrudController(path: string, tag: string) {
+export function CrudController(
+  path: string,
+  tag: string,
+  access: AccessRequirements = {},
+) {
   return applyDecorators(
     Controller(path),
     ApiTags(tag),
+    ApiAuthentication(),
+    Access(access),
   );
 }
-
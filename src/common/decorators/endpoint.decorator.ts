@@ -1,12 +1,93 @@
-import { applyDecorators, Post, Get, Patch, Delete } from '@nestjs/common';
-import { ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import {
+  applyDecorators,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  HttpCode,
+  SetMetadata,
+  Type,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiHeader,
+  ApiBody,
+  ApiExtraModels,
+  ApiProduces,
+  ApiForbiddenResponse,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import {
+  FILTER_OPERATORS,
+  QueryFieldConfig,
+} from '../interfaces/list-query.interface';
+import { DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from '../pipes/list-query.pipe';
+import { LIST_QUERY_FIELDS_KEY } from './list-query.decorator';
+import { Idempotent } from './idempotent.decorator';
+import { IdempotencyOptions } from '../interceptors/idempotency.interceptor';
+import { AuditLogListResponseDto } from '../audit/responses/audit-log-list-response.dto';
+import { ETagInterceptor } from '../interceptors/etag.interceptor';
+import { BulkResponseDto } from '../bulk/responses/bulk-response.dto';
+import { MAX_BULK_ITEMS } from '../bulk/dto/mapping';
+import { EXPORT_CONTENT_TYPES } from '../export/export-format';
+import type { AccessRequirements } from '../interfaces/authenticated-user.interface';
+import { Access, TRASH_KEY } from './access.decorator';
+import { RateLimit } from './rate-limit.decorator';
+import type { RateLimitPolicy } from '../interfaces/rate-limit-store.interface';
+
+/**
+ * Cross-cutting options shared by the endpoint decorators
+ */
+export interface EndpointOptions extends AccessRequirements {
+  idempotent?: boolean | IdempotencyOptions; // Enables Idempotency-Key support
+  // roles / permissions / scopes: restrict the endpoint beyond a valid token, see access.decorator.ts
+  exportable?: boolean; // GetAllEndpoint only: documents CSV / NDJSON exports, read with @ExportFormat()
+  path?: string; // GetAllEndpoint only: list route below the controller path (default: the controller path itself)
+  rateLimit?: RateLimitPolicy | false; // Replaces the global default rate limit, see rate-limit.decorator.ts
+}
+
+/**
+ * Decorators derived from EndpointOptions
+ */
+function optionDecorators(
+  options: EndpointOptions,
+): Array<ClassDecorator | MethodDecorator | PropertyDecorator> {
+  const decorators: Array<
+    ClassDecorator | MethodDecorator | PropertyDecorator
+  > = [];
+
+  if (options.idempotent) {
+    decorators.push(
+      Idempotent(options.idempotent === true ? {} : options.idempotent),
+    );
+  }
+
+  if (options.roles || options.permissions || options.scopes) {
+    decorators.push(Access(options));
+  }
+
+  if (options.rateLimit !== undefined) {
+    decorators.push(RateLimit(options.rateLimit));
+  }
+
+  return decorators;
+}
 
 /**
  * Decorator for CREATE endpoints (POST /)
  */
-export function CreateEndpoint(entityName: string, responseType: any) {
+export function CreateEndpoint(
+  entityName: string,
+  responseType: any,
+  options: EndpointOptions = {},
+) {
   return applyDecorators(
     Post(),
+    ...optionDecorators(options),
     ApiOperation({ summary: `Create a new ${entityName}` }),
     ApiResponse({
       status: 201,
@@ -19,33 +100,153 @@ export function CreateEndpoint(entityName: string, responseType: any) {
 
 /**
  * Decorator for GET ALL endpoints (GET /)
+ *
+ * queryParams whitelists the fields usable in sort and filter[field][op]
+ * Read them in the handler with @ListQuery()
  */
-export function GetAllEndpoint(entityName: string, responseType: any, queryParams?: string[]) {
+export function GetAllEndpoint(
+  entityName: string,
+  responseType: any,
+  queryParams: Record<string, QueryFieldConfig> = {},
+  options: EndpointOptions = {},
+) {
+  const sortableFields = ['id', 'createdAt', 'updatedAt', 'deletedAt'];
+  const filterDecorators: MethodDecorator[] = [];
+
+  for (const [field, config] of Object.entries(queryParams)) {
+    if (config.sortable !== false) {
+      sortableFields.push(field);
+    }
+
+    if (config.filterable !== false) {
+      const description = `Filter by ${field} (equals). Other operators: filter[${field}][${FILTER_OPERATORS.join('|')}]`;
+      filterDecorators.push(
+        config.enum
+          ? ApiQuery({
+              name: `filter[${field}]`,
+              required: false,
+              enum: config.enum,
+              description,
+            })
+          : ApiQuery({
+              name: `filter[${field}]`,
+              required: false,
+              type: config.type,
+              description,
+            }),
+      );
+    }
+  }
+
   const decorators = [
-    Get(),
+    Get(options.path),
+    SetMetadata(LIST_QUERY_FIELDS_KEY, queryParams),
+    ...optionDecorators(options),
     ApiOperation({ summary: `Get all ${entityName}s` }),
+    ApiQuery({
+      name: 'page',
+      required: false,
+      type: Number,
+      description: 'Page number (default 1)',
+    }),
+    ApiQuery({
+      name: 'limit',
+      required: false,
+      type: Number,
+      description: `Items per page (default ${DEFAULT_PAGE_LIMIT}, max ${MAX_PAGE_LIMIT})`,
+    }),
+    ApiQuery({
+      name: 'sort',
+      required: false,
+      type: String,
+      description: `Comma-separated sort fields, prefix with - for descending. Allowed: ${sortableFields.join(', ')}`,
+    }),
+    ApiQuery({
+      name: 'includeDeleted',
+      required: false,
+      type: Boolean,
+      description:
+        'Also list soft-deleted items (TRASH_ROLE only, default admin)',
+    }),
+    ApiQuery({
+      name: 'onlyDeleted',
+      required: false,
+      type: Boolean,
+      description:
+        'List only soft-deleted items - the trash (TRASH_ROLE only, default admin)',
+    }),
+    ...filterDecorators,
     ApiResponse({
       status: 200,
       description: `List of ${entityName}s`,
       type: responseType,
     }),
+    ApiResponse({ status: 400, description: 'Invalid query parameters' }),
   ];
 
+  if (options.exportable) {
+    const formats = Object.keys(EXPORT_CONTENT_TYPES);
+    decorators.push(
+      ApiProduces(
+        'application/json',
+        ...Object.values(EXPORT_CONTENT_TYPES).map(
+          (type) => type.split(';')[0],
+        ),
+      ),
+      ApiQuery({
+        name: 'format',
+        required: false,
+        enum: ['json', ...formats],
+        description: `Stream every match as ${formats.join(' or ')} instead (page and limit are ignored); Accept: text/csv or application/x-ndjson works too`,
+      }),
+    );
+  }
+
   return applyDecorators(...decorators);
 }
 
+const ETAG_HEADER = {
+  ETag: {
+    description: 'Entity version, send it back as If-Match or If-None-Match',
+  },
+};
+
+const IF_MATCH_HEADER = ApiHeader({
+  name: 'If-Match',
+  required: false,
+  description:
+    'ETag from the last read - the request fails with 412 if the entity changed since',
+});
+
 /**
  * Decorator for GET BY ID endpoints (GET /:id)
+ * Sends the entity version as ETag, If-None-Match answers 304 while it is unchanged
  */
-export function GetByIdEndpoint(entityName: string, responseType: any) {
+export function GetByIdEndpoint(
+  entityName: string,
+  responseType: any,
+  options: EndpointOptions = {},
+) {
   return applyDecorators(
     Get(':id'),
+    ...optionDecorators(options),
+    UseInterceptors(ETagInterceptor),
     ApiOperation({ summary: `Get ${entityName} by ID` }),
     ApiParam({ name: 'id', type: 'number', description: `${entityName} ID` }),
+    ApiHeader({
+      name: 'If-None-Match',
+      required: false,
+      description: 'ETag of a cached copy',
+    }),
     ApiResponse({
       status: 200,
       description: `${entityName} found`,
       type: responseType,
+      headers: ETAG_HEADER,
+    }),
+    ApiResponse({
+      status: 304,
+      description: `${entityName} unchanged since the If-None-Match ETag`,
     }),
     ApiResponse({ status: 404, description: `${entityName} not found` }),
   );
@@ -53,41 +254,235 @@ export function GetByIdEndpoint(entityName: string, responseType: any) {
 
 /**
  * Decorator for UPDATE endpoints (PATCH /:id)
+ * Pass @IfMatch() to updateEntity for optimistic concurrency
  */
-export function UpdateEndpoint(entityName: string, responseType: any) {
+export function UpdateEndpoint(
+  entityName: string,
+  responseType: any,
+  options: EndpointOptions = {},
+) {
   return applyDecorators(
     Patch(':id'),
+    ...optionDecorators(options),
+    UseInterceptors(ETagInterceptor),
     ApiOperation({ summary: `Update ${entityName} by ID` }),
     ApiParam({ name: 'id', type: 'number', description: `${entityName} ID` }),
+    IF_MATCH_HEADER,
     ApiResponse({
       status: 200,
       description: `${entityName} updated successfully`,
       type: responseType,
+      headers: ETAG_HEADER,
     }),
     ApiResponse({ status: 404, description: `${entityName} not found` }),
+    ApiResponse({
+      status: 412,
+      description: `${entityName} was modified since the If-Match ETag`,
+    }),
   );
 }
 
 /**
  * Decorator for DELETE endpoints (DELETE /:id)
+ * Pass @IfMatch() to removeEntity for optimistic concurrency
  */
-export function DeleteEndpoint(entityName: string) {
+export function DeleteEndpoint(
+  entityName: string,
+  options: EndpointOptions = {},
+) {
   return applyDecorators(
     Delete(':id'),
-    ApiOperation({ summary: `Delete ${entityName} by ID` }),
+    ...optionDecorators(options),
+    ApiOperation({
+      summary: `Delete ${entityName} by ID (soft delete, restorable until purged)`,
+    }),
     ApiParam({ name: 'id', type: 'number', description: `${entityName} ID` }),
-    ApiResponse({ status: 200, description: `${entityName} deleted successfully` }),
+    IF_MATCH_HEADER,
+    ApiResponse({
+      status: 200,
+      description: `${entityName} deleted successfully`,
+    }),
     ApiResponse({ status: 404, description: `${entityName} not found` }),
+    ApiResponse({
+      status: 412,
+      description: `${entityName} was modified since the If-Match ETag`,
+    }),
+  );
+}
+
+const ATOMIC_QUERY = ApiQuery({
+  name: 'atomic',
+  required: false,
+  type: Boolean,
+  description:
+    'true: all items or none - the first failure rolls the whole batch back',
+});
+
+const BULK_RESPONSE = ApiResponse({
+  status: 200,
+  description:
+    'One result per item, in request order - check committed and each status',
+  type: BulkResponseDto,
+});
+
+/**
+ * Decorator for BULK CREATE endpoints (POST /bulk)
+ * Declare before any POST /:id route; read ?atomic with ParseBoolPipe
+ */
+export function BulkCreateEndpoint(
+  entityName: string,
+  createDtoType: Type,
+  options: EndpointOptions = {},
+) {
+  return applyDecorators(
+    Post('bulk'),
+    ...optionDecorators(options),
+    HttpCode(200),
+    ApiOperation({ summary: `Create up to ${MAX_BULK_ITEMS} ${entityName}s` }),
+    ApiExtraModels(createDtoType),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['items'],
+        properties: {
+          items: {
+            type: 'array',
+            maxItems: MAX_BULK_ITEMS,
+            items: { $ref: getSchemaPath(createDtoType) },
+          },
+        },
+      },
+    }),
+    ATOMIC_QUERY,
+    BULK_RESPONSE,
+    ApiResponse({ status: 400, description: 'Body is not a list of items' }),
+  );
+}
+
+/**
+ * Decorator for BULK UPDATE endpoints (PATCH /bulk)
+ * Declare before PATCH /:id, which would otherwise match 'bulk' as an ID
+ */
+export function BulkUpdateEndpoint(
+  entityName: string,
+  updateDtoType: Type,
+  options: EndpointOptions = {},
+) {
+  return applyDecorators(
+    Patch('bulk'),
+    ...optionDecorators(options),
+    ApiOperation({ summary: `Update up to ${MAX_BULK_ITEMS} ${entityName}s` }),
+    ApiExtraModels(updateDtoType),
+    ApiBody({
+      schema: {
+        type: 'object',
+        required: ['items'],
+        properties: {
+          items: {
+            type: 'array',
+            maxItems: MAX_BULK_ITEMS,
+            items: {
+              type: 'object',
+              required: ['id', 'changes'],
+              properties: {
+                id: { type: 'number', example: 1 },
+                changes: { $ref: getSchemaPath(updateDtoType) },
+                version: {
+                  type: 'number',
+                  example: 2,
+                  description: 'Expected version, like If-Match',
+                },
+              },
+            },
+          },
+        },
+      },
+    }),
+    ATOMIC_QUERY,
+    BULK_RESPONSE,
+    ApiResponse({ status: 400, description: 'Body is not a list of items' }),
+  );
+}
+
+/**
+ * Decorator for BULK DELETE endpoints (DELETE /bulk)
+ * Declare before DELETE /:id, which would otherwise match 'bulk' as an ID
+ */
+export function BulkDeleteEndpoint(
+  entityName: string,
+  options: EndpointOptions = {},
+) {
+  return applyDecorators(
+    Delete('bulk'),
+    ...optionDecorators(options),
+    ApiOperation({
+      summary: `Delete up to ${MAX_BULK_ITEMS} ${entityName}s (soft delete)`,
+    }),
+    ATOMIC_QUERY,
+    BULK_RESPONSE,
+    ApiResponse({ status: 400, description: 'Body is not a list of IDs' }),
+  );
+}
+
+/**
+ * Decorator for HISTORY endpoints (GET /:id/history)
+ * Declared once on BaseController, so the route name is generic
+ */
+export function HistoryEndpoint() {
+  return applyDecorators(
+    Get(':id/history'),
+    ApiOperation({ summary: 'Get the change history by ID' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Entity ID' }),
+    ApiResponse({
+      status: 200,
+      description: 'Audit entries, oldest first - including the delete',
+      type: AuditLogListResponseDto,
+    }),
+    ApiResponse({
+      status: 404,
+      description: 'Entity not found and never audited',
+    }),
+  );
+}
+
+/**
+ * Decorator for RESTORE endpoints (POST /:id/restore)
+ * Declared once on BaseController, so the route name is generic
+ * AccessGuard limits it to the trash role (TRASH_ROLE, default admin)
+ */
+export function RestoreEndpoint() {
+  return applyDecorators(
+    Post(':id/restore'),
+    HttpCode(200),
+    SetMetadata(TRASH_KEY, true),
+    ApiForbiddenResponse({
+      description: 'Requires the trash role (TRASH_ROLE, default admin)',
+    }),
+    ApiOperation({ summary: 'Restore a soft-deleted item by ID' }),
+    ApiParam({ name: 'id', type: 'number', description: 'Entity ID' }),
+    ApiResponse({ status: 200, description: 'Item restored' }),
+    ApiResponse({ status: 400, description: 'Item is not deleted' }),
+    ApiResponse({
+      status: 404,
+      description: 'Item not found or already purged',
+    }),
   );
 }
 
 /**
  * Decorator for SAVE endpoints (POST /save) - custom business operation
  */
-export function SaveEndpoint(entityName: string, responseType: any) {
+export function SaveEndpoint(
+  entityName: string,
+  responseType: any,
+  options: EndpointOptions = {},
+) {
   return applyDecorators(
     Post('save'),
-    ApiOperation({ summary: `Save ${entityName} with additional business logic` }),
+    ...optionDecorators(options),
+    ApiOperation({
+      summary: `Save ${entityName} with additional business logic`,
+    }),
     ApiResponse({
       status: 201,
       description: `${entityName} saved successfully`,
@@ -100,9 +495,14 @@ export function SaveEndpoint(entityName: string, responseType: any) {
 /**
  * Decorator for REGISTER endpoints (POST /register)
  */
-export function RegisterEndpoint(entityName: string, responseType: any) {
+export function RegisterEndpoint(
+  entityName: string,
+  responseType: any,
+  options: EndpointOptions = {},
+) {
   return applyDecorators(
     Post('register'),
+    ...optionDecorators(options),
     ApiOperation({ summary: `Register a new ${entityName}` }),
     ApiResponse({
       status: 201,
@@ -116,11 +516,19 @@ export function RegisterEndpoint(entityName: string, responseType: any) {
 /**
  * Decorator for GET BY FIELD endpoints (GET /field/:value)
  */
-export function GetByFieldEndpoint(entityName: string, fieldName: string, responseType: any) {
+export function GetByFieldEndpoint(
+  entityName: string,
+  fieldName: string,
+  responseType: any,
+) {
   return applyDecorators(
     Get(`${fieldName}/:${fieldName}`),
     ApiOperation({ summary: `Get ${entityName} by ${fieldName}` }),
-    ApiParam({ name: fieldName, type: 'string', description: `${entityName} ${fieldName}` }),
+    ApiParam({
+      name: fieldName,
+      type: 'string',
+      description: `${entityName} ${fieldName}`,
+    }),
     ApiResponse({
       status: 200,
       description: `${entityName} found`,
@@ -129,4 +537,3 @@ export function GetByFieldEndpoint(entityName: string, fieldName: string, respon
     ApiResponse({ status: 404, description: `${entityName} not found` }),
   );
 }
-
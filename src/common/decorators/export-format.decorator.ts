@@ -0,0 +1,22 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import {
+  ExportFormatType,
+  negotiateExportFormat,
+} from '../export/export-format';
+
+/**
+ * Parameter decorator that reads the requested export format of a list endpoint
+ * Usage: findAll(@ListQuery() query: ListQueryOptions, @ExportFormat() format?: ExportFormatType)
+ *
+ * From ?format=csv|ndjson or the Accept header; undefined for the JSON envelope
+ */
+export const ExportFormat = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): ExportFormatType | undefined => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    return negotiateExportFormat(
+      request.query.format,
+      request.header('Accept'),
+    );
+  },
+);
@@ -1,5 +1,6 @@
 import { applyDecorators } from '@nestjs/common';
 import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
 import {
   IsString,
   IsNumber,
@@ -12,7 +13,19 @@ import {
   Min,
   Max,
   IsNotEmpty,
+  IsPositive,
+  IsUrl,
+  IsArray,
+  ArrayNotEmpty,
+  ArrayMaxSize,
+  IsInt,
+  IsObject,
+  IsISO8601,
+  Matches,
+  ValidateBy,
 } from 'class-validator';
+import { getCurrencyRegistry } from '../currency/currency.registry';
+import { isValidTimeZone } from '../reporting/report-period';
 
 /**
  * String field decorator with validation and Swagger documentation
@@ -100,6 +113,71 @@ export function NumberField(
   return applyDecorators(...decorators);
 }
 
+/**
+ * Money amount field decorator (major units, e.g. 99.99)
+ * Precision is checked against the currency by CurrencyRegistry.toMinorUnits
+ */
+export function AmountField(
+  description: string,
+  example: number,
+  required: boolean = true,
+) {
+  const decorators = [
+    ApiProperty({ description, example, required, type: Number }),
+    IsNumber(),
+    IsPositive(),
+  ];
+
+  if (!required) {
+    decorators.push(IsOptional());
+  } else {
+    decorators.push(IsNotEmpty());
+  }
+
+  return applyDecorators(...decorators);
+}
+
+/**
+ * ISO 4217 currency code field decorator
+ * Accepts any case and only the currencies enabled in the CurrencyRegistry
+ */
+export function CurrencyField(
+  description: string,
+  example: string,
+  required: boolean = true,
+) {
+  const decorators = [
+    ApiProperty({
+      description,
+      example,
+      required,
+      type: String,
+      minLength: 3,
+      maxLength: 3,
+    }),
+    Transform(({ value }: { value: unknown }) =>
+      typeof value === 'string' ? value.toUpperCase() : value,
+    ),
+    ValidateBy({
+      name: 'isSupportedCurrency',
+      validator: {
+        validate: (value: unknown) =>
+          typeof value === 'string' && getCurrencyRegistry().isSupported(value),
+        defaultMessage: (args) =>
+          `${args?.property} must be one of ${getCurrencyRegistry().codes.join(', ')}`,
+      },
+    }),
+  ];
+
+  if (!required) {
+    decorators.push(IsOptional());
+  } else {
+    decorators.push(IsNotEmpty());
+  }
+
+  return applyDecorators(...decorators);
+}
+
 /**
  * Boolean field decorator with validation and Swagger documentation
  */
@@ -122,18 +200,244 @@ export function BooleanField(
   return applyDecorators(...decorators);
 }
 
+/**
+ * URL field decorator with validation and Swagger documentation
+ * Accepts http(s) URLs, including hosts without a TLD such as localhost
+ */
+export function UrlField(
+  description: string,
+  example: string,
+  required: boolean = true,
+) {
+  const decorators = [
+    ApiProperty({ description, example, required, type: String }),
+    IsUrl({
+      protocols: ['http', 'https'],
+      require_protocol: true,
+      require_tld: false,
+    }),
+  ];
+
+  if (!required) {
+    decorators.push(IsOptional());
+  } else {
+    decorators.push(IsNotEmpty());
+  }
+
+  return applyDecorators(...decorators);
+}
+
+/**
+ * JSON object field decorator - the object's own fields are validated elsewhere
+ */
+export function ObjectField(
+  description: string,
+  example: object,
+  required: boolean = true,
+) {
+  const decorators = [
+    ApiProperty({ description, example, required, type: Object }),
+    IsObject(),
+  ];
+
+  if (!required) {
+    decorators.push(IsOptional());
+  } else {
+    decorators.push(IsNotEmpty());
+  }
+
+  return applyDecorators(...decorators);
+}
+
+/**
+ * Non-empty array of JSON objects, at most maxItems long
+ * The objects' own fields are validated elsewhere (e.g. per bulk item)
+ */
+export function ObjectArrayField(
+  description: string,
+  example: object[],
+  maxItems: number,
+) {
+  return applyDecorators(
+    ApiProperty({
+      description,
+      example,
+      required: true,
+      type: Object,
+      isArray: true,
+      maxItems,
+    }),
+    IsArray(),
+    ArrayNotEmpty(),
+    ArrayMaxSize(maxItems),
+    IsObject({ each: true }),
+  );
+}
+
+/**
+ * Non-empty array of entity IDs, at most maxItems long
+ */
+export function IdArrayField(
+  description: string,
+  example: number[],
+  maxItems: number,
+) {
+  return applyDecorators(
+    ApiProperty({
+      description,
+      example,
+      required: true,
+      type: Number,
+      isArray: true,
+      maxItems,
+    }),
+    IsArray(),
+    ArrayNotEmpty(),
+    ArrayMaxSize(maxItems),
+    IsInt({ each: true }),
+    Min(1, { each: true }),
+  );
+}
+
 /**
  * Enum field decorator with validation and Swagger documentation
+ * With isArray, validates a non-empty array of enum values
  */
 export function EnumField(
   enumType: object,
   description: string,
   example: any,
   required: boolean = true,
+  isArray: boolean = false,
+) {
+  const decorators = isArray
+    ? [
+        ApiProperty({
+          description,
+          example,
+          required,
+          enum: enumType,
+          isArray,
+        }),
+        IsArray(),
+        ArrayNotEmpty(),
+        IsEnum(enumType, { each: true }),
+      ]
+    : [
+        ApiProperty({ description, example, required, enum: enumType }),
+        IsEnum(enumType),
+      ];
+
+  if (!required) {
+    decorators.push(IsOptional());
+  } else {
+    decorators.push(IsNotEmpty());
+  }
+
+  return applyDecorators(...decorators);
+}
+
+/**
+ * Comma-separated list of enum values, for query strings (?groupBy=currency,day)
+ * Arrives as a string and is validated as an array without duplicates
+ */
+export function EnumListField(
+  enumType: object,
+  description: string,
+  example: string,
+  required: boolean = true,
+) {
+  const decorators = [
+    ApiProperty({
+      description,
+      example,
+      required,
+      type: String,
+      enum: enumType,
+    }),
+    Transform(({ value }: { value: unknown }) =>
+      typeof value === 'string'
+        ? value
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean)
+        : value,
+    ),
+    IsArray(),
+    IsEnum(enumType, { each: true }),
+    ValidateBy({
+      name: 'isUniqueList',
+      validator: {
+        validate: (value: unknown) =>
+          !Array.isArray(value) || new Set(value).size === value.length,
+        defaultMessage: (args) => `${args?.property} must not repeat a value`,
+      },
+    }),
+  ];
+
+  if (!required) {
+    decorators.push(IsOptional());
+  } else {
+    decorators.push(ArrayNotEmpty());
+  }
+
+  return applyDecorators(...decorators);
+}
+
+/**
+ * Calendar date field (YYYY-MM-DD) - kept as a string, it has no time zone
+ */
+export function DateField(
+  description: string,
+  example: string,
+  required: boolean = true,
+) {
+  const decorators = [
+    ApiProperty({
+      description,
+      example,
+      required,
+      type: String,
+      format: 'date',
+    }),
+    Matches(/^\d{4}-\d{2}-\d{2}$/, {
+      message: (args) => `${args.property} must be a date (YYYY-MM-DD)`,
+    }),
+    IsISO8601(
+      { strict: true },
+      { message: (args) => `${args.property} must be a valid date` },
+    ),
+  ];
+
+  if (!required) {
+    decorators.push(IsOptional());
+  } else {
+    decorators.push(IsNotEmpty());
+  }
+
+  return applyDecorators(...decorators);
+}
+
+/**
+ * ISO 8601 date-time field (2025-01-01T00:00:00Z) - kept as a string, convert it in the service
+ */
+export function DateTimeField(
+  description: string,
+  example: string,
+  required: boolean = true,
 ) {
   const decorators = [
-    ApiProperty({ description, example, required, enum: enumType }),
-    IsEnum(enumType),
+    ApiProperty({
+      description,
+      example,
+      required,
+      type: String,
+      format: 'date-time',
+    }),
+    IsISO8601(
+      { strict: true },
+      { message: (args) => `${args.property} must be an ISO 8601 date-time` },
+    ),
   ];
 
   if (!required) {
@@ -145,3 +449,33 @@ export function EnumField(
   return applyDecorators(...decorators);
 }
 
+/**
+ * IANA time zone field (Europe/Berlin, UTC)
+ */
+export function TimeZoneField(
+  description: string,
+  example: string,
+  required: boolean = true,
+) {
+  const decorators = [
+    ApiProperty({ description, example, required, type: String }),
+    IsString(),
+    ValidateBy({
+      name: 'isTimeZone',
+      validator: {
+        validate: (value: unknown) =>
+          typeof value === 'string' && isValidTimeZone(value),
+        defaultMessage: (args) =>
+          `${args?.property} must be an IANA time zone such as Europe/Berlin`,
+      },
+    }),
+  ];
+
+  if (!required) {
+    decorators.push(IsOptional());
+  } else {
+    decorators.push(IsNotEmpty());
+  }
+
+  return applyDecorators(...decorators);
+}
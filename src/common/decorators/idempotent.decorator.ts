@@ -0,0 +1,38 @@
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { ApiHeader, ApiResponse } from '@nestjs/swagger';
+import {
+  DEFAULT_IDEMPOTENCY_TTL_SECONDS,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENCY_OPTIONS_KEY,
+  IdempotencyInterceptor,
+  IdempotencyOptions,
+} from '../interceptors/idempotency.interceptor';
+
+/**
+ * Enables Idempotency-Key support on an endpoint
+ * Usage: @Idempotent() or @Idempotent({ ttlSeconds: 3600 })
+ *
+ * Built into the endpoint decorators through { idempotent: true }
+ * Requires IdempotencyModule.forRoot() in AppModule
+ */
+export function Idempotent(options: IdempotencyOptions = {}) {
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_IDEMPOTENCY_TTL_SECONDS;
+
+  return applyDecorators(
+    SetMetadata(IDEMPOTENCY_OPTIONS_KEY, options),
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: IDEMPOTENCY_KEY_HEADER,
+      required: false,
+      description: `Unique key to safely retry this request. The original response is replayed for ${ttlSeconds} seconds.`,
+    }),
+    ApiResponse({
+      status: 409,
+      description: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+    }),
+    ApiResponse({
+      status: 422,
+      description: `${IDEMPOTENCY_KEY_HEADER} was already used with a different request`,
+    }),
+  );
+}
@@ -0,0 +1,40 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+
+const ETAG_PATTERN = /^(W\/)?"(\d+)"$/;
+
+/**
+ * ETag of an entity version - strong, since a version is one exact state
+ */
+export function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Version named by an ETag, NaN when the tag is not one of ours
+ * Weak tags (W/"2") only name a version where weak comparison is allowed (If-None-Match)
+ */
+export function parseETag(tag: string, allowWeak = true): number {
+  const match = ETAG_PATTERN.exec(tag.trim());
+  return match && (allowWeak || !match[1]) ? Number(match[2]) : NaN;
+}
+
+/**
+ * Parameter decorator that reads the If-Match header as an entity version
+ * Usage: update(@Param('id') id: number, @Body() dto: UpdateDto, @IfMatch() version?: number)
+ *
+ * Undefined when the header is absent or '*'; a tag that is not a version
+ * becomes NaN so the precondition fails with 412. If-Match compares strongly
+ * (RFC 9110), so weak tags never match
+ */
+export const IfMatch = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): number | undefined => {
+    const header = ctx.switchToHttp().getRequest<Request>().header('If-Match');
+
+    if (header === undefined || header.trim() === '*') {
+      return undefined;
+    }
+
+    return parseETag(header, false);
+  },
+);
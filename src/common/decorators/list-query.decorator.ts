@@ -0,0 +1,29 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { Request } from 'express';
+import { QueryFieldConfig } from '../interfaces/list-query.interface';
+import { ListQueryPipe } from '../pipes/list-query.pipe';
+
+/**
+ * Metadata key holding the whitelisted query fields of a list endpoint
+ */
+export const LIST_QUERY_FIELDS_KEY = 'listQueryFields';
+
+/**
+ * Parameter decorator that parses page, limit, sort and filter query params
+ * Usage: findAll(@ListQuery() query: ListQueryOptions)
+ *
+ * Fields are whitelisted by the query mapping passed to @GetAllEndpoint
+ */
+export const ListQuery = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest<Request>();
+    const fields = Reflect.getMetadata(
+      LIST_QUERY_FIELDS_KEY,
+      ctx.getHandler(),
+    ) as Record<string, QueryFieldConfig> | undefined;
+
+    return new ListQueryPipe(fields).transform(
+      request.query as Record<string, unknown>,
+    );
+  },
+);
@@ -0,0 +1,26 @@
+export const NOT_AUDITED_KEY = 'audit:notAudited';
+
+/**
+ * Keeps an entity column out of audit entries - for secrets and key hashes
+ * Usage: @NotAudited() next to @Column()
+ */
+export function NotAudited(): PropertyDecorator {
+  return (target, propertyKey) => {
+    Reflect.defineMetadata(
+      NOT_AUDITED_KEY,
+      [...getNotAuditedFields(target.constructor), propertyKey],
+      target.constructor,
+    );
+  };
+}
+
+/**
+ * Fields marked with @NotAudited() on an entity class and its parents
+ */
+export function getNotAuditedFields(entityClass: object): (string | symbol)[] {
+  return (
+    (Reflect.getMetadata(NOT_AUDITED_KEY, entityClass) as
+      | (string | symbol)[]
+      | undefined) ?? []
+  );
+}
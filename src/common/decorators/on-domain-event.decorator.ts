@@ -0,0 +1,25 @@
+import type { DomainEventType } from '../interfaces/domain-event.interface';
+
+export const DOMAIN_EVENT_HANDLER_KEY = 'domainEventHandler';
+
+/**
+ * Subscribes a provider method to one or more domain events
+ * Usage: @OnDomainEvent(PaymentCompleted) on a method of any provider
+ *
+ * Requires DomainEventsModule.forRoot() in AppModule
+ */
+export function OnDomainEvent(...types: DomainEventType[]): MethodDecorator {
+  return (_target, _propertyKey, descriptor) => {
+    const handler = descriptor.value as object;
+    const existing =
+      (Reflect.getMetadata(DOMAIN_EVENT_HANDLER_KEY, handler) as
+        | DomainEventType[]
+        | undefined) ?? [];
+    Reflect.defineMetadata(
+      DOMAIN_EVENT_HANDLER_KEY,
+      [...existing, ...types],
+      handler,
+    );
+    return descriptor;
+  };
+}
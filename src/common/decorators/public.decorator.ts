@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'auth:public';
+
+/**
+ * Opts a handler or a whole controller out of the global JWT guard
+ * Usage: @Public() - e.g. for signed gateway webhooks or health checks
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
@@ -0,0 +1,34 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiResponse } from '@nestjs/swagger';
+import type { RateLimitPolicy } from '../interfaces/rate-limit-store.interface';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/**
+ * Own rate limit of an endpoint or controller, replacing the global default
+ * Usage: @RateLimit({ limit: 10, windowSeconds: 60, strategy: 'token-bucket' })
+ *        @RateLimit(false) - not limited at all
+ *
+ * Built into the endpoint decorators through { rateLimit }
+ * Counted per client and endpoint by RateLimitGuard (RateLimitModule)
+ */
+export function RateLimit(policy: RateLimitPolicy | false) {
+  if (!policy) {
+    return SetMetadata(RATE_LIMIT_KEY, false);
+  }
+
+  const { limit, windowSeconds, strategy = 'fixed-window' } = policy;
+  return applyDecorators(
+    SetMetadata(RATE_LIMIT_KEY, policy),
+    ApiResponse({
+      status: 429,
+      description: `More than ${limit} requests per ${windowSeconds} seconds (${strategy})`,
+      headers: {
+        'Retry-After': {
+          description: 'Seconds until the next request is allowed',
+          schema: { type: 'integer' },
+        },
+      },
+    }),
+  );
+}
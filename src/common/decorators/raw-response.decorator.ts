@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RAW_RESPONSE_KEY = 'rawResponse';
+
+/**
+ * Skips the ResponseInterceptor envelope for a handler or controller
+ * For responses whose shape is dictated by a third party (webhook acks, file downloads)
+ */
+export const RawResponse = () => SetMetadata(RAW_RESPONSE_KEY, true);
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_UNSCOPED_KEY = 'tenancy:unscoped';
+
+/**
+ * Runs a handler without a tenant, so it sees the rows of every tenant and
+ * rows of none - e.g. for platform operators
+ * Usage: @Unscoped() together with a role; callers pinned to a tenant get 403
+ */
+export const Unscoped = () => SetMetadata(IS_UNSCOPED_KEY, true);
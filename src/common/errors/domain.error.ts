@@ -0,0 +1,89 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * Base class of errors with a stable, machine-readable code, e.g. PAYMENT_INVALID_TRANSITION
+ *
+ * Extends HttpException, so everything handling HTTP errors (bulk results,
+ * imports, idempotent replays) keeps working. The exception filters render it
+ * as application/problem+json with the code, and details as extra members
+ */
+export class DomainError extends HttpException {
+  constructor(
+    readonly code: string,
+    message: string | string[],
+    status: HttpStatus = HttpStatus.BAD_REQUEST,
+    readonly details: Record<string, unknown> = {},
+  ) {
+    // Everything in the response, so idempotent replays render the same problem
+    super({ ...details, code, message }, status);
+  }
+}
+
+/**
+ * Code prefix for a display name - 'API Key' becomes API_KEY
+ */
+export function toErrorCodePrefix(name: string): string {
+  return name
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * <ENTITY>_NOT_FOUND - also answered for rows of other tenants
+ */
+export class EntityNotFoundError extends DomainError {
+  constructor(entityName: string, id: number | string) {
+    super(
+      `${toErrorCodePrefix(entityName)}_NOT_FOUND`,
+      `${entityName} with ID ${id} not found`,
+      HttpStatus.NOT_FOUND,
+      { id },
+    );
+  }
+}
+
+/**
+ * VERSION_CONFLICT - If-Match named an older version
+ */
+export class VersionConflictError extends DomainError {
+  constructor(entityName: string, id: number, currentVersion: number) {
+    super(
+      'VERSION_CONFLICT',
+      `${entityName} with ID ${id} was modified: current version is ${currentVersion}`,
+      HttpStatus.PRECONDITION_FAILED,
+      { currentVersion },
+    );
+  }
+}
+
+/**
+ * DUPLICATE_ENTRY - a create hit a unique index, e.g. a concurrent insert of the same row
+ */
+export class DuplicateEntryError extends DomainError {
+  constructor(entityName: string) {
+    super(
+      'DUPLICATE_ENTRY',
+      `${entityName} already exists`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+/**
+ * <MACHINE>_INVALID_TRANSITION - a state machine event that cannot fire
+ */
+export class InvalidTransitionError extends DomainError {
+  constructor(
+    machineName: string,
+    message: string,
+    details: { from: string; event: string; to?: string },
+  ) {
+    super(
+      `${toErrorCodePrefix(machineName)}_INVALID_TRANSITION`,
+      message,
+      HttpStatus.BAD_REQUEST,
+      details,
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { HttpStatus } from '@nestjs/common';
+import type { ValidationError } from 'class-validator';
+import { DomainError } from './domain.error';
+
+/**
+ * One failed constraint of a request field
+ * field is a dotted path for nested values, e.g. items.0.amount
+ */
+export interface FieldError {
+  field: string;
+  constraint: string;
+  value: unknown;
+  message: string;
+}
+
+/**
+ * VALIDATION_FAILED - thrown by ValidationPipe with one entry per failed constraint
+ */
+export class ValidationFailedError extends DomainError {
+  constructor(readonly errors: FieldError[]) {
+    super(
+      'VALIDATION_FAILED',
+      errors.map((error) => error.message),
+      HttpStatus.BAD_REQUEST,
+      { errors },
+    );
+  }
+
+  static fromValidationErrors(
+    errors: ValidationError[],
+  ): ValidationFailedError {
+    return new ValidationFailedError(toFieldErrors(errors));
+  }
+}
+
+/**
+ * Flatten class-validator errors - nested messages get their parent path
+ * like Nest's own ValidationPipe messages
+ */
+function toFieldErrors(
+  errors: ValidationError[],
+  parent?: string,
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    return [
+      ...Object.entries(error.constraints ?? {}).map(
+        ([constraint, message]) => ({
+          field,
+          constraint,
+          value: error.value as unknown,
+          message: parent ? `${parent}.${message}` : message,
+        }),
+      ),
+      ...toFieldErrors(error.children ?? [], field),
+    ];
+  });
+}
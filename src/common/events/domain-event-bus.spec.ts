@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DomainEvent } from './domain-event';
+import { DomainEventBus } from './domain-event-bus';
+import { DomainEventsModule } from './domain-events.module';
+import { OnDomainEvent } from '../decorators/on-domain-event.decorator';
+
+class OrderPlaced extends DomainEvent {
+  constructor(readonly orderId: number) {
+    super();
+  }
+}
+
+class OrderCancelled extends DomainEvent {
+  constructor(readonly orderId: number) {
+    super();
+  }
+}
+
+@Injectable()
+class OrderListener {
+  readonly received: string[] = [];
+
+  @OnDomainEvent(OrderPlaced)
+  onPlaced(event: OrderPlaced) {
+    this.received.push(`placed ${event.orderId}`);
+  }
+
+  @OnDomainEvent(OrderPlaced, OrderCancelled)
+  onAny(event: OrderPlaced | OrderCancelled) {
+    this.received.push(`any ${event.orderId}`);
+  }
+
+  @OnDomainEvent(OrderCancelled)
+  onCancelled() {
+    throw new Error('Handler bug');
+  }
+}
+
+describe('DomainEventBus', () => {
+  let module: TestingModule;
+  let bus: DomainEventBus;
+  let listener: OrderListener;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [DomainEventsModule.forRoot()],
+      providers: [OrderListener],
+    }).compile();
+    await module.init();
+
+    bus = module.get(DomainEventBus);
+    listener = module.get(OrderListener);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('should run @OnDomainEvent handlers after publish returns', async () => {
+    bus.publish(new OrderPlaced(1));
+    expect(listener.received).toEqual([]);
+
+    await bus.flush();
+    expect(listener.received).toEqual(['placed 1', 'any 1']);
+  });
+
+  it('should isolate failing handlers', async () => {
+    expect(() => bus.publish(new OrderCancelled(2))).not.toThrow();
+
+    await expect(bus.flush()).resolves.toBeUndefined();
+    expect(listener.received).toEqual(['any 2']);
+  });
+
+  it('should support manual subscriptions', async () => {
+    const received: number[] = [];
+    const unsubscribe = bus.subscribe(OrderPlaced, (event) => {
+      received.push(event.orderId);
+    });
+
+    bus.publish(new OrderPlaced(3));
+    await bus.flush();
+    unsubscribe();
+    bus.publish(new OrderPlaced(4));
+    await bus.flush();
+
+    expect(received).toEqual([3]);
+  });
+});
@@ -0,0 +1,94 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { DomainEvent } from './domain-event';
+import { afterCommit } from '../database/transaction.context';
+import type {
+  DomainEventHandler,
+  DomainEventType,
+} from '../interfaces/domain-event.interface';
+
+interface Subscription {
+  name: string;
+  handler: DomainEventHandler;
+}
+
+/**
+ * In-process domain event bus
+ *
+ * publish() returns immediately; handlers run on a later tick, after the
+ * publishing service has finished its writes and the response is on its way.
+ * A failing handler is logged and never affects the publisher or other handlers.
+ * Events published inside a transaction wait for its commit and are dropped on rollback
+ */
+@Injectable()
+export class DomainEventBus implements OnModuleDestroy {
+  private readonly logger = new Logger(DomainEventBus.name);
+  private readonly subscriptions = new Map<DomainEventType, Subscription[]>();
+  private readonly inFlight = new Set<Promise<void>>();
+
+  /**
+   * Register a handler - returns a function that removes it
+   */
+  subscribe<T extends DomainEvent>(
+    type: DomainEventType<T>,
+    handler: DomainEventHandler<T>,
+    name: string = handler.name || 'anonymous',
+  ): () => void {
+    const subscription = { name, handler: handler as DomainEventHandler };
+    this.subscriptions.set(type, [
+      ...(this.subscriptions.get(type) ?? []),
+      subscription,
+    ]);
+
+    return () => {
+      this.subscriptions.set(
+        type,
+        (this.subscriptions.get(type) ?? []).filter((s) => s !== subscription),
+      );
+    };
+  }
+
+  publish(...events: DomainEvent[]): void {
+    afterCommit(() => {
+      for (const event of events) {
+        const type = event.constructor as DomainEventType;
+        for (const subscription of this.subscriptions.get(type) ?? []) {
+          this.track(this.dispatch(event, subscription));
+        }
+      }
+    });
+  }
+
+  /**
+   * Wait until every handler of the published events has finished
+   */
+  async flush(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.flush();
+  }
+
+  private async dispatch(
+    event: DomainEvent,
+    { name, handler }: Subscription,
+  ): Promise<void> {
+    await new Promise((resolve) => setImmediate(resolve));
+
+    try {
+      await handler(event);
+    } catch (err) {
+      this.logger.error(
+        `Handler ${name} failed for ${event.constructor.name}: ${err instanceof Error ? err.message : String(err)}`,
+        err instanceof Error ? err.stack : undefined,
+      );
+    }
+  }
+
+  private track(promise: Promise<void>): void {
+    const tracked = promise.finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+  }
+}
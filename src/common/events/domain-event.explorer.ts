@@ -0,0 +1,52 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { DomainEventBus } from './domain-event-bus';
+import { DOMAIN_EVENT_HANDLER_KEY } from '../decorators/on-domain-event.decorator';
+import type {
+  DomainEventHandler,
+  DomainEventType,
+} from '../interfaces/domain-event.interface';
+
+/**
+ * Finds @OnDomainEvent methods on all providers and subscribes them to the bus
+ */
+@Injectable()
+export class DomainEventExplorer implements OnModuleInit {
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly domainEventBus: DomainEventBus,
+  ) {}
+
+  onModuleInit(): void {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const instance = wrapper.instance as Record<string, unknown> | undefined;
+      if (
+        !instance ||
+        typeof instance !== 'object' ||
+        !wrapper.isDependencyTreeStatic()
+      ) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance) as object;
+      for (const methodName of this.metadataScanner.getAllMethodNames(
+        prototype,
+      )) {
+        const method = instance[methodName];
+        const types = Reflect.getMetadata(
+          DOMAIN_EVENT_HANDLER_KEY,
+          method as object,
+        ) as DomainEventType[] | undefined;
+
+        for (const type of types ?? []) {
+          this.domainEventBus.subscribe(
+            type,
+            (method as DomainEventHandler).bind(instance),
+            `${instance.constructor.name}.${methodName}`,
+          );
+        }
+      }
+    }
+  }
+}
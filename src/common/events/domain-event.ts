@@ -0,0 +1,11 @@
+/**
+ * Base class for in-process domain events
+ *
+ * Events are plain classes; subscribers select them by class:
+ * export class UserRegistered extends DomainEvent {
+ *   constructor(readonly user: User) { super(); }
+ * }
+ */
+export abstract class DomainEvent {
+  readonly occurredAt = new Date();
+}
@@ -0,0 +1,22 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { DomainEventBus } from './domain-event-bus';
+import { DomainEventExplorer } from './domain-event.explorer';
+
+/**
+ * Domain events module - provides the DomainEventBus and wires @OnDomainEvent handlers
+ *
+ * Usage (AppModule): imports: [DomainEventsModule.forRoot()]
+ */
+@Global()
+@Module({})
+export class DomainEventsModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: DomainEventsModule,
+      imports: [DiscoveryModule],
+      providers: [DomainEventBus, DomainEventExplorer],
+      exports: [DomainEventBus],
+    };
+  }
+}
@@ -0,0 +1,25 @@
+import {
+  RESPONSE_MAPPING_KEY,
+  ResponseFieldConfig,
+} from '../decorators/auto-response.decorator';
+import type { DeletedScope } from '../interfaces/list-query.interface';
+
+/**
+ * Export columns of a response DTO: id, the fields of its response mapping
+ * in declaration order, then the timestamps (deletedAt only when listed)
+ */
+export function getExportColumns(
+  responseClass: object,
+  deleted: DeletedScope = 'exclude',
+): string[] {
+  const mapping = (Reflect.getMetadata(RESPONSE_MAPPING_KEY, responseClass) ??
+    {}) as Record<string, ResponseFieldConfig>;
+
+  return [
+    'id',
+    ...Object.keys(mapping),
+    'createdAt',
+    'updatedAt',
+    ...(deleted === 'exclude' ? [] : ['deletedAt']),
+  ];
+}
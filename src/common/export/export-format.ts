@@ -0,0 +1,54 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Content types of the streamed list exports
+ */
+export const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+} as const;
+
+export type ExportFormatType = keyof typeof EXPORT_CONTENT_TYPES;
+
+const ACCEPTED_MEDIA_TYPES: Record<string, ExportFormatType> = {
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+};
+
+/**
+ * Pick the export format of a list request - undefined means the JSON envelope
+ *
+ * ?format=csv|ndjson|json wins over the Accept header, so links work in a browser.
+ * Accept only selects an export when one of its media types is listed before JSON
+ */
+export function negotiateExportFormat(
+  format: unknown,
+  accept: string | undefined,
+): ExportFormatType | undefined {
+  if (format !== undefined && format !== '') {
+    if (format === 'json') {
+      return undefined;
+    }
+    if (
+      typeof format !== 'string' ||
+      !Object.hasOwn(EXPORT_CONTENT_TYPES, format)
+    ) {
+      throw new BadRequestException([
+        `format must be one of json, ${Object.keys(EXPORT_CONTENT_TYPES).join(', ')}`,
+      ]);
+    }
+    return format as ExportFormatType;
+  }
+
+  for (const mediaRange of (accept ?? '').split(',')) {
+    const mediaType = mediaRange.split(';')[0].trim().toLowerCase();
+    if (Object.hasOwn(ACCEPTED_MEDIA_TYPES, mediaType)) {
+      return ACCEPTED_MEDIA_TYPES[mediaType];
+    }
+    if (mediaType === 'application/json') {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
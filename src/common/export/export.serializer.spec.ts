@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { negotiateExportFormat } from './export-format';
+import { serializeExport } from './export.serializer';
+
+async function collect(lines: AsyncIterable<string>): Promise<string> {
+  let output = '';
+  for await (const line of lines) {
+    output += line;
+  }
+  return output;
+}
+
+async function* rowsOf(...rows: object[]): AsyncGenerator<object> {
+  for (const row of rows) {
+    yield Promise.resolve(row);
+  }
+}
+
+describe('serializeExport', () => {
+  it('should write a header and escape CSV cells', async () => {
+    const csv = await collect(
+      serializeExport(
+        rowsOf(
+          {
+            id: 1,
+            name: 'Doe, "Jane"',
+            amount: -5,
+            at: new Date('2024-01-01T00:00:00Z'),
+          },
+          { id: 2, name: '=HYPERLINK("x")', amount: 10, at: null },
+        ),
+        ['id', 'name', 'amount', 'at'],
+        'csv',
+      ),
+    );
+
+    expect(csv).toBe(
+      'id,name,amount,at\r\n' +
+        '1,"Doe, ""Jane""",-5,2024-01-01T00:00:00.000Z\r\n' +
+        `2,"'=HYPERLINK(""x"")",10,\r\n`,
+    );
+  });
+
+  it('should write one JSON object per line in column order', async () => {
+    const ndjson = await collect(
+      serializeExport(
+        rowsOf({ name: 'a', id: 1, secret: 'x' }),
+        ['id', 'name', 'missing'],
+        'ndjson',
+      ),
+    );
+
+    expect(ndjson).toBe('{"id":1,"name":"a","missing":null}\n');
+  });
+});
+
+describe('negotiateExportFormat', () => {
+  it('should prefer ?format over the Accept header', () => {
+    expect(negotiateExportFormat('csv', 'application/json')).toBe('csv');
+    expect(negotiateExportFormat('json', 'text/csv')).toBeUndefined();
+    expect(() => negotiateExportFormat('xml', undefined)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should pick the first supported media type from Accept', () => {
+    expect(negotiateExportFormat(undefined, 'application/x-ndjson')).toBe(
+      'ndjson',
+    );
+    expect(negotiateExportFormat(undefined, 'text/csv;q=0.9, */*')).toBe('csv');
+    expect(
+      negotiateExportFormat(undefined, 'application/json, text/csv'),
+    ).toBeUndefined();
+    expect(negotiateExportFormat(undefined, '*/*')).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import type { ExportFormatType } from './export-format';
+
+/**
+ * Leading characters that make spreadsheets evaluate a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Serialize rows one line at a time - nothing but the current row is held in memory
+ * CSV starts with a header line; NDJSON objects list their fields in column order
+ */
+export async function* serializeExport(
+  rows: AsyncIterable<unknown>,
+  columns: string[],
+  format: ExportFormatType,
+): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield toCsvLine(columns);
+  }
+
+  for await (const row of rows) {
+    const values = columns.map(
+      (column) => (row as Record<string, unknown>)[column],
+    );
+    yield format === 'csv'
+      ? toCsvLine(values.map(toCsvCell))
+      : `${JSON.stringify(Object.fromEntries(columns.map((column, i) => [column, values[i] ?? null])))}\n`;
+  }
+}
+
+function toCsvLine(cells: string[]): string {
+  return `${cells.map(quoteCsvCell).join(',')}\r\n`;
+}
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  const text = String(value as string | number | boolean);
+  // Text such as "=HYPERLINK(...)" is neutralised; numbers like -5 stay numbers
+  return typeof value === 'string' && FORMULA_PREFIX.test(text)
+    ? `'${text}`
+    : text;
+}
+
+function quoteCsvCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
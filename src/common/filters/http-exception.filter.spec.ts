@@ -0,0 +1,127 @@
+import { INestApplication, Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../database/database.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { DomainEventsModule } from '../events/domain-events.module';
+import { ValidationPipe } from '../pipes/validation.pipe';
+import { ResponseInterceptor } from '../interceptors/response.interceptor';
+import { AllExceptionsFilter } from './http-exception.filter';
+import { PaymentModule } from '../../modules/payment/payment.module';
+import { PaymentService } from '../../modules/payment/payment.service';
+
+describe('AllExceptionsFilter', () => {
+  let app: INestApplication<App>;
+  let paymentService: PaymentService;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        IdempotencyModule.forRoot(),
+        DomainEventsModule.forRoot(),
+        PaymentModule,
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe());
+    app.useGlobalFilters(new AllExceptionsFilter());
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+
+    paymentService = module.get(PaymentService);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await app.close();
+  });
+
+  it('should render validation errors per field as problem+json', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/payments')
+      .set('X-Request-Id', 'req-123')
+      .send({
+        amount: -5,
+        currency: 'USD',
+        customerEmail: 'not-an-email',
+        customerName: 'Alice Johnson',
+      })
+      .expect(400)
+      .expect('Content-Type', /application\/problem\+json/)
+      .expect('X-Request-Id', 'req-123');
+
+    expect(response.body).toMatchObject({
+      type: 'urn:problem-type:validation-failed',
+      title: 'Bad Request',
+      status: 400,
+      instance: '/payments',
+      code: 'VALIDATION_FAILED',
+      correlationId: 'req-123',
+    });
+    expect((response.body as { errors: { field: string }[] }).errors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ field: 'amount', value: -5 }),
+        expect.objectContaining({
+          field: 'customerEmail',
+          constraint: 'isEmail',
+          value: 'not-an-email',
+        }),
+      ]),
+    );
+  });
+
+  it('should render domain errors with their stable code', async () => {
+    const { id } = await paymentService.create({
+      amount: 10,
+      currency: 'USD',
+      customerEmail: 'alice@example.com',
+      customerName: 'Alice Johnson',
+    });
+
+    const response = await request(app.getHttpServer())
+      .post(`/payments/${id}/capture`)
+      .send({})
+      .expect(400);
+
+    expect(response.body).toMatchObject({
+      type: 'urn:problem-type:payment-invalid-transition',
+      status: 400,
+      code: 'PAYMENT_INVALID_TRANSITION',
+      from: 'pending',
+      event: 'capture',
+      correlationId: expect.any(String) as string,
+    });
+    expect(response.headers['x-request-id']).toBe(
+      (response.body as { correlationId: string }).correlationId,
+    );
+  });
+
+  it('should hide unexpected errors behind a 500 and log them', async () => {
+    const logged = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+    jest
+      .spyOn(paymentService, 'findOne')
+      .mockRejectedValue(new Error('database is locked'));
+
+    const response = await request(app.getHttpServer())
+      .get('/payments/1')
+      .set('X-Request-Id', 'req-500')
+      .expect(500);
+
+    expect(response.body).toMatchObject({
+      type: 'about:blank',
+      status: 500,
+      code: 'INTERNAL_SERVER_ERROR',
+      detail: 'Internal server error',
+      correlationId: 'req-500',
+    });
+    expect(logged).toHaveBeenCalledWith(
+      expect.stringContaining('[req-500]: database is locked'),
+      expect.any(String),
+    );
+  });
+});
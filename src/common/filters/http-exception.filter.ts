@@ -4,61 +4,149 @@ import {
   ArgumentsHost,
   HttpException,
   HttpStatus,
+  InternalServerErrorException,
+  Logger,
 } from '@nestjs/common';
+import { STATUS_CODES } from 'http';
 import { Request, Response } from 'express';
+import { REQUEST_ID_HEADER, requestIdOf } from '../logging/request.context';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * RFC 7807 problem details, with the error code and correlation ID as extension members
+ * DomainError details (e.g. errors of VALIDATION_FAILED) are added as further members
+ */
+export interface ProblemDetails {
+  type: string; // urn:problem-type:<code> for coded errors, about:blank otherwise
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: string;
+  correlationId: string;
+  timestamp: string;
+  [extension: string]: unknown;
+}
 
 /**
- * Global exception filter for consistent error responses
+ * Messages of an HttpException as a list - validation errors already are one
+ */
+export function getHttpErrorMessages(exception: HttpException): string[] {
+  const exceptionResponse = exception.getResponse();
+
+  const message =
+    typeof exceptionResponse === 'string'
+      ? exceptionResponse
+      : (exceptionResponse as { message?: string | string[] }).message ||
+        exception.message;
+
+  return Array.isArray(message) ? message : [message];
+}
+
+/**
+ * Stable code of an HttpException - the DomainError code, else the status name (NOT_FOUND)
+ */
+export function getErrorCode(exception: HttpException): string {
+  const { code } = responseMembers(exception);
+  return typeof code === 'string'
+    ? code
+    : (HttpStatus[exception.getStatus()] ?? 'HTTP_ERROR');
+}
+
+/**
+ * Problem details of an HttpException
+ */
+export function toProblemDetails(
+  exception: HttpException,
+  instance: string,
+  correlationId: string,
+): ProblemDetails {
+  const status = exception.getStatus();
+  const extensions = responseMembers(exception);
+  const coded = typeof extensions.code === 'string';
+  const code = getErrorCode(exception);
+
+  // Nest's own members are replaced by the standard ones
+  for (const member of ['message', 'error', 'statusCode', 'code']) {
+    delete extensions[member];
+  }
+
+  return {
+    ...extensions,
+    type: coded
+      ? `urn:problem-type:${code.toLowerCase().replace(/_/g, '-')}`
+      : 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail: getHttpErrorMessages(exception).join('; '),
+    instance,
+    code,
+    correlationId,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function responseMembers(exception: HttpException): Record<string, unknown> {
+  const exceptionResponse = exception.getResponse();
+  return typeof exceptionResponse === 'object'
+    ? { ...(exceptionResponse as Record<string, unknown>) }
+    : {};
+}
+
+/**
+ * Send a problem+json response - the correlation ID is the request ID, echoed in X-Request-Id
+ */
+function sendProblem(
+  host: ArgumentsHost,
+  exception: HttpException,
+): ProblemDetails {
+  const ctx = host.switchToHttp();
+  const response = ctx.getResponse<Response>();
+  const request = ctx.getRequest<Request>();
+  const correlationId = requestIdOf(request);
+  const problem = toProblemDetails(exception, request.url, correlationId);
+
+  response
+    .status(problem.status)
+    .setHeader(REQUEST_ID_HEADER, correlationId)
+    .type(PROBLEM_CONTENT_TYPE)
+    .json(problem);
+  return problem;
+}
+
+/**
+ * Exception filter for HttpExceptions - renders application/problem+json
  */
 @Catch(HttpException)
 export class HttpExceptionFilter implements ExceptionFilter {
   catch(exception: HttpException, host: ArgumentsHost) {
-    const ctx = host.switchToHttp();
-    const response = ctx.getResponse<Response>();
-    const request = ctx.getRequest<Request>();
-    const status = exception.getStatus();
-    const exceptionResponse = exception.getResponse();
-
-    const message =
-      typeof exceptionResponse === 'string'
-        ? exceptionResponse
-        : (exceptionResponse as any).message || exception.message;
-
-    response.status(status).json({
-      statusCode: status,
-      timestamp: new Date().toISOString(),
-      path: request.url,
-      message: Array.isArray(message) ? message : [message],
-    });
+    sendProblem(host, exception);
   }
 }
 
 /**
- * Global exception filter for all unhandled exceptions
+ * Global exception filter for everything thrown - registered in main.ts
+ *
+ * HttpExceptions render as in HttpExceptionFilter; anything else becomes a 500
+ * without internals, logged with the correlation ID the client receives
  */
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
-  catch(exception: unknown, host: ArgumentsHost) {
-    const ctx = host.switchToHttp();
-    const response = ctx.getResponse<Response>();
-    const request = ctx.getRequest<Request>();
+  private readonly logger = new Logger(AllExceptionsFilter.name);
 
-    const status =
+  catch(exception: unknown, host: ArgumentsHost) {
+    const httpException =
       exception instanceof HttpException
-        ? exception.getStatus()
-        : HttpStatus.INTERNAL_SERVER_ERROR;
+        ? exception
+        : new InternalServerErrorException('Internal server error');
+    const problem = sendProblem(host, httpException);
 
-    const message =
-      exception instanceof HttpException
-        ? exception.message
-        : 'Internal server error';
-
-    response.status(status).json({
-      statusCode: status,
-      timestamp: new Date().toISOString(),
-      path: request.url,
-      message: [message],
-    });
+    if (problem.status >= 500) {
+      this.logger.error(
+        `${problem.instance} failed [${problem.correlationId}]: ${exception instanceof Error ? exception.message : String(exception)}`,
+        exception instanceof Error ? exception.stack : undefined,
+      );
+    }
   }
 }
-
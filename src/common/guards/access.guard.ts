@@ -0,0 +1,112 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import {
+  PERMISSIONS_KEY,
+  ROLES_KEY,
+  SCOPES_KEY,
+  TRASH_KEY,
+} from '../decorators/access.decorator';
+import { LIST_QUERY_FIELDS_KEY } from '../decorators/list-query.decorator';
+import { getTrashConfig } from '../config/trash.config';
+import type { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+/**
+ * Global guard for @Roles() / @Permissions() / @Scopes() and the
+ * { roles, permissions, scopes } options - runs after AuthGuard has set request.user
+ *
+ * Users are checked against roles and permissions, API keys against scopes only
+ * A handler's requirements replace its controller's
+ *
+ * Restores and list queries with includeDeleted / onlyDeleted also need the
+ * trash role (TRASH_ROLE, default admin), which API keys never have
+ */
+@Injectable()
+export class AccessGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthenticatedUser }>();
+    const { user } = request;
+
+    if (this.isTrashRequest(context, request)) {
+      const { role } = getTrashConfig();
+      if (user?.type !== 'user' || !user.roles.includes(role)) {
+        throw new ForbiddenException(`Deleted items require the role: ${role}`);
+      }
+    }
+
+    if (user?.type === 'api-key') {
+      return this.checkScopes(context, user);
+    }
+
+    const roles = this.getRequirement(context, ROLES_KEY);
+    const permissions = this.getRequirement(context, PERMISSIONS_KEY);
+
+    if (roles && !roles.some((role) => user?.roles.includes(role))) {
+      throw new ForbiddenException(
+        `Requires one of the roles: ${roles.join(', ')}`,
+      );
+    }
+
+    const missing = (permissions ?? []).filter(
+      (permission) => !user?.permissions.includes(permission),
+    );
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `Missing permissions: ${missing.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+
+  private checkScopes(
+    context: ExecutionContext,
+    apiKey: AuthenticatedUser,
+  ): boolean {
+    const scopes = this.getRequirement(context, SCOPES_KEY);
+    if (!scopes) {
+      throw new ForbiddenException('This endpoint does not accept API keys');
+    }
+
+    const missing = scopes.filter((scope) => !apiKey.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing scopes: ${missing.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+
+  private isTrashRequest(context: ExecutionContext, request: Request): boolean {
+    if (this.reflector.get<boolean>(TRASH_KEY, context.getHandler())) {
+      return true;
+    }
+    if (!this.reflector.get(LIST_QUERY_FIELDS_KEY, context.getHandler())) {
+      return false;
+    }
+    return (
+      request.query.includeDeleted === 'true' ||
+      request.query.onlyDeleted === 'true'
+    );
+  }
+
+  private getRequirement(
+    context: ExecutionContext,
+    key: string,
+  ): string[] | undefined {
+    return this.reflector.getAllAndOverride<string[] | undefined>(key, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+  }
+}
@@ -0,0 +1,201 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import { generateKeyPairSync } from 'crypto';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../database/database.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { DomainEventsModule } from '../events/domain-events.module';
+import { AuditModule } from '../audit/audit.module';
+import { AuthModule } from '../auth/auth.module';
+import { ValidationPipe } from '../pipes/validation.pipe';
+import { ResponseInterceptor } from '../interceptors/response.interceptor';
+import { PaymentModule } from '../../modules/payment/payment.module';
+
+describe('AuthGuard and AccessGuard', () => {
+  const keyPair = () =>
+    generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+  const signingKeys = keyPair();
+  const signer = new JwtService({
+    privateKey: signingKeys.privateKey,
+    signOptions: { algorithm: 'RS256', expiresIn: '5m' },
+  });
+
+  let app: INestApplication<App>;
+
+  const token = (claims: Record<string, unknown>) =>
+    `Bearer ${signer.sign(claims)}`;
+
+  beforeAll(() => {
+    process.env.JWT_PUBLIC_KEY = signingKeys.publicKey;
+  });
+
+  afterAll(() => {
+    delete process.env.JWT_PUBLIC_KEY;
+  });
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        IdempotencyModule.forRoot(),
+        DomainEventsModule.forRoot(),
+        AuditModule.forRoot(),
+        AuthModule.forRoot(),
+        PaymentModule,
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ rawBody: true });
+    app.useGlobalPipes(new ValidationPipe());
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should reject requests without a valid bearer token', async () => {
+    const otherKeys = keyPair();
+    const forged = new JwtService({
+      privateKey: otherKeys.privateKey,
+      signOptions: { algorithm: 'RS256' },
+    }).sign({ sub: 'mallory' });
+    const expired = signer.sign({ sub: 'alice' }, { expiresIn: -60 });
+
+    for (const authorization of [
+      undefined,
+      'Basic YWxpY2U6c2VjcmV0',
+      `Bearer ${forged}`,
+      `Bearer ${expired}`,
+      token({ roles: ['finance'] }),
+    ]) {
+      const call = request(app.getHttpServer()).get('/payments');
+      await (
+        authorization ? call.set('Authorization', authorization) : call
+      ).expect(401);
+    }
+  });
+
+  it('should record the token subject as the audit actor', async () => {
+    const created = await request(app.getHttpServer())
+      .post('/payments')
+      .set('Authorization', token({ sub: 'alice' }))
+      .send({
+        amount: 20,
+        currency: 'USD',
+        customerEmail: 'alice@example.com',
+        customerName: 'Alice',
+      })
+      .expect(201);
+    const { id } = (created.body as { data: { id: number } }).data;
+
+    const history = await request(app.getHttpServer())
+      .get(`/payments/${id}/history`)
+      .set('Authorization', token({ sub: 'alice' }))
+      .expect(200);
+    expect(
+      (history.body as { data: { items: { actor: string }[] } }).data.items[0]
+        .actor,
+    ).toBe('alice');
+  });
+
+  it('should restrict refunds to the finance role', async () => {
+    await request(app.getHttpServer())
+      .post('/payments/1/refund')
+      .set('Authorization', token({ sub: 'bob', roles: ['support'] }))
+      .expect(403);
+
+    // Past the guards - the payment does not exist
+    await request(app.getHttpServer())
+      .post('/payments/1/refund')
+      .set('Authorization', token({ sub: 'carol', roles: 'support finance' }))
+      .expect(404);
+  });
+
+  it('should limit the trash and restores to the trash role', async () => {
+    const server = app.getHttpServer();
+    const support = token({ sub: 'bob', roles: ['support'] });
+    const admin = token({ sub: 'dave', roles: ['admin'] });
+
+    for (const query of ['onlyDeleted=true', 'includeDeleted=true']) {
+      await request(server)
+        .get(`/payments?${query}`)
+        .set('Authorization', support)
+        .expect(403);
+      await request(server)
+        .get(`/payments?${query}`)
+        .set('Authorization', admin)
+        .expect(200);
+    }
+    await request(server)
+      .get('/payments?onlyDeleted=false')
+      .set('Authorization', support)
+      .expect(200);
+
+    await request(server)
+      .post('/payments/1/restore')
+      .set('Authorization', support)
+      .expect(403);
+    // Past the guards - the payment does not exist
+    await request(server)
+      .post('/payments/1/restore')
+      .set('Authorization', admin)
+      .expect(404);
+
+    process.env.TRASH_ROLE = 'support';
+    try {
+      await request(server)
+        .post('/payments/1/restore')
+        .set('Authorization', support)
+        .expect(404);
+    } finally {
+      delete process.env.TRASH_ROLE;
+    }
+  });
+
+  it('should let gateway webhooks through without a token', async () => {
+    await request(app.getHttpServer())
+      .post('/payments/webhooks/unknown')
+      .send({})
+      .expect(404);
+    await request(app.getHttpServer()).get('/payments/webhooks').expect(401);
+  });
+
+  it('should restrict the webhook event log to the finance role', async () => {
+    await request(app.getHttpServer())
+      .get('/payments/webhooks')
+      .set('Authorization', token({ sub: 'bob', roles: ['support'] }))
+      .expect(403);
+    await request(app.getHttpServer())
+      .get('/payments/webhooks')
+      .set('Authorization', token({ sub: 'carol', roles: ['finance'] }))
+      .expect(200);
+  });
+
+  it('should document bearer auth and the 401 / 403 responses', () => {
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().addBearerAuth().build(),
+    );
+    const refund = document.paths['/payments/{id}/refund'].post;
+    const webhook = document.paths['/payments/webhooks/{provider}'].post;
+
+    expect(refund?.security).toContainEqual({ bearer: [] });
+    expect(Object.keys(refund?.responses ?? {})).toEqual(
+      expect.arrayContaining(['401', '403']),
+    );
+    expect(
+      document.paths['/payments/{id}/history'].get?.responses,
+    ).not.toHaveProperty('403');
+    expect(webhook?.security).toBeUndefined();
+    expect(webhook?.responses).not.toHaveProperty('401');
+  });
+});
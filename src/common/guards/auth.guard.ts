@@ -0,0 +1,112 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Optional,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { Request } from 'express';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import type { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+import {
+  API_KEY_HEADER,
+  API_KEY_VERIFIER,
+} from '../interfaces/api-key-verifier.interface';
+import type { ApiKeyVerifier } from '../interfaces/api-key-verifier.interface';
+
+/**
+ * Claims read from an access token
+ * roles and permissions may be lists or space-separated strings
+ */
+interface AccessTokenClaims {
+  sub?: string;
+  roles?: string[] | string;
+  permissions?: string[] | string;
+  tenant_id?: string;
+}
+
+/**
+ * Global guard - every route needs a valid bearer token or X-API-Key unless marked @Public()
+ *
+ * Token signature, expiry (exp / nbf) and the configured issuer and audience are
+ * checked by JwtService, API keys by the ApiKeyVerifier; the caller ends up on request.user
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly jwtService: JwtService,
+    @Optional()
+    @Inject(API_KEY_VERIFIER)
+    private readonly apiKeyVerifier?: ApiKeyVerifier,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean | undefined>(
+      IS_PUBLIC_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (isPublic) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthenticatedUser }>();
+    const apiKey = request.header(API_KEY_HEADER);
+
+    request.user = apiKey
+      ? await this.authenticateApiKey(apiKey)
+      : await this.authenticateToken(request.header('Authorization'));
+    return true;
+  }
+
+  private async authenticateApiKey(key: string): Promise<AuthenticatedUser> {
+    const user = await this.apiKeyVerifier?.verify(key);
+    if (!user) {
+      throw new UnauthorizedException('Invalid, revoked or expired API key');
+    }
+    return user;
+  }
+
+  private async authenticateToken(
+    authorization: string | undefined,
+  ): Promise<AuthenticatedUser> {
+    const [scheme, token] = authorization?.split(' ') ?? [];
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new UnauthorizedException(
+        `Missing bearer token or ${API_KEY_HEADER}`,
+      );
+    }
+
+    let claims: AccessTokenClaims;
+    try {
+      claims = await this.jwtService.verifyAsync<AccessTokenClaims>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    if (!claims.sub) {
+      throw new UnauthorizedException('Token has no subject');
+    }
+
+    return {
+      id: claims.sub,
+      type: 'user',
+      roles: this.toList(claims.roles),
+      permissions: this.toList(claims.permissions),
+      scopes: [],
+      tenantId: claims.tenant_id ?? null,
+    };
+  }
+
+  private toList(claim: string[] | string | undefined): string[] {
+    if (Array.isArray(claim)) {
+      return claim;
+    }
+    return claim?.split(' ').filter(Boolean) ?? [];
+  }
+}
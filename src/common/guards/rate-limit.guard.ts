@@ -0,0 +1,76 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { RATE_LIMIT_KEY } from '../decorators/rate-limit.decorator';
+import { getRateLimitConfig } from '../config/rate-limit.config';
+import { RATE_LIMIT_STORE } from '../interfaces/rate-limit-store.interface';
+import type {
+  RateLimitPolicy,
+  RateLimitStore,
+} from '../interfaces/rate-limit-store.interface';
+import type { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+import { applyRateLimitResult } from '../rate-limit/rate-limit.response';
+
+/**
+ * Global guard - counts each request against the client's limit
+ *
+ * Clients are told apart by API key, then user (request.user, so it runs after
+ * AuthGuard), then IP. Routes with @RateLimit() have their own counter per client,
+ * all other routes share the global default. Every limited response carries
+ * RateLimit-Limit / -Remaining / -Reset / -Policy; a 429 also Retry-After.
+ * Requests failing authentication are limited per IP by IpRateLimitMiddleware
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly defaultPolicy = getRateLimitConfig();
+
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const routePolicy = this.reflector.getAllAndOverride<
+      RateLimitPolicy | false | undefined
+    >(RATE_LIMIT_KEY, [context.getHandler(), context.getClass()]);
+    const policy = routePolicy ?? this.defaultPolicy;
+    if (!policy) {
+      return true;
+    }
+
+    const httpContext = context.switchToHttp();
+    const request = httpContext.getRequest<
+      Request & { user?: AuthenticatedUser }
+    >();
+    const response = httpContext.getResponse<Response>();
+
+    const scope = routePolicy
+      ? `${context.getClass().name}.${context.getHandler().name}`
+      : 'default';
+    const result = await this.store.consume(
+      `${scope}:${this.clientKey(request)}`,
+      policy,
+    );
+
+    const exceeded = applyRateLimitResult(response, policy, result);
+    if (exceeded) {
+      throw exceeded;
+    }
+    return true;
+  }
+
+  private clientKey(request: Request & { user?: AuthenticatedUser }): string {
+    if (request.user) {
+      // API key users already read api-key:<id>
+      return request.user.type === 'api-key'
+        ? request.user.id
+        : `user:${request.user.id}`;
+    }
+    return `ip:${request.ip}`;
+  }
+}
@@ -0,0 +1,31 @@
+import { DynamicModule, Global, Module } from '@nestjs/common';
+import {
+  IDEMPOTENCY_STORE,
+  IdempotencyStore,
+} from '../interfaces/idempotency-store.interface';
+import { IdempotencyInterceptor } from '../interceptors/idempotency.interceptor';
+import { InMemoryIdempotencyStore } from './in-memory-idempotency.store';
+
+/**
+ * Idempotency module - provides the store used by @Idempotent endpoints
+ *
+ * Usage (AppModule): imports: [IdempotencyModule.forRoot()]
+ * Custom store:      IdempotencyModule.forRoot({ store: new RedisIdempotencyStore(...) })
+ */
+@Global()
+@Module({})
+export class IdempotencyModule {
+  static forRoot(options: { store?: IdempotencyStore } = {}): DynamicModule {
+    return {
+      module: IdempotencyModule,
+      providers: [
+        {
+          provide: IDEMPOTENCY_STORE,
+          useValue: options.store ?? new InMemoryIdempotencyStore(),
+        },
+        IdempotencyInterceptor,
+      ],
+      exports: [IDEMPOTENCY_STORE, IdempotencyInterceptor],
+    };
+  }
+}
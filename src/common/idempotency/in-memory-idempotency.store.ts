@@ -0,0 +1,64 @@
+import {
+  IdempotencyRecord,
+  IdempotencyStore,
+} from '../interfaces/idempotency-store.interface';
+
+interface Entry {
+  record: IdempotencyRecord;
+  expiresAt: number;
+}
+
+/**
+ * In-memory idempotency store
+ *
+ * Records are lost on restart and not shared between instances -
+ * provide a shared store (e.g. Redis) through IdempotencyModule.forRoot in production
+ */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, Entry>();
+
+  get(key: string): Promise<IdempotencyRecord | undefined> {
+    return Promise.resolve(this.getEntry(key)?.record);
+  }
+
+  reserve(key: string, fingerprint: string, ttlMs: number): Promise<boolean> {
+    if (this.getEntry(key)) {
+      return Promise.resolve(false);
+    }
+
+    this.entries.set(key, {
+      record: { fingerprint },
+      expiresAt: Date.now() + ttlMs,
+    });
+    return Promise.resolve(true);
+  }
+
+  complete(
+    key: string,
+    response: NonNullable<IdempotencyRecord['response']>,
+    ttlMs: number,
+  ): Promise<void> {
+    const entry = this.getEntry(key);
+
+    if (entry) {
+      entry.record.response = response;
+      entry.expiresAt = Date.now() + ttlMs;
+    }
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  private getEntry(key: string): Entry | undefined {
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,49 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseCsv, readCsvRecords } from './csv.parser';
+
+describe('parseCsv', () => {
+  it('should handle quotes, escaped quotes and line breaks', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\n1,\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+      ['1', ''],
+    ]);
+  });
+
+  it('should reject an unterminated quote', () => {
+    expect(() => parseCsv('a\n"open')).toThrow(BadRequestException);
+  });
+});
+
+describe('readCsvRecords', () => {
+  const columns = { name: String, amount: Number };
+
+  it('should key rows by header, convert numbers and skip empty cells', () => {
+    expect(
+      readCsvRecords(
+        'name,amount\nAlice,12.5\n\n,abc\n',
+        columns,
+        ['name'],
+        10,
+      ),
+    ).toEqual([
+      { row: 2, values: { name: 'Alice', amount: 12.5 } },
+      { row: 4, values: { amount: 'abc' } },
+    ]);
+  });
+
+  it('should reject unknown and missing columns', () => {
+    try {
+      readCsvRecords('nme,amount\nAlice,1\n', columns, ['name'], 10);
+      fail('expected BadRequestException');
+    } catch (error) {
+      const response = (error as BadRequestException).getResponse() as {
+        message: string[];
+      };
+      expect(response.message).toEqual([
+        "Unknown column 'nme', expected name, amount",
+        "Missing column 'name'",
+      ]);
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import { BadRequestException } from '@nestjs/common';
+import type {
+  ImportColumnType,
+  ImportRecord,
+} from '../interfaces/import-job.interface';
+
+/**
+ * Split RFC 4180 CSV into records of cells
+ * Quoted cells may contain commas, "" and line breaks; a UTF-8 BOM is ignored
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new BadRequestException(['CSV has an unterminated quoted cell']);
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Read CSV data rows as objects keyed by header, converting typed columns
+ *
+ * The header must name only known columns and every required one; empty cells
+ * are left out so optional fields stay unset. Cell contents are not validated
+ * here - that is the DTO's job, row by row
+ */
+export function readCsvRecords(
+  text: string,
+  columns: Record<string, ImportColumnType>,
+  required: string[],
+  maxRows: number,
+): ImportRecord[] {
+  const [header, ...rows] = parseCsv(text)
+    .map((cells, index) => ({ cells, row: index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+  const names = (header?.cells ?? []).map((name) => name.trim());
+
+  const errors: string[] = [];
+  for (const name of names) {
+    if (!Object.hasOwn(columns, name)) {
+      errors.push(
+        `Unknown column '${name}', expected ${Object.keys(columns).join(', ')}`,
+      );
+    }
+  }
+  for (const name of required) {
+    if (!names.includes(name)) {
+      errors.push(`Missing column '${name}'`);
+    }
+  }
+  if (rows.length === 0) {
+    errors.push('CSV has no data rows');
+  }
+  if (rows.length > maxRows) {
+    errors.push(`CSV has ${rows.length} data rows, at most ${maxRows} allowed`);
+  }
+  if (errors.length > 0) {
+    throw new BadRequestException(errors);
+  }
+
+  return rows.map(({ cells, row }) => {
+    const values: Record<string, unknown> = {};
+    names.forEach((name, column) => {
+      const cell = (cells[column] ?? '').trim();
+      if (cell !== '') {
+        values[name] = convertCell(cell, columns[name]);
+      }
+    });
+    return { row, values };
+  });
+}
+
+/**
+ * Convert a cell to its column type - a value that does not convert is
+ * passed on as text so validation reports it
+ */
+function convertCell(cell: string, type: ImportColumnType): unknown {
+  if (type === Number) {
+    const value = Number(cell);
+    return Number.isNaN(value) ? cell : value;
+  }
+  if (type === Boolean && (cell === 'true' || cell === 'false')) {
+    return cell === 'true';
+  }
+  return cell;
+}
@@ -0,0 +1,116 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { getImportConfig } from '../config/import.config';
+import type { ImportJob } from '../interfaces/import-job.interface';
+import { getCurrentTenantId } from '../tenancy/tenant.context';
+
+/**
+ * In-process registry of import jobs
+ *
+ * start() returns the queued job at once and runs the work on a later tick;
+ * the work reports progress by updating the job it is given. Jobs live in
+ * memory and are forgotten IMPORT_JOB_RETENTION_HOURS after they finish,
+ * or when the process restarts
+ *
+ * A job belongs to the tenant that started it; its work runs in that
+ * tenant and other tenants cannot find it
+ */
+@Injectable()
+export class ImportJobRegistry implements OnModuleDestroy {
+  private readonly logger = new Logger(ImportJobRegistry.name);
+  private readonly jobs = new Map<string, ImportJob>();
+  private readonly tenants = new Map<string, string | null>();
+  private readonly inFlight = new Set<Promise<void>>();
+
+  start(
+    total: number,
+    dryRun: boolean,
+    work: (job: ImportJob) => Promise<void>,
+  ): ImportJob {
+    this.prune(new Date());
+
+    const job: ImportJob = {
+      id: randomUUID(),
+      status: 'queued',
+      dryRun,
+      total,
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      errors: [],
+      createdAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+    this.tenants.set(job.id, getCurrentTenantId() ?? null);
+    this.track(this.run(job, work));
+
+    return job;
+  }
+
+  /**
+   * Find a job by ID - throws NotFoundException if unknown or expired
+   */
+  find(id: string): ImportJob {
+    const job = this.jobs.get(id);
+    const tenantId = getCurrentTenantId();
+    if (!job || (tenantId && this.tenants.get(id) !== tenantId)) {
+      throw new NotFoundException(`Import job ${id} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Wait until every started job has finished
+   */
+  async flush(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.flush();
+  }
+
+  private async run(
+    job: ImportJob,
+    work: (job: ImportJob) => Promise<void>,
+  ): Promise<void> {
+    await new Promise((resolve) => setImmediate(resolve));
+    job.status = 'running';
+
+    try {
+      await work(job);
+      job.status = 'completed';
+    } catch (err) {
+      this.logger.error(
+        `Import job ${job.id} failed: ${err instanceof Error ? err.message : String(err)}`,
+        err instanceof Error ? err.stack : undefined,
+      );
+      job.status = 'failed';
+      job.error = 'The import stopped unexpectedly';
+    }
+
+    job.finishedAt = new Date();
+  }
+
+  private prune(now: Date): void {
+    const cutoff = now.getTime() - getImportConfig().jobRetentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+        this.tenants.delete(id);
+      }
+    }
+  }
+
+  private track(promise: Promise<void>): void {
+    const tracked = promise.finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+  }
+}
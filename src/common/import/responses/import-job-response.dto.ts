@@ -0,0 +1,32 @@
+import { AutoResponse } from '../../decorators/auto-response.decorator';
+import type {
+  ImportJob,
+  ImportJobStatus,
+  ImportRowError,
+} from '../../interfaces/import-job.interface';
+import { ImportJobResponseMapping } from './mapping';
+
+/**
+ * Response DTO for an import job - a snapshot, the job keeps running
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(ImportJobResponseMapping)
+export class ImportJobResponseDto {
+  id: string;
+  status: ImportJobStatus;
+  dryRun: boolean;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  errors: ImportRowError[];
+  error?: string;
+  createdAt: Date;
+  finishedAt?: Date;
+
+  constructor(job?: ImportJob) {
+    if (job) {
+      Object.assign(this, { ...job, errors: [...job.errors] });
+    }
+  }
+}
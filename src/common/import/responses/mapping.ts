@@ -0,0 +1,75 @@
+import { ResponseFieldConfig } from '../../decorators/auto-response.decorator';
+
+/**
+ * Response field configuration for import DTOs
+ * Used by @AutoResponse decorator for Swagger documentation
+ */
+export const ImportJobResponseMapping: Record<string, ResponseFieldConfig> = {
+  id: {
+    description: 'Job ID, poll it for progress',
+    example: '3f2b1c9e-8d7a-4e6f-9a0b-1c2d3e4f5a6b',
+    required: true,
+    type: String,
+  },
+  status: {
+    description: 'queued, running, completed or failed',
+    example: 'completed',
+    required: true,
+    enum: ['queued', 'running', 'completed', 'failed'],
+  },
+  dryRun: {
+    description: 'true when rows were only validated - nothing was written',
+    example: false,
+    required: true,
+    type: Boolean,
+  },
+  total: {
+    description: 'Data rows in the file',
+    example: 250,
+    required: true,
+    type: Number,
+  },
+  processed: {
+    description: 'Rows tried so far',
+    example: 250,
+    required: true,
+    type: Number,
+  },
+  succeeded: {
+    description: 'Rows written (dry run: rows that would be written)',
+    example: 248,
+    required: true,
+    type: Number,
+  },
+  failed: {
+    description: 'Rows rejected',
+    example: 2,
+    required: true,
+    type: Number,
+  },
+  errors: {
+    description: 'Rejected rows with their errors - row 1 is the header',
+    example: [{ row: 7, errors: ['customerEmail must be an email'] }],
+    required: true,
+    type: Object,
+    isArray: true,
+  },
+  error: {
+    description: 'Why a failed job stopped',
+    example: 'The import stopped unexpectedly',
+    required: false,
+    type: String,
+  },
+  createdAt: {
+    description: 'When the file was accepted',
+    example: '2024-01-01T00:00:00.000Z',
+    required: true,
+    type: Date,
+  },
+  finishedAt: {
+    description: 'When the job completed or failed',
+    example: '2024-01-01T00:00:05.000Z',
+    required: false,
+    type: Date,
+  },
+};
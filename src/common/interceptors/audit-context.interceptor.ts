@@ -0,0 +1,34 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { Observable } from 'rxjs';
+import { runWithAuditContext } from '../audit/audit.context';
+import { requestIdOf } from '../logging/request.context';
+import type { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+/**
+ * Runs each HTTP handler inside an AuditContext so audit entries know
+ * the actor (request.user, set by AuthGuard) and the request ID
+ */
+@Injectable()
+export class AuditContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthenticatedUser }>();
+    const auditContext = {
+      actor: request.user?.id ?? null,
+      requestId: requestIdOf(request),
+    };
+
+    return new Observable((subscriber) =>
+      runWithAuditContext(auditContext, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { parseETag, toETag } from '../decorators/if-match.decorator';
+
+/**
+ * Sets the ETag header from the version of the returned entity
+ * and answers GET requests whose If-None-Match still matches with 304
+ */
+@Injectable()
+export class ETagInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const httpContext = context.switchToHttp();
+    const request = httpContext.getRequest<Request>();
+    const response = httpContext.getResponse<Response>();
+
+    return next.handle().pipe(
+      map((data: unknown) => {
+        const version = (data as { version?: unknown } | null)?.version;
+        if (typeof version !== 'number') {
+          return data;
+        }
+
+        response.setHeader('ETag', toETag(version));
+
+        if (request.method === 'GET' && this.isFresh(request, version)) {
+          response.status(HttpStatus.NOT_MODIFIED);
+          return undefined;
+        }
+
+        return data;
+      }),
+    );
+  }
+
+  private isFresh(request: Request, version: number): boolean {
+    const header = request.header('If-None-Match');
+    if (!header) {
+      return false;
+    }
+
+    return (
+      header.trim() === '*' ||
+      header.split(',').some((tag) => parseETag(tag) === version)
+    );
+  }
+}
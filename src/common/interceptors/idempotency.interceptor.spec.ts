@@ -0,0 +1,106 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  INestApplication,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { Idempotent } from '../decorators/idempotent.decorator';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+
+@Controller('orders')
+class OrderController {
+  created = 0;
+
+  @Post()
+  @Idempotent()
+  create(@Body() body: { item: string; quantity: number }) {
+    this.created++;
+    return { id: this.created, ...body };
+  }
+
+  @Post(':id/cancel')
+  @Idempotent()
+  cancel(@Param('id') id: string) {
+    this.created++;
+    throw new BadRequestException(`Order ${id} cannot be cancelled`);
+  }
+}
+
+describe('IdempotencyInterceptor', () => {
+  let app: INestApplication<App>;
+  let controller: OrderController;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [IdempotencyModule.forRoot()],
+      controllers: [OrderController],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.init();
+    controller = module.get(OrderController);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should replay the original response for a repeated key', async () => {
+    const first = await request(app.getHttpServer())
+      .post('/orders')
+      .set('Idempotency-Key', 'key-1')
+      .send({ item: 'book', quantity: 1 })
+      .expect(201);
+
+    const second = await request(app.getHttpServer())
+      .post('/orders')
+      .set('Idempotency-Key', 'key-1')
+      .send({ quantity: 1, item: 'book' })
+      .expect(201);
+
+    expect(second.body).toEqual(first.body);
+    expect(second.headers['idempotent-replayed']).toBe('true');
+    expect(controller.created).toBe(1);
+  });
+
+  it('should return 422 when a key is reused with a different body', async () => {
+    await request(app.getHttpServer())
+      .post('/orders')
+      .set('Idempotency-Key', 'key-2')
+      .send({ item: 'book', quantity: 1 })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post('/orders')
+      .set('Idempotency-Key', 'key-2')
+      .send({ item: 'book', quantity: 2 })
+      .expect(422);
+  });
+
+  it('should replay stored client errors with their status code', async () => {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await request(app.getHttpServer())
+        .post('/orders/7/cancel')
+        .set('Idempotency-Key', 'key-3')
+        .expect(400);
+    }
+
+    expect(controller.created).toBe(1);
+  });
+
+  it('should not store anything without a key', async () => {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await request(app.getHttpServer())
+        .post('/orders')
+        .send({ item: 'book', quantity: 1 })
+        .expect(201);
+    }
+
+    expect(controller.created).toBe(2);
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  HttpException,
+  Inject,
+  Injectable,
+  NestInterceptor,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import { from, Observable, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { IDEMPOTENCY_STORE } from '../interfaces/idempotency-store.interface';
+import type { IdempotencyStore } from '../interfaces/idempotency-store.interface';
+import type { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+import { getCurrentTenantId } from '../tenancy/tenant.context';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_OPTIONS_KEY = 'idempotencyOptions';
+export const DEFAULT_IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+export interface IdempotencyOptions {
+  ttlSeconds?: number; // How long the stored response is replayed (default 24h)
+}
+
+/**
+ * Interceptor for endpoints marked with @Idempotent
+ *
+ * - First request with a key: runs the handler and stores status code and body
+ *   (4xx errors included, 5xx errors release the key so the client can retry)
+ * - Same key and same request: replays the stored response
+ * - Same key, different method, path or body: 422 Unprocessable Entity
+ * - Same key while the first request is still running: 409 Conflict
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(IDEMPOTENCY_STORE) private readonly store: IdempotencyStore,
+  ) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const httpContext = context.switchToHttp();
+    const request = httpContext.getRequest<
+      Request & { user?: AuthenticatedUser }
+    >();
+    const response = httpContext.getResponse<Response>();
+    const header = request.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (!header) {
+      return next.handle();
+    }
+
+    // Keys are scoped to the tenant and caller, so nobody can replay another user's response
+    const key = [getCurrentTenantId(), request.user?.id, header]
+      .filter(Boolean)
+      .join(':');
+
+    const options =
+      this.reflector.get<IdempotencyOptions | undefined>(
+        IDEMPOTENCY_OPTIONS_KEY,
+        context.getHandler(),
+      ) ?? {};
+    const ttlMs =
+      (options.ttlSeconds ?? DEFAULT_IDEMPOTENCY_TTL_SECONDS) * 1000;
+    const fingerprint = this.fingerprint(request);
+
+    if (!(await this.store.reserve(key, fingerprint, ttlMs))) {
+      return this.replay(key, fingerprint, response);
+    }
+
+    return next.handle().pipe(
+      mergeMap(async (body: unknown) => {
+        await this.store.complete(
+          key,
+          {
+            statusCode: response.statusCode,
+            body: this.clone(body),
+            isError: false,
+          },
+          ttlMs,
+        );
+        return body;
+      }),
+      catchError((error: unknown) =>
+        from(this.storeError(key, error, ttlMs)).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+
+  private async replay(
+    key: string,
+    fingerprint: string,
+    response: Response,
+  ): Promise<Observable<unknown>> {
+    const record = await this.store.get(key);
+
+    if (record && record.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityException(
+        `${IDEMPOTENCY_KEY_HEADER} has already been used with a different request`,
+      );
+    }
+
+    if (!record?.response) {
+      throw new ConflictException(
+        `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+      );
+    }
+
+    response.setHeader('Idempotent-Replayed', 'true');
+
+    if (record.response.isError) {
+      throw new HttpException(
+        record.response.body as Record<string, unknown>,
+        record.response.statusCode,
+      );
+    }
+
+    response.status(record.response.statusCode);
+    return of(record.response.body);
+  }
+
+  private async storeError(
+    key: string,
+    error: unknown,
+    ttlMs: number,
+  ): Promise<void> {
+    if (error instanceof HttpException && error.getStatus() < 500) {
+      await this.store.complete(
+        key,
+        {
+          statusCode: error.getStatus(),
+          body: error.getResponse(),
+          isError: true,
+        },
+        ttlMs,
+      );
+      return;
+    }
+
+    await this.store.delete(key);
+  }
+
+  /**
+   * Hash of method, URL and body - key order in the body does not matter
+   */
+  private fingerprint(request: Request): string {
+    return createHash('sha256')
+      .update(`${request.method} ${request.originalUrl}\n`)
+      .update(JSON.stringify(this.canonicalize(request.body)) ?? '')
+      .digest('hex');
+  }
+
+  private canonicalize(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.canonicalize(item));
+    }
+
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.keys(value)
+        .sort()
+        .reduce<Record<string, unknown>>((result, key) => {
+          result[key] = this.canonicalize(
+            (value as Record<string, unknown>)[key],
+          );
+          return result;
+        }, {});
+    }
+
+    return value;
+  }
+
+  private clone(body: unknown): unknown {
+    return body === undefined
+      ? undefined
+      : (JSON.parse(JSON.stringify(body)) as unknown);
+  }
+}
@@ -3,9 +3,12 @@ import {
   NestInterceptor,
   ExecutionContext,
   CallHandler,
+  StreamableFile,
 } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
+import { RAW_RESPONSE_KEY } from '../decorators/raw-response.decorator';
 
 /**
  * Response wrapper interface
@@ -19,21 +22,41 @@ export interface Response<T> {
 
 /**
  * Global response interceptor for consistent API responses
+ * Handlers marked with @RawResponse() and streamed files are passed through unwrapped
  */
 @Injectable()
-export class ResponseInterceptor<T> implements NestInterceptor<T, Response<T>> {
-  intercept(context: ExecutionContext, next: CallHandler): Observable<Response<T>> {
+export class ResponseInterceptor<T>
+  implements NestInterceptor<T, Response<T> | T>
+{
+  private readonly reflector = new Reflector();
+
+  intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Observable<Response<T> | T> {
+    const raw = this.reflector.getAllAndOverride<boolean>(RAW_RESPONSE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (raw) {
+      return next.handle() as Observable<T>;
+    }
+
     const httpContext = context.switchToHttp();
     const response = httpContext.getResponse();
     const statusCode = response.statusCode;
 
     return next.handle().pipe(
-      map((data) => ({
-        data,
-        message: this.getSuccessMessage(statusCode),
-        statusCode,
-        timestamp: new Date().toISOString(),
-      })),
+      map((data: T) =>
+        data instanceof StreamableFile
+          ? data
+          : {
+              data,
+              message: this.getSuccessMessage(statusCode),
+              statusCode,
+              timestamp: new Date().toISOString(),
+            },
+      ),
     );
   }
 
@@ -50,4 +73,3 @@ export class ResponseInterceptor<T> implements NestInterceptor<T, Response<T>> {
     }
   }
 }
-
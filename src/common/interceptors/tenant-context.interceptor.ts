@@ -0,0 +1,98 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Observable } from 'rxjs';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { IS_UNSCOPED_KEY } from '../decorators/unscoped.decorator';
+import { runWithTenantContext } from '../tenancy/tenant.context';
+import type { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+export const TENANT_HEADER = 'X-Tenant-Id';
+const TENANT_ID_PATTERN = /^[\w-]{1,64}$/;
+
+/**
+ * Runs each HTTP handler inside a TenantContext, so repositories only
+ * see and stamp the rows of that tenant
+ *
+ * The tenant comes from the caller (tenant_id claim or the API key's tenant)
+ * or, for callers not pinned to a tenant, from the X-Tenant-Id header.
+ * Authenticated routes need one; public routes without one run unscoped.
+ * @Unscoped() routes always run unscoped and refuse callers pinned to a tenant
+ */
+@Injectable()
+export class TenantContextInterceptor implements NestInterceptor {
+  constructor(private readonly reflector: Reflector) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthenticatedUser }>();
+    const isPublic = this.reflector.getAllAndOverride<boolean | undefined>(
+      IS_PUBLIC_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    const isUnscoped = this.reflector.get<boolean | undefined>(
+      IS_UNSCOPED_KEY,
+      context.getHandler(),
+    );
+    const tenantContext = {
+      tenantId: isUnscoped
+        ? this.resolveUnscoped(request)
+        : this.resolve(request, !!isPublic),
+    };
+
+    return new Observable((subscriber) =>
+      runWithTenantContext(tenantContext, () =>
+        next.handle().subscribe(subscriber),
+      ),
+    );
+  }
+
+  private resolveUnscoped(
+    request: Request & { user?: AuthenticatedUser },
+  ): null {
+    const pinned = request.user?.tenantId;
+    if (pinned) {
+      throw new ForbiddenException(
+        `Credentials of tenant ${pinned} cannot act across tenants`,
+      );
+    }
+    return null;
+  }
+
+  private resolve(
+    request: Request & { user?: AuthenticatedUser },
+    isPublic: boolean,
+  ): string | null {
+    const header = request.header(TENANT_HEADER);
+    if (header !== undefined && !TENANT_ID_PATTERN.test(header)) {
+      throw new BadRequestException(
+        `${TENANT_HEADER} must be 1-64 letters, digits, _ or -`,
+      );
+    }
+
+    const pinned = request.user?.tenantId;
+    if (pinned) {
+      if (header && header !== pinned) {
+        throw new ForbiddenException(
+          `Credentials are not valid for tenant ${header}`,
+        );
+      }
+      return pinned;
+    }
+
+    if (header || isPublic) {
+      return header ?? null;
+    }
+    throw new BadRequestException(
+      `Missing tenant - send ${TENANT_HEADER} or use a token with a tenant_id claim`,
+    );
+  }
+}
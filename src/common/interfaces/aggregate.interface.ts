@@ -0,0 +1,44 @@
+import { FilterCondition } from './list-query.interface';
+
+/**
+ * One computed value of an aggregate query
+ *
+ * - count: matching rows
+ * - sum: total of a numeric field
+ * where restricts the metric to some rows of the group (e.g. status = failed)
+ */
+export interface AggregateMetric {
+  alias: string;
+  fn: 'count' | 'sum';
+  field?: string; // Required for sum
+  where?: FilterCondition;
+}
+
+/**
+ * Splits a date field into consecutive periods [boundaries[i], boundaries[i + 1])
+ * Rows outside [first, last) are left out of the aggregate
+ */
+export interface AggregatePeriods {
+  field: string;
+  boundaries: Date[];
+}
+
+/**
+ * Grouped totals computed by the repository (SQL GROUP BY for TypeORM)
+ * Soft-deleted rows are never included
+ */
+export interface AggregateQuery {
+  filters: FilterCondition[];
+  groupBy: string[];
+  periods?: AggregatePeriods;
+  metrics: AggregateMetric[];
+}
+
+/**
+ * One group of an aggregate result
+ */
+export interface AggregateRow {
+  groups: Record<string, unknown>; // Value of every groupBy field
+  period?: number; // Index of the period's start in AggregatePeriods.boundaries
+  values: Record<string, number>; // Metric values by alias
+}
@@ -0,0 +1,16 @@
+import type { AuthenticatedUser } from './authenticated-user.interface';
+
+export const API_KEY_VERIFIER = 'API_KEY_VERIFIER';
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Resolves X-API-Key headers for AuthGuard
+ * Without a provider registered, API keys are rejected
+ */
+export interface ApiKeyVerifier {
+  /**
+   * The key's caller, or null when it is unknown, revoked or expired
+   */
+  verify(key: string): Promise<AuthenticatedUser | null>;
+}
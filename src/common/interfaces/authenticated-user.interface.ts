@@ -0,0 +1,28 @@
+/**
+ * Caller of the current request, set on request.user by AuthGuard
+ *
+ * id is the token subject (sub claim) or api-key:<id> - AuditContextInterceptor records it as the actor
+ * API keys carry scopes instead of roles and permissions
+ * tenantId pins the caller to one tenant (tenant_id claim or the key's tenant) - null lets X-Tenant-Id choose
+ */
+export interface AuthenticatedUser {
+  id: string;
+  type: 'user' | 'api-key';
+  roles: string[];
+  permissions: string[];
+  scopes: string[];
+  tenantId: string | null;
+}
+
+/**
+ * What an endpoint or controller requires beyond a valid token
+ *
+ * roles: any one of them is enough
+ * permissions: every one of them is needed
+ * scopes: every one of them is needed by API keys - endpoints without scopes refuse API keys
+ */
+export interface AccessRequirements {
+  roles?: string[];
+  permissions?: string[];
+  scopes?: string[];
+}
@@ -1,11 +1,27 @@
+import { ListQueryOptions, PaginatedResult } from './list-query.interface';
+import type { AuditLog } from '../audit/audit-log.entity';
+import type { BatchResult, BatchUpdate } from './batch.interface';
+
 /**
  * Base service interface for standard CRUD operations
  */
-export interface IBaseService<T> {
-  create(createDto: any): Promise<T>;
+export interface IBaseService<T, TCreate = any, TUpdate = any> {
+  create(createDto: TCreate): Promise<T>;
   findAll(): Promise<T[]>;
-  findOne(id: number): Promise<T>;
-  update(id: number, updateDto: any): Promise<T>;
-  remove(id: number): Promise<void>;
+  findPage(query: ListQueryOptions): Promise<PaginatedResult<T>>;
+  findOne(id: number, withDeleted?: boolean): Promise<T>;
+  update(id: number, updateDto: TUpdate, expectedVersion?: number): Promise<T>;
+  remove(id: number, expectedVersion?: number): Promise<void>; // Soft delete
+  restore(id: number): Promise<T>;
+  findHistory(id: number): Promise<AuditLog[]>;
+  createMany(
+    createDtos: TCreate[],
+    atomic?: boolean,
+    dryRun?: boolean,
+  ): Promise<BatchResult<T>>;
+  updateMany(
+    updates: BatchUpdate<TUpdate>[],
+    atomic?: boolean,
+  ): Promise<BatchResult<T>>;
+  removeMany(ids: number[], atomic?: boolean): Promise<BatchResult<number>>;
 }
-
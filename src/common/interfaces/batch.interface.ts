@@ -0,0 +1,29 @@
+/**
+ * Outcome of one item of a service batch (createMany, updateMany, removeMany)
+ *
+ * - succeeded: written (and committed) - in a dry run: would have been written
+ * - failed: the item's own error, e.g. a NotFoundException
+ * - rolled_back: written, then undone because another item of an atomic batch failed
+ * - skipped: not attempted because an earlier item of an atomic batch failed
+ */
+export type BatchItemResult<T> =
+  | { status: 'succeeded'; value: T }
+  | { status: 'failed'; error: unknown }
+  | { status: 'rolled_back' }
+  | { status: 'skipped' };
+
+export type BatchItemStatus = BatchItemResult<unknown>['status'];
+
+export interface BatchResult<T> {
+  committed: boolean; // false when an atomic batch was rolled back, always false for a dry run
+  items: BatchItemResult<T>[];
+}
+
+/**
+ * One entity change of updateMany
+ */
+export interface BatchUpdate<TUpdate> {
+  id: number;
+  changes: TUpdate;
+  version?: number; // Same as If-Match on a single update
+}
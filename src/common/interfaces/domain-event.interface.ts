@@ -0,0 +1,12 @@
+import type { DomainEvent } from '../events/domain-event';
+
+/**
+ * Event class used as the subscription key
+ */
+export type DomainEventType<T extends DomainEvent = DomainEvent> = new (
+  ...args: any[]
+) => T;
+
+export type DomainEventHandler<T extends DomainEvent = DomainEvent> = (
+  event: T,
+) => Promise<void> | void;
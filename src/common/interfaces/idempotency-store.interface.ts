@@ -0,0 +1,34 @@
+/**
+ * Injection token for the configured IdempotencyStore
+ */
+export const IDEMPOTENCY_STORE = 'IDEMPOTENCY_STORE';
+
+/**
+ * Stored outcome of an idempotent request
+ * response is undefined while the original request is still running
+ */
+export interface IdempotencyRecord {
+  fingerprint: string;
+  response?: {
+    statusCode: number;
+    body: unknown;
+    isError: boolean;
+  };
+}
+
+/**
+ * Pluggable storage for Idempotency-Key records (in-memory by default)
+ */
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  /**
+   * Atomically reserve a key - resolves false if it already exists
+   */
+  reserve(key: string, fingerprint: string, ttlMs: number): Promise<boolean>;
+  complete(
+    key: string,
+    response: NonNullable<IdempotencyRecord['response']>,
+    ttlMs: number,
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,50 @@
+/**
+ * Lifecycle of an import job
+ *
+ * - queued: accepted, rows not touched yet
+ * - running: rows are being validated and written
+ * - completed: every row was tried - failed rows are listed in errors
+ * - failed: the job stopped early, see error
+ */
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Why one row of an import was not (or, in a dry run, would not be) written
+ */
+export interface ImportRowError {
+  row: number; // Spreadsheet row: the header is row 1
+  errors: string[];
+}
+
+/**
+ * Progress and results of an import
+ */
+export interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  dryRun: boolean;
+  total: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  errors: ImportRowError[];
+  error?: string;
+  createdAt: Date;
+  finishedAt?: Date;
+}
+
+/**
+ * One data row of an import file, keyed by header
+ */
+export interface ImportRecord {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+/**
+ * How a CSV column is converted before the DTO validates it
+ */
+export type ImportColumnType =
+  | StringConstructor
+  | NumberConstructor
+  | BooleanConstructor;
@@ -0,0 +1,64 @@
+/**
+ * Supported filter operators for list queries
+ * Usage: filter[field][op]=value (filter[field]=value is shorthand for eq)
+ */
+export const FILTER_OPERATORS = [
+  'eq',
+  'ne',
+  'gt',
+  'lt',
+  'in',
+  'contains',
+] as const;
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+/**
+ * Query field configuration interface
+ * Whitelists an entity field for sorting and filtering
+ */
+export interface QueryFieldConfig {
+  type:
+    | StringConstructor
+    | NumberConstructor
+    | BooleanConstructor
+    | DateConstructor;
+  enum?: Record<number, string>; // Optional enum type (values are validated against it)
+  sortable?: boolean; // Defaults to true
+  filterable?: boolean; // Defaults to true
+}
+
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value: unknown;
+}
+
+export interface SortCondition {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+/**
+ * Which soft-deleted rows a list query returns (default 'exclude')
+ */
+export type DeletedScope = 'exclude' | 'include' | 'only';
+
+/**
+ * Parsed and validated list query
+ */
+export interface ListQueryOptions {
+  page: number;
+  limit: number;
+  sort: SortCondition[];
+  filters: FilterCondition[];
+  deleted?: DeletedScope;
+}
+
+/**
+ * A single page of results plus the total number of matches
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+}
@@ -0,0 +1,41 @@
+/**
+ * Injection token for the configured RateLimitStore
+ */
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
+
+/**
+ * fixed-window: limit requests per window, counted from the window's start
+ * token-bucket: bursts of up to limit requests, refilled evenly over the window
+ */
+export type RateLimitStrategy = 'fixed-window' | 'token-bucket';
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowSeconds: number;
+  strategy?: RateLimitStrategy; // Default fixed-window
+}
+
+/**
+ * Outcome of counting one request - the RateLimit-* headers are built from it
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  resetSeconds: number; // Until the full limit is available again
+  retryAfterSeconds: number; // Until the next request is allowed, 0 when allowed
+}
+
+/**
+ * Pluggable storage for rate limit counters (in-memory by default)
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically count one request against a key
+   */
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+
+  /**
+   * Whether one more request would be allowed, without counting it
+   */
+  peek(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
@@ -0,0 +1,35 @@
+import { BaseEntity } from '../base/base-entity';
+import { ListQueryOptions, PaginatedResult } from './list-query.interface';
+import { AggregateQuery, AggregateRow } from './aggregate.interface';
+
+/**
+ * Generic repository interface for entity persistence
+ *
+ * Implemented by InMemoryRepository (tests, prototyping)
+ * and TypeOrmRepository (SQLite or any TypeORM-supported database)
+ *
+ * Soft-deleted rows are hidden from every read unless withDeleted
+ * or ListQueryOptions.deleted asks for them
+ *
+ * update and softDelete with expectedVersion are compare-and-set: they only
+ * write while the row still has that version, and report a miss otherwise.
+ * create throws DuplicateEntryError when a unique index rejects the row
+ * (TypeOrmRepository - InMemoryRepository has no unique indexes)
+ */
+export interface IRepository<T extends BaseEntity> {
+  create(data: Partial<T>): Promise<T>;
+  findAll(): Promise<T[]>;
+  findById(id: number, withDeleted?: boolean): Promise<T | null>;
+  findBy(where: Partial<T>): Promise<T[]>;
+  findPage(query: ListQueryOptions): Promise<PaginatedResult<T>>;
+  update(
+    id: number,
+    data: Partial<T>,
+    expectedVersion?: number,
+  ): Promise<T | null>;
+  softDelete(id: number, expectedVersion?: number): Promise<boolean>;
+  restore(id: number): Promise<boolean>;
+  delete(id: number): Promise<boolean>; // Permanent
+  count(where?: Partial<T>): Promise<number>;
+  aggregate(query: AggregateQuery): Promise<AggregateRow[]>; // Grouped counts and sums, computed by the store
+}
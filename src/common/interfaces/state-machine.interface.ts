@@ -0,0 +1,51 @@
+/**
+ * Arguments passed to guards and entry/exit hooks
+ */
+export interface TransitionContext<TState, TEvent, TContext> {
+  from: TState;
+  to: TState;
+  event: TEvent;
+  context: TContext;
+}
+
+/**
+ * Guard result: true allows the transition, false or a reason string blocks it
+ */
+export type TransitionGuard<TState, TEvent, TContext> = (
+  transition: TransitionContext<TState, TEvent, TContext>,
+) => boolean | string;
+
+export type TransitionHook<TState, TEvent, TContext> = (
+  transition: TransitionContext<TState, TEvent, TContext>,
+) => Promise<void> | void;
+
+/**
+ * Named transition definition
+ * An event may lead to several target states (e.g. process -> completed | failed);
+ * the caller picks the outcome when firing it
+ */
+export interface TransitionDefinition<TState, TEvent, TContext> {
+  event: TEvent;
+  from: TState | TState[];
+  to: TState | TState[];
+  guard?: TransitionGuard<TState, TEvent, TContext>;
+}
+
+/**
+ * Per-state entry/exit hooks
+ */
+export interface StateDefinition<TState, TEvent, TContext> {
+  onEnter?: TransitionHook<TState, TEvent, TContext>;
+  onExit?: TransitionHook<TState, TEvent, TContext>;
+}
+
+export interface StateMachineConfig<
+  TState extends string,
+  TEvent extends string,
+  TContext,
+> {
+  name: string;
+  initial: TState;
+  transitions: TransitionDefinition<TState, TEvent, TContext>[];
+  states?: Partial<Record<TState, StateDefinition<TState, TEvent, TContext>>>;
+}
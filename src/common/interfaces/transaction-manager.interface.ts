@@ -0,0 +1,14 @@
+/**
+ * Injection token for the TransactionManager of the configured database driver
+ */
+export const TRANSACTION_MANAGER = 'TRANSACTION_MANAGER';
+
+/**
+ * Runs a unit of work atomically
+ *
+ * Repositories used inside work() join the transaction automatically;
+ * a thrown error rolls every write back. Nested run() calls join the outer one
+ */
+export interface TransactionManager {
+  run<T>(work: () => Promise<T>): Promise<T>;
+}
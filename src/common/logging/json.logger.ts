@@ -0,0 +1,110 @@
+import type { LoggerService, LogLevel } from '@nestjs/common';
+import type { LoggingConfig } from '../config/logging.config';
+import { getCurrentRequestId } from './request.context';
+import { redact } from './redact';
+
+/**
+ * Nest logger writing one JSON object per line - used app-wide from main.ts
+ *
+ * Every entry has timestamp, level, context and the requestId of the running
+ * request. Object messages (logger.log({ message, ...fields })) add their
+ * fields to the entry; sensitive fields are redacted (see LoggingConfig).
+ * error and fatal go to stderr, everything else to stdout
+ */
+export class JsonLogger implements LoggerService {
+  private levels: Set<LogLevel>;
+  private readonly redactFields: ReadonlySet<string>;
+
+  constructor(config: LoggingConfig) {
+    this.levels = new Set(config.levels);
+    this.redactFields = new Set(
+      config.redactFields.map((field) => field.toLowerCase()),
+    );
+  }
+
+  log(message: unknown, ...params: unknown[]) {
+    this.write('log', message, params);
+  }
+
+  error(message: unknown, ...params: unknown[]) {
+    this.write('error', message, params);
+  }
+
+  warn(message: unknown, ...params: unknown[]) {
+    this.write('warn', message, params);
+  }
+
+  debug(message: unknown, ...params: unknown[]) {
+    this.write('debug', message, params);
+  }
+
+  verbose(message: unknown, ...params: unknown[]) {
+    this.write('verbose', message, params);
+  }
+
+  fatal(message: unknown, ...params: unknown[]) {
+    this.write('fatal', message, params);
+  }
+
+  setLogLevels(levels: LogLevel[]) {
+    this.levels = new Set(levels);
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return this.levels.has(level);
+  }
+
+  /**
+   * Nest passes (message, ...fields, context) and (message, stack, context) for errors
+   */
+  private write(level: LogLevel, message: unknown, params: unknown[]) {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const rest = [...params];
+    const context =
+      typeof rest[rest.length - 1] === 'string' ? rest.pop() : undefined;
+    const severe = level === 'error' || level === 'fatal';
+    const stack =
+      severe && typeof rest[0] === 'string' ? rest.shift() : undefined;
+
+    const entry = redact(
+      Object.assign(
+        {
+          timestamp: new Date().toISOString(),
+          level,
+          context,
+          requestId: getCurrentRequestId(),
+          stack,
+        },
+        toFields(message),
+        ...rest.filter(isRecord),
+      ),
+      this.redactFields,
+    );
+
+    (severe ? process.stderr : process.stdout).write(
+      `${JSON.stringify(entry)}\n`,
+    );
+  }
+}
+
+function toFields(message: unknown): Record<string, unknown> {
+  if (isRecord(message)) {
+    return message;
+  }
+  if (message instanceof Error) {
+    return { message: message.message, stack: message.stack };
+  }
+  return { message: String(message) };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Error)
+  );
+}
@@ -0,0 +1,39 @@
+import {
+  DynamicModule,
+  Global,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+} from '@nestjs/common';
+import { getLoggingConfig } from '../config/logging.config';
+import { JsonLogger } from './json.logger';
+import { RequestLoggingMiddleware } from './request-logging.middleware';
+
+/**
+ * Logging module - request IDs and structured JSON request logs
+ *
+ * Usage (AppModule): imports: [LoggingModule.forRoot()]
+ * main.ts makes JsonLogger the app logger, so every Logger writes JSON with the
+ * current request ID. Without this module, error responses and audit entries
+ * still take X-Request-Id from the request header
+ */
+@Global()
+@Module({})
+export class LoggingModule implements NestModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: LoggingModule,
+      providers: [
+        {
+          provide: JsonLogger,
+          useFactory: () => new JsonLogger(getLoggingConfig()),
+        },
+      ],
+      exports: [JsonLogger],
+    };
+  }
+
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestLoggingMiddleware).forRoutes('{*path}');
+  }
+}
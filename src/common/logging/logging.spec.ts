@@ -0,0 +1,140 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../database/database.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { DomainEventsModule } from '../events/domain-events.module';
+import { LoggingModule } from './logging.module';
+import { getCurrentRequestId } from './request.context';
+import { redact, REDACTED } from './redact';
+import { ValidationPipe } from '../pipes/validation.pipe';
+import { ResponseInterceptor } from '../interceptors/response.interceptor';
+import { AllExceptionsFilter } from '../filters/http-exception.filter';
+import { PaymentModule } from '../../modules/payment/payment.module';
+import { PaymentService } from '../../modules/payment/payment.service';
+
+describe('Logging', () => {
+  it('should redact sensitive fields at any depth', () => {
+    const fields = new Set(['customeremail', 'cardtoken']);
+
+    expect(
+      redact(
+        {
+          items: [{ customerEmail: 'alice@example.com', amount: 10 }],
+          query: { 'filter[customerEmail][eq]': 'bob@example.com' },
+          CardToken: 'tok_visa',
+        },
+        fields,
+      ),
+    ).toEqual({
+      items: [{ customerEmail: REDACTED, amount: 10 }],
+      query: { 'filter[customerEmail][eq]': REDACTED },
+      CardToken: REDACTED,
+    });
+  });
+
+  describe('RequestLoggingMiddleware', () => {
+    let app: INestApplication<App>;
+    let paymentService: PaymentService;
+    let stdout: jest.SpyInstance;
+
+    const entries = () =>
+      stdout.mock.calls.map(
+        ([line]) => JSON.parse(String(line)) as Record<string, unknown>,
+      );
+
+    beforeAll(() => {
+      process.env.LOG_LEVEL = 'debug';
+    });
+
+    afterAll(() => {
+      delete process.env.LOG_LEVEL;
+    });
+
+    beforeEach(async () => {
+      const module = await Test.createTestingModule({
+        imports: [
+          LoggingModule.forRoot(),
+          DatabaseModule.forRoot(),
+          IdempotencyModule.forRoot(),
+          DomainEventsModule.forRoot(),
+          PaymentModule,
+        ],
+      }).compile();
+
+      app = module.createNestApplication();
+      app.useGlobalPipes(new ValidationPipe());
+      app.useGlobalFilters(new AllExceptionsFilter());
+      app.useGlobalInterceptors(new ResponseInterceptor());
+      await app.init();
+
+      paymentService = module.get(PaymentService);
+      stdout = jest.spyOn(process.stdout, 'write').mockReturnValue(true);
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await app.close();
+    });
+
+    it('should log request start and end with the client request ID', async () => {
+      await request(app.getHttpServer())
+        .post('/payments')
+        .set('X-Request-Id', 'req-log')
+        .send({
+          amount: 10,
+          currency: 'USD',
+          customerEmail: 'alice@example.com',
+          customerName: 'Alice Johnson',
+        })
+        .expect(201)
+        .expect('X-Request-Id', 'req-log');
+
+      const [started, completed] = entries();
+      expect(started).toMatchObject({
+        level: 'log',
+        context: 'HTTP',
+        requestId: 'req-log',
+        message: 'Request started',
+        method: 'POST',
+        path: '/payments',
+        body: { amount: 10, customerEmail: REDACTED, customerName: REDACTED },
+      });
+      expect(completed).toMatchObject({
+        requestId: 'req-log',
+        message: 'Request completed',
+        method: 'POST',
+        route: '/payments',
+        status: 201,
+        durationMs: expect.any(Number) as number,
+      });
+      expect(JSON.stringify(entries())).not.toContain('alice@example.com');
+    });
+
+    it('should propagate a generated request ID into services and errors', async () => {
+      let seenByService: string | undefined;
+      jest.spyOn(paymentService, 'findOne').mockImplementation(async () => {
+        await new Promise((resolve) => setImmediate(resolve));
+        seenByService = getCurrentRequestId();
+        throw new Error('database is locked');
+      });
+      jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+
+      const response = await request(app.getHttpServer())
+        .get('/payments/1')
+        .set('X-Request-Id', 'not a valid id')
+        .expect(500);
+
+      const requestId = response.headers['x-request-id'];
+      expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(seenByService).toBe(requestId);
+      expect(response.body).toMatchObject({ correlationId: requestId });
+      expect(entries()[1]).toMatchObject({
+        requestId,
+        route: '/payments/:id',
+        status: 500,
+      });
+    });
+  });
+});
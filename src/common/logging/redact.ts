@@ -0,0 +1,48 @@
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Copy of a value to log, with the values of sensitive fields replaced by [REDACTED]
+ *
+ * Fields are matched case-insensitively by key, at any depth and inside
+ * bracketed query keys (filter[customerEmail][eq]). Only plain objects and
+ * arrays are copied; other values are returned as they are
+ */
+export function redact(
+  value: unknown,
+  fields: ReadonlySet<string>,
+  seen = new WeakSet<object>(),
+): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (!Array.isArray(value) && !isPlainObject(value)) {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, fields, seen));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, member]) => [
+      key,
+      isSensitive(key, fields) ? REDACTED : redact(member, fields, seen),
+    ]),
+  );
+}
+
+function isSensitive(key: string, fields: ReadonlySet<string>): boolean {
+  return key
+    .toLowerCase()
+    .split(/[[\].]/)
+    .some((segment) => fields.has(segment));
+}
+
+function isPlainObject(value: object): value is Record<string, unknown> {
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,63 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { JsonLogger } from './json.logger';
+import {
+  REQUEST_ID_HEADER,
+  requestIdOf,
+  runWithRequestContext,
+} from './request.context';
+
+const CONTEXT = 'HTTP';
+
+/**
+ * Gives each request its X-Request-Id and logs when it starts and ends
+ *
+ * Runs before guards, so the ID covers everything from authentication to the
+ * error response. The rest of the request runs inside its RequestContext.
+ * Request bodies are only logged at the debug level
+ */
+@Injectable()
+export class RequestLoggingMiddleware implements NestMiddleware {
+  constructor(private readonly logger: JsonLogger) {}
+
+  use(request: Request, response: Response, next: NextFunction) {
+    const requestId = requestIdOf(request);
+    const startedAt = performance.now();
+    // request.path is relative to where the middleware is mounted
+    const path = request.originalUrl.split('?')[0];
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+
+    // Emitted outside the request context, hence the explicit requestId
+    response.once('close', () => {
+      this.logger.log(
+        {
+          message: 'Request completed',
+          requestId,
+          method: request.method,
+          route: (request.route as { path?: string } | undefined)?.path ?? null,
+          path,
+          status: response.statusCode,
+          durationMs: Math.round((performance.now() - startedAt) * 100) / 100,
+          ...(response.writableFinished ? {} : { aborted: true }),
+        },
+        CONTEXT,
+      );
+    });
+
+    runWithRequestContext({ requestId }, () => {
+      this.logger.log(
+        {
+          message: 'Request started',
+          method: request.method,
+          path,
+          query: request.query,
+          ...(this.logger.isLevelEnabled('debug')
+            ? { body: request.body as unknown }
+            : {}),
+        },
+        CONTEXT,
+      );
+      next();
+    });
+  }
+}
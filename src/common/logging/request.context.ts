@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { Request } from 'express';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Client IDs end up in logs and audit entries - anything else is replaced
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Request the current work runs for - set per HTTP request by RequestLoggingMiddleware
+ *
+ * Stays set across awaits, so services, loggers and audit entries pick up the
+ * request ID without passing it around
+ */
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(
+  context: RequestContext,
+  callback: () => T,
+): T {
+  return storage.run(context, callback);
+}
+
+/**
+ * ID of the running request - undefined for scheduled jobs and other background work
+ */
+export function getCurrentRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * ID of a request - the current one, else a valid X-Request-Id header, else a new UUID
+ */
+export function requestIdOf(request: Request): string {
+  const header = request.header(REQUEST_ID_HEADER);
+  return (
+    getCurrentRequestId() ??
+    (header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID())
+  );
+}
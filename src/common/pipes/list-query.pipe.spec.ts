@@ -0,0 +1,98 @@
+import { BadRequestException } from '@nestjs/common';
+import { ListQueryPipe } from './list-query.pipe';
+
+enum Color {
+  RED = 'red',
+  BLUE = 'blue',
+}
+
+describe('ListQueryPipe', () => {
+  const pipe = new ListQueryPipe({
+    amount: { type: Number },
+    name: { type: String },
+    color: { type: String, enum: Color },
+    note: { type: String, sortable: false },
+  });
+
+  it('should apply defaults', () => {
+    expect(pipe.transform({})).toEqual({
+      page: 1,
+      limit: 20,
+      sort: [],
+      filters: [],
+      deleted: 'exclude',
+    });
+  });
+
+  it('should parse the soft-deleted scope', () => {
+    expect(pipe.transform({ includeDeleted: 'true' }).deleted).toBe('include');
+    expect(pipe.transform({ onlyDeleted: 'true' }).deleted).toBe('only');
+    expect(() => pipe.transform({ includeDeleted: 'yes' })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should parse page, limit and sort', () => {
+    const query = pipe.transform({
+      page: '2',
+      limit: '5',
+      sort: '-createdAt,amount',
+    });
+
+    expect(query.page).toBe(2);
+    expect(query.limit).toBe(5);
+    expect(query.sort).toEqual([
+      { field: 'createdAt', direction: 'DESC' },
+      { field: 'amount', direction: 'ASC' },
+    ]);
+  });
+
+  it('should parse flat and nested filter params', () => {
+    const query = pipe.transform({
+      'filter[amount][gt]': '100',
+      'filter[name]': 'alice',
+      filter: { color: { in: 'red,blue' } },
+    });
+
+    expect(query.filters).toEqual([
+      { field: 'amount', operator: 'gt', value: 100 },
+      { field: 'name', operator: 'eq', value: 'alice' },
+      { field: 'color', operator: 'in', value: ['red', 'blue'] },
+    ]);
+  });
+
+  it('should convert date values', () => {
+    const query = pipe.transform({
+      'filter[createdAt][lt]': '2024-01-01T00:00:00.000Z',
+    });
+
+    expect(query.filters[0].value).toEqual(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  it.each([
+    [{ page: '0' }, 'page must be a positive integer'],
+    [{ limit: '500' }, 'limit must not be greater than 100'],
+    [{ sort: 'note' }, "Cannot sort by 'note'"],
+    [{ sort: 'password' }, "Cannot sort by 'password'"],
+    [{ 'filter[secret]': 'x' }, "Cannot filter by 'secret'"],
+    [{ 'filter[amount][gt]': 'abc' }, 'filter[amount][gt] must be a number'],
+    [{ 'filter[amount][like]': '1' }, 'filter[amount][like]: unknown operator'],
+    [{ 'filter[amount][contains]': '1' }, "'contains' is only supported"],
+    [{ 'filter[name][gt]': 'a' }, "'gt' requires a number or date field"],
+    [
+      { 'filter[color]': 'green' },
+      'filter[color][eq] must be one of red, blue',
+    ],
+  ])('should reject %j', (raw, message) => {
+    try {
+      pipe.transform(raw);
+      fail('expected BadRequestException');
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      const response = (error as BadRequestException).getResponse() as {
+        message: string[];
+      };
+      expect(response.message.join()).toContain(message);
+    }
+  });
+});
@@ -0,0 +1,280 @@
+import { BadRequestException, PipeTransform } from '@nestjs/common';
+import {
+  DeletedScope,
+  FILTER_OPERATORS,
+  FilterCondition,
+  FilterOperator,
+  ListQueryOptions,
+  QueryFieldConfig,
+  SortCondition,
+} from '../interfaces/list-query.interface';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Fields every entity exposes through BaseEntity
+ */
+const BASE_QUERY_FIELDS: Record<string, QueryFieldConfig> = {
+  id: { type: Number },
+  createdAt: { type: Date },
+  updatedAt: { type: Date },
+  deletedAt: { type: Date },
+};
+
+const FILTER_KEY_PATTERN = /^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/;
+
+type RawFilter = { field: string; operator: string; raw: unknown };
+
+/**
+ * Parses and validates the list query DSL against whitelisted fields
+ *
+ * - page=2&limit=50
+ * - sort=-createdAt,amount
+ * - filter[status][in]=pending,failed&filter[amount][gt]=100
+ * - includeDeleted=true (live and soft-deleted) or onlyDeleted=true (trash)
+ *
+ * Throws BadRequestException listing every invalid parameter
+ */
+export class ListQueryPipe
+  implements PipeTransform<Record<string, unknown>, ListQueryOptions>
+{
+  private readonly fields: Record<string, QueryFieldConfig>;
+
+  constructor(fields: Record<string, QueryFieldConfig> = {}) {
+    this.fields = { ...BASE_QUERY_FIELDS, ...fields };
+  }
+
+  transform(query: Record<string, unknown> = {}): ListQueryOptions {
+    const errors: string[] = [];
+
+    const page = this.parsePositiveInt(query.page, 'page', 1, errors);
+    const limit = this.parsePositiveInt(
+      query.limit,
+      'limit',
+      DEFAULT_PAGE_LIMIT,
+      errors,
+    );
+    if (limit > MAX_PAGE_LIMIT) {
+      errors.push(`limit must not be greater than ${MAX_PAGE_LIMIT}`);
+    }
+
+    const sort = this.parseSort(query.sort, errors);
+    const filters = this.collectFilters(query)
+      .map((filter) => this.parseFilter(filter, errors))
+      .filter((filter): filter is FilterCondition => filter !== null);
+
+    const deleted = this.parseDeletedScope(query, errors);
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    return { page, limit, sort, filters, deleted };
+  }
+
+  private parseDeletedScope(
+    query: Record<string, unknown>,
+    errors: string[],
+  ): DeletedScope {
+    const includeDeleted = this.parseFlag(
+      query.includeDeleted,
+      'includeDeleted',
+      errors,
+    );
+    const onlyDeleted = this.parseFlag(
+      query.onlyDeleted,
+      'onlyDeleted',
+      errors,
+    );
+
+    if (onlyDeleted) {
+      return 'only';
+    }
+    return includeDeleted ? 'include' : 'exclude';
+  }
+
+  private parseFlag(raw: unknown, name: string, errors: string[]): boolean {
+    if (raw === undefined || raw === '') {
+      return false;
+    }
+    if (raw !== 'true' && raw !== 'false') {
+      errors.push(`${name} must be true or false`);
+    }
+    return raw === 'true';
+  }
+
+  private parsePositiveInt(
+    raw: unknown,
+    name: string,
+    defaultValue: number,
+    errors: string[],
+  ): number {
+    if (raw === undefined || raw === '') {
+      return defaultValue;
+    }
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1) {
+      errors.push(`${name} must be a positive integer`);
+      return defaultValue;
+    }
+
+    return value;
+  }
+
+  private parseSort(raw: unknown, errors: string[]): SortCondition[] {
+    if (raw === undefined || raw === '') {
+      return [];
+    }
+
+    if (typeof raw !== 'string' && !Array.isArray(raw)) {
+      errors.push('sort must be a comma-separated list of fields');
+      return [];
+    }
+
+    const tokens = (Array.isArray(raw) ? raw.join(',') : raw)
+      .split(',')
+      .map((token) => token.trim())
+      .filter(Boolean);
+
+    const sort: SortCondition[] = [];
+    for (const token of tokens) {
+      const descending = token.startsWith('-');
+      const field = descending ? token.slice(1) : token;
+      const config = this.fields[field];
+
+      if (!config || config.sortable === false) {
+        errors.push(`Cannot sort by '${field}'`);
+        continue;
+      }
+
+      sort.push({ field, direction: descending ? 'DESC' : 'ASC' });
+    }
+
+    return sort;
+  }
+
+  /**
+   * Supports both the flat keys of the simple query parser
+   * ('filter[amount][gt]') and the nested object of the extended one
+   */
+  private collectFilters(query: Record<string, unknown>): RawFilter[] {
+    const filters: RawFilter[] = [];
+
+    for (const [key, raw] of Object.entries(query)) {
+      const match = FILTER_KEY_PATTERN.exec(key);
+      if (match) {
+        filters.push({ field: match[1], operator: match[2] ?? 'eq', raw });
+      }
+    }
+
+    const nested = query.filter;
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      for (const [field, value] of Object.entries(
+        nested as Record<string, unknown>,
+      )) {
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+          for (const [operator, raw] of Object.entries(
+            value as Record<string, unknown>,
+          )) {
+            filters.push({ field, operator, raw });
+          }
+        } else {
+          filters.push({ field, operator: 'eq', raw: value });
+        }
+      }
+    }
+
+    return filters;
+  }
+
+  private parseFilter(
+    { field, operator, raw }: RawFilter,
+    errors: string[],
+  ): FilterCondition | null {
+    const config = this.fields[field];
+    const param = `filter[${field}][${operator}]`;
+
+    if (!config || config.filterable === false) {
+      errors.push(`Cannot filter by '${field}'`);
+      return null;
+    }
+
+    if (!FILTER_OPERATORS.includes(operator as FilterOperator)) {
+      errors.push(
+        `${param}: unknown operator, expected one of ${FILTER_OPERATORS.join(', ')}`,
+      );
+      return null;
+    }
+
+    const isText = config.type === String && !config.enum;
+    const isOrdered = config.type === Number || config.type === Date;
+
+    if (operator === 'contains' && !isText) {
+      errors.push(`${param}: 'contains' is only supported on text fields`);
+      return null;
+    }
+
+    if ((operator === 'gt' || operator === 'lt') && !isOrdered) {
+      errors.push(`${param}: '${operator}' requires a number or date field`);
+      return null;
+    }
+
+    if (operator === 'in') {
+      const values = (Array.isArray(raw) ? raw : [raw])
+        .flatMap((value) => String(value).split(','))
+        .map((value) => this.convertValue(value.trim(), config, param, errors));
+      return { field, operator, value: values };
+    }
+
+    if (Array.isArray(raw) || (raw !== null && typeof raw === 'object')) {
+      errors.push(`${param} must be a single value`);
+      return null;
+    }
+
+    return {
+      field,
+      operator: operator as FilterOperator,
+      value: this.convertValue(String(raw), config, param, errors),
+    };
+  }
+
+  private convertValue(
+    raw: string,
+    config: QueryFieldConfig,
+    param: string,
+    errors: string[],
+  ): unknown {
+    if (config.type === Number) {
+      const value = Number(raw);
+      if (raw === '' || Number.isNaN(value)) {
+        errors.push(`${param} must be a number`);
+      }
+      return value;
+    }
+
+    if (config.type === Date) {
+      const value = new Date(raw);
+      if (Number.isNaN(value.getTime())) {
+        errors.push(`${param} must be a valid date`);
+      }
+      return value;
+    }
+
+    if (config.type === Boolean) {
+      if (raw !== 'true' && raw !== 'false') {
+        errors.push(`${param} must be true or false`);
+      }
+      return raw === 'true';
+    }
+
+    if (config.enum && !Object.values(config.enum).includes(raw)) {
+      errors.push(
+        `${param} must be one of ${Object.values(config.enum).join(', ')}`,
+      );
+    }
+
+    return raw;
+  }
+}
@@ -1,8 +1,9 @@
 import { ValidationPipe as NestValidationPipe } from '@nestjs/common';
+import { ValidationFailedError } from '../errors/validation-failed.error';
 
 /**
  * Custom validation pipe with default configuration
- * Can be extended with additional validation logic if needed
+ * Failures throw ValidationFailedError (VALIDATION_FAILED) with one entry per field and constraint
  */
 export class ValidationPipe extends NestValidationPipe {
   constructor() {
@@ -13,7 +14,8 @@ export class ValidationPipe extends NestValidationPipe {
       transformOptions: {
         enableImplicitConversion: true,
       },
+      exceptionFactory: (errors) =>
+        ValidationFailedError.fromValidationErrors(errors),
     });
   }
 }
-
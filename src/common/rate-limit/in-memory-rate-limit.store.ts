@@ -0,0 +1,71 @@
+import type {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+} from '../interfaces/rate-limit-store.interface';
+import {
+  RateLimitCounter,
+  consumeRateLimit,
+  rateLimitCounterExpiresAt,
+} from './rate-limit.strategies';
+
+interface Entry {
+  counter: RateLimitCounter;
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * In-memory rate limit store
+ *
+ * Counters are lost on restart and not shared between instances - each
+ * instance allows the full limit. Provide a shared store (e.g. Redis)
+ * through RateLimitModule.forRoot in production
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, Entry>();
+  private nextSweepAt = 0;
+
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const { counter, result } = consumeRateLimit(
+      this.entries.get(key)?.counter,
+      policy,
+      now,
+    );
+    this.entries.set(key, {
+      counter,
+      expiresAt: rateLimitCounterExpiresAt(counter, policy),
+    });
+
+    return Promise.resolve(result);
+  }
+
+  peek(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const { result } = consumeRateLimit(
+      this.entries.get(key)?.counter,
+      policy,
+      Date.now(),
+    );
+    return Promise.resolve(result);
+  }
+
+  /**
+   * Drop counters that no longer limit anything, at most once a minute
+   */
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
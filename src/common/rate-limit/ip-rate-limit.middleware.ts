@@ -0,0 +1,52 @@
+import { Inject, Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { getIpRateLimitConfig } from '../config/rate-limit.config';
+import { RATE_LIMIT_STORE } from '../interfaces/rate-limit-store.interface';
+import type { RateLimitStore } from '../interfaces/rate-limit-store.interface';
+import { applyRateLimitResult } from './rate-limit.response';
+
+/**
+ * Counts requests failing authentication (401) against their IP
+ *
+ * RateLimitGuard runs after AuthGuard, so requests without valid credentials
+ * never reach it; this limit covers them. Once an IP used it up, its requests
+ * are refused before authentication, so credentials cannot be guessed on -
+ * valid ones included, as clients behind one address share it. Only a 429
+ * carries its RateLimit-* headers - the per-client ones are set by RateLimitGuard
+ */
+@Injectable()
+export class IpRateLimitMiddleware implements NestMiddleware {
+  private readonly logger = new Logger(IpRateLimitMiddleware.name);
+  private readonly policy = getIpRateLimitConfig();
+
+  constructor(
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+  ) {}
+
+  async use(request: Request, response: Response, next: NextFunction) {
+    const policy = this.policy;
+    if (!policy) {
+      return next();
+    }
+
+    const key = `failed-auth:ip:${request.ip}`;
+    const result = await this.store.peek(key, policy);
+    const exceeded = result.allowed
+      ? null
+      : applyRateLimitResult(response, policy, result);
+    if (exceeded) {
+      throw exceeded;
+    }
+
+    response.on('finish', () => {
+      if (response.statusCode === 401) {
+        this.store.consume(key, policy).catch((err: unknown) => {
+          this.logger.error(
+            `Could not count a failed authentication: ${String(err)}`,
+          );
+        });
+      }
+    });
+    next();
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  DynamicModule,
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+} from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { RATE_LIMIT_STORE } from '../interfaces/rate-limit-store.interface';
+import type { RateLimitStore } from '../interfaces/rate-limit-store.interface';
+import { RateLimitGuard } from '../guards/rate-limit.guard';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { IpRateLimitMiddleware } from './ip-rate-limit.middleware';
+
+/**
+ * Rate limit module - limits every route per client
+ *
+ * Usage (AppModule, after AuthModule.forRoot() so clients are known): imports: [RateLimitModule.forRoot()]
+ * Custom store: RateLimitModule.forRoot({ store: new RedisRateLimitStore(...) })
+ * The global default comes from rate-limit.config.ts, per-route limits from @RateLimit()
+ * Requests failing authentication also count against their IP (IpRateLimitMiddleware)
+ */
+@Module({})
+export class RateLimitModule implements NestModule {
+  static forRoot(options: { store?: RateLimitStore } = {}): DynamicModule {
+    return {
+      module: RateLimitModule,
+      providers: [
+        {
+          provide: RATE_LIMIT_STORE,
+          useValue: options.store ?? new InMemoryRateLimitStore(),
+        },
+        { provide: APP_GUARD, useClass: RateLimitGuard },
+      ],
+    };
+  }
+
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(IpRateLimitMiddleware).forRoutes('{*path}');
+  }
+}
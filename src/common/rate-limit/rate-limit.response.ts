@@ -0,0 +1,34 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Response } from 'express';
+import type {
+  RateLimitPolicy,
+  RateLimitResult,
+} from '../interfaces/rate-limit-store.interface';
+
+/**
+ * Sets the RateLimit-* headers of a counted request and, when it is over
+ * the limit, Retry-After - returns the 429 to throw in that case
+ */
+export function applyRateLimitResult(
+  response: Response,
+  policy: RateLimitPolicy,
+  result: RateLimitResult,
+): HttpException | null {
+  response.setHeader('RateLimit-Limit', policy.limit);
+  response.setHeader('RateLimit-Remaining', result.remaining);
+  response.setHeader('RateLimit-Reset', result.resetSeconds);
+  response.setHeader(
+    'RateLimit-Policy',
+    `${policy.limit};w=${policy.windowSeconds}`,
+  );
+
+  if (result.allowed) {
+    return null;
+  }
+
+  response.setHeader('Retry-After', result.retryAfterSeconds);
+  return new HttpException(
+    `Rate limit exceeded - retry in ${result.retryAfterSeconds} seconds`,
+    HttpStatus.TOO_MANY_REQUESTS,
+  );
+}
@@ -0,0 +1,202 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../database/database.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { DomainEventsModule } from '../events/domain-events.module';
+import { AuthModule } from '../auth/auth.module';
+import { RateLimitModule } from './rate-limit.module';
+import { consumeRateLimit, RateLimitCounter } from './rate-limit.strategies';
+import type { RateLimitPolicy } from '../interfaces/rate-limit-store.interface';
+import { ValidationPipe } from '../pipes/validation.pipe';
+import { ResponseInterceptor } from '../interceptors/response.interceptor';
+import { HttpExceptionFilter } from '../filters/http-exception.filter';
+import { PaymentModule } from '../../modules/payment/payment.module';
+
+describe('Rate limiting', () => {
+  /**
+   * Consume at each time (ms) and collect [allowed, remaining, retryAfterSeconds]
+   */
+  const run = (policy: RateLimitPolicy, times: number[]) => {
+    let counter: RateLimitCounter | undefined;
+    return times.map((now) => {
+      const consumed = consumeRateLimit(counter, policy, now);
+      counter = consumed.counter;
+      const { allowed, remaining, retryAfterSeconds } = consumed.result;
+      return [allowed, remaining, retryAfterSeconds];
+    });
+  };
+
+  it('should count fixed windows from their start', () => {
+    const policy: RateLimitPolicy = { limit: 2, windowSeconds: 10 };
+
+    expect(run(policy, [0, 1_000, 2_000, 9_999, 10_000])).toEqual([
+      [true, 1, 0],
+      [true, 0, 0],
+      [false, 0, 8],
+      [false, 0, 1],
+      [true, 1, 0],
+    ]);
+  });
+
+  it('should refill token buckets evenly over the window', () => {
+    const policy: RateLimitPolicy = {
+      limit: 2,
+      windowSeconds: 10,
+      strategy: 'token-bucket',
+    };
+
+    // One token every 5 seconds
+    expect(run(policy, [0, 0, 1_000, 5_000, 20_000])).toEqual([
+      [true, 1, 0],
+      [true, 0, 0],
+      [false, 0, 4],
+      [true, 0, 0],
+      [true, 1, 0],
+    ]);
+  });
+
+  describe('RateLimitGuard', () => {
+    const signer = new JwtService({ secret: 'rate-limit-spec-secret' });
+    const token = (sub: string) => `Bearer ${signer.sign({ sub })}`;
+
+    let app: INestApplication<App>;
+
+    beforeAll(() => {
+      process.env.JWT_SECRET = 'rate-limit-spec-secret';
+      process.env.RATE_LIMIT_MAX = '2';
+    });
+
+    afterAll(() => {
+      delete process.env.JWT_SECRET;
+      delete process.env.RATE_LIMIT_MAX;
+    });
+
+    const createApp = async () => {
+      const module = await Test.createTestingModule({
+        imports: [
+          DatabaseModule.forRoot(),
+          IdempotencyModule.forRoot(),
+          DomainEventsModule.forRoot(),
+          AuthModule.forRoot(),
+          RateLimitModule.forRoot(),
+          PaymentModule,
+        ],
+      }).compile();
+
+      app = module.createNestApplication();
+      app.useGlobalPipes(new ValidationPipe());
+      app.useGlobalFilters(new HttpExceptionFilter());
+      app.useGlobalInterceptors(new ResponseInterceptor());
+      await app.init();
+    };
+
+    beforeEach(createApp);
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    it('should answer 429 with RateLimit headers once a user used the default limit', async () => {
+      const server = app.getHttpServer();
+      const alice = token('alice');
+
+      await request(server)
+        .get('/payments')
+        .set('Authorization', alice)
+        .expect(200)
+        .expect('RateLimit-Limit', '2')
+        .expect('RateLimit-Remaining', '1')
+        .expect('RateLimit-Policy', '2;w=60');
+      await request(server)
+        .get('/payments')
+        .set('Authorization', alice)
+        .expect(200)
+        .expect('RateLimit-Remaining', '0');
+
+      const limited = await request(server)
+        .get('/payments')
+        .set('Authorization', alice)
+        .expect(429)
+        .expect('RateLimit-Remaining', '0');
+      expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+      expect(limited.body).toMatchObject({
+        status: 429,
+        instance: '/payments',
+        code: 'TOO_MANY_REQUESTS',
+        detail: expect.stringMatching(/^Rate limit exceeded/) as string,
+      });
+
+      // Counted per client
+      await request(server)
+        .get('/payments')
+        .set('Authorization', token('bob'))
+        .expect(200);
+    });
+
+    it('should count routes with their own limit separately', async () => {
+      const server = app.getHttpServer();
+      const carol = token('carol');
+
+      for (let attempt = 0; attempt < 10; attempt++) {
+        await request(server)
+          .post('/payments/999/process')
+          .set('Authorization', carol)
+          .send({})
+          .expect(404)
+          .expect('RateLimit-Limit', '10');
+      }
+      await request(server)
+        .post('/payments/999/process')
+        .set('Authorization', carol)
+        .send({})
+        .expect(429)
+        .expect('Retry-After', '6');
+
+      await request(server)
+        .get('/payments')
+        .set('Authorization', carol)
+        .expect(200)
+        .expect('RateLimit-Remaining', '1');
+    });
+
+    it('should count requests failing authentication per IP', async () => {
+      await app.close();
+      process.env.RATE_LIMIT_IP_MAX = '3';
+      try {
+        await createApp();
+      } finally {
+        delete process.env.RATE_LIMIT_IP_MAX;
+      }
+      const server = app.getHttpServer();
+
+      // Authenticated requests do not count against the IP
+      for (const user of ['alice', 'bob', 'carol']) {
+        await request(server)
+          .get('/payments')
+          .set('Authorization', token(user))
+          .expect(200);
+      }
+      for (let attempt = 0; attempt < 2; attempt++) {
+        await request(server)
+          .get('/payments')
+          .set('Authorization', 'Bearer forged')
+          .expect(401);
+      }
+      await request(server).get('/payments').expect(401);
+
+      const limited = await request(server)
+        .get('/payments')
+        .set('Authorization', token('dave'))
+        .expect(429)
+        .expect('RateLimit-Policy', '3;w=60');
+      expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+      expect(limited.body).toMatchObject({
+        status: 429,
+        code: 'TOO_MANY_REQUESTS',
+      });
+    });
+  });
+});
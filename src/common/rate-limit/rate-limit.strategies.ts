@@ -0,0 +1,88 @@
+import type {
+  RateLimitPolicy,
+  RateLimitResult,
+} from '../interfaces/rate-limit-store.interface';
+
+/**
+ * Counter of one key - a fixed window count or a token bucket level
+ */
+export interface RateLimitCounter {
+  value: number;
+  updatedAt: number; // Epoch ms: window start, or last bucket refill
+}
+
+/**
+ * Pure rate limit algorithms - a store keeps the counters and must read
+ * and write them atomically; returns the counter to store and the outcome
+ */
+export function consumeRateLimit(
+  counter: RateLimitCounter | undefined,
+  policy: RateLimitPolicy,
+  now: number,
+): { counter: RateLimitCounter; result: RateLimitResult } {
+  return policy.strategy === 'token-bucket'
+    ? consumeToken(counter, policy, now)
+    : consumeFixedWindow(counter, policy, now);
+}
+
+/**
+ * When a counter no longer limits anything and can be dropped
+ */
+export function rateLimitCounterExpiresAt(
+  counter: RateLimitCounter,
+  policy: RateLimitPolicy,
+): number {
+  const windowMs = policy.windowSeconds * 1000;
+  return policy.strategy === 'token-bucket'
+    ? counter.updatedAt + (counter.value / policy.limit) * windowMs
+    : counter.updatedAt + windowMs;
+}
+
+function consumeFixedWindow(
+  counter: RateLimitCounter | undefined,
+  { limit, windowSeconds }: RateLimitPolicy,
+  now: number,
+): { counter: RateLimitCounter; result: RateLimitResult } {
+  const windowMs = windowSeconds * 1000;
+  const windowStart = now - (now % windowMs);
+  const count = counter?.updatedAt === windowStart ? counter.value : 0;
+  const allowed = count < limit;
+  const resetSeconds = Math.ceil((windowStart + windowMs - now) / 1000);
+
+  return {
+    counter: { value: allowed ? count + 1 : count, updatedAt: windowStart },
+    result: {
+      allowed,
+      remaining: Math.max(limit - count - 1, 0),
+      resetSeconds,
+      retryAfterSeconds: allowed ? 0 : resetSeconds,
+    },
+  };
+}
+
+/**
+ * value counts used tokens, so an empty counter is a full bucket
+ */
+function consumeToken(
+  counter: RateLimitCounter | undefined,
+  { limit, windowSeconds }: RateLimitPolicy,
+  now: number,
+): { counter: RateLimitCounter; result: RateLimitResult } {
+  const msPerToken = (windowSeconds * 1000) / limit;
+  const refilled = counter ? (now - counter.updatedAt) / msPerToken : 0;
+  const used = Math.max((counter?.value ?? 0) - refilled, 0);
+  const allowed = used + 1 <= limit;
+  const usedAfter = allowed ? used + 1 : used;
+
+  return {
+    counter: { value: usedAfter, updatedAt: now },
+    result: {
+      allowed,
+      remaining: Math.floor(limit - usedAfter),
+      resetSeconds: Math.ceil((usedAfter * msPerToken) / 1000),
+      retryAfterSeconds: allowed
+        ? 0
+        : Math.ceil(((used + 1 - limit) * msPerToken) / 1000),
+    },
+  };
+}
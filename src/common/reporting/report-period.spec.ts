@@ -0,0 +1,87 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  getReportPeriods,
+  isValidTimeZone,
+  MAX_REPORT_PERIODS,
+  startOfDay,
+  todayIn,
+} from './report-period';
+
+describe('report periods', () => {
+  it('should find the start of a local day across daylight saving time', () => {
+    expect(startOfDay('2024-03-30', 'Europe/Berlin').toISOString()).toBe(
+      '2024-03-29T23:00:00.000Z',
+    );
+    expect(startOfDay('2024-04-01', 'Europe/Berlin').toISOString()).toBe(
+      '2024-03-31T22:00:00.000Z',
+    );
+    expect(startOfDay('2024-03-10', 'America/New_York').toISOString()).toBe(
+      '2024-03-10T05:00:00.000Z',
+    );
+  });
+
+  it('should tell today in a time zone', () => {
+    const now = new Date('2024-06-30T23:30:00Z');
+
+    expect(todayIn('UTC', now)).toBe('2024-06-30');
+    expect(todayIn('Asia/Tokyo', now)).toBe('2024-07-01');
+  });
+
+  it('should validate time zone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+
+  it('should split a range into weeks starting on Monday', () => {
+    const { labels, boundaries } = getReportPeriods(
+      '2024-05-01',
+      '2024-05-14',
+      'UTC',
+      'week',
+    );
+
+    expect(labels).toEqual(['2024-04-29', '2024-05-06', '2024-05-13']);
+    expect(boundaries.map((boundary) => boundary.toISOString())).toEqual([
+      '2024-05-01T00:00:00.000Z',
+      '2024-05-06T00:00:00.000Z',
+      '2024-05-13T00:00:00.000Z',
+      '2024-05-15T00:00:00.000Z',
+    ]);
+  });
+
+  it('should split a range into local months', () => {
+    const { labels, boundaries } = getReportPeriods(
+      '2024-02-15',
+      '2024-03-31',
+      'Europe/Berlin',
+      'month',
+    );
+
+    expect(labels).toEqual(['2024-02-01', '2024-03-01']);
+    expect(boundaries.map((boundary) => boundary.toISOString())).toEqual([
+      '2024-02-14T23:00:00.000Z',
+      '2024-02-29T23:00:00.000Z',
+      '2024-03-31T22:00:00.000Z',
+    ]);
+  });
+
+  it('should keep a range without a period as one period', () => {
+    const { labels, boundaries } = getReportPeriods(
+      '2024-01-01',
+      '2024-12-31',
+      'UTC',
+    );
+
+    expect(labels).toEqual([null]);
+    expect(boundaries).toHaveLength(2);
+  });
+
+  it('should reject ranges with too many periods', () => {
+    expect(() =>
+      getReportPeriods('2023-01-01', '2024-12-31', 'UTC', 'day'),
+    ).toThrow(BadRequestException);
+    expect(
+      getReportPeriods('2024-01-01', '2024-12-31', 'UTC', 'day').labels,
+    ).toHaveLength(MAX_REPORT_PERIODS);
+  });
+});
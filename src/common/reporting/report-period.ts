@@ -0,0 +1,167 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Calendar periods a report can be split into - weeks start on Monday (ISO 8601)
+ */
+export const REPORT_PERIODS = ['day', 'week', 'month'] as const;
+
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+/**
+ * Most periods a single report may contain
+ */
+export const MAX_REPORT_PERIODS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Periods of a report range, as instants for the repository and labels for the response
+ *
+ * boundaries has one more entry than labels: period i covers
+ * [boundaries[i], boundaries[i + 1]). Labels are local start dates; the first
+ * period starts at the range start even when its week or month began earlier
+ */
+export interface ReportPeriods {
+  labels: (string | null)[];
+  boundaries: Date[];
+}
+
+/**
+ * Whether the runtime knows an IANA time zone such as Europe/Berlin
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in a time zone
+ */
+export function todayIn(timeZone: string, now = new Date()): string {
+  const { year, month, day } = getZonedParts(now, timeZone);
+  return formatDate(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Shift a YYYY-MM-DD date by whole days
+ */
+export function addDays(date: string, days: number): string {
+  return formatDate(parseDate(date) + days * DAY_MS);
+}
+
+/**
+ * The instant a local date starts in a time zone, daylight saving time included
+ */
+export function startOfDay(date: string, timeZone: string): Date {
+  const localMidnight = parseDate(date);
+  const guess = localMidnight - getOffset(new Date(localMidnight), timeZone);
+  return new Date(localMidnight - getOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Split the local dates from..to (both included) into periods
+ * Without a period the whole range is one unlabelled period
+ */
+export function getReportPeriods(
+  from: string,
+  to: string,
+  timeZone: string,
+  period?: ReportPeriod,
+): ReportPeriods {
+  const end = addDays(to, 1);
+  const starts = period ? listPeriodStarts(from, end, period) : [from];
+
+  if (starts.length > MAX_REPORT_PERIODS) {
+    throw new BadRequestException([
+      `The range has ${starts.length} ${period}s, at most ${MAX_REPORT_PERIODS} allowed - use a longer period or a shorter range`,
+    ]);
+  }
+
+  return {
+    labels: period ? starts : [null],
+    boundaries: [
+      startOfDay(from, timeZone),
+      ...starts.slice(1).map((start) => startOfDay(start, timeZone)),
+      startOfDay(end, timeZone),
+    ],
+  };
+}
+
+function listPeriodStarts(
+  from: string,
+  end: string,
+  period: ReportPeriod,
+): string[] {
+  const cursor = new Date(parseDate(from));
+  if (period === 'week') {
+    cursor.setUTCDate(cursor.getUTCDate() - ((cursor.getUTCDay() + 6) % 7));
+  } else if (period === 'month') {
+    cursor.setUTCDate(1);
+  }
+
+  // One past the limit is enough to report the range as too long
+  const starts: string[] = [];
+  let start = formatDate(cursor.getTime());
+  while (start < end && starts.length <= MAX_REPORT_PERIODS) {
+    starts.push(start);
+    if (period === 'month') {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    } else {
+      cursor.setUTCDate(cursor.getUTCDate() + (period === 'week' ? 7 : 1));
+    }
+    start = formatDate(cursor.getTime());
+  }
+
+  return starts;
+}
+
+/**
+ * Milliseconds the time zone is ahead of UTC at an instant
+ */
+function getOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(
+    instant,
+    timeZone,
+  );
+  const asUtc = Date.UTC(year, month - 1, day, hour % 24, minute, second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+function getZonedParts(
+  instant: Date,
+  timeZone: string,
+): Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const value = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    hour: value('hour'),
+    minute: value('minute'),
+    second: value('second'),
+  };
+}
+
+function parseDate(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,40 @@
+import { BaseEntity } from '../base/base-entity';
+import { InMemoryRepository } from './in-memory.repository';
+
+class Item extends BaseEntity {
+  name: string;
+  active: boolean;
+}
+
+describe('InMemoryRepository', () => {
+  let repository: InMemoryRepository<Item>;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository<Item>();
+  });
+
+  it('should assign ids and timestamps on create', async () => {
+    const first = await repository.create({ name: 'first', active: true });
+    const second = await repository.create({ name: 'second', active: false });
+
+    expect(first.id).toBe(1);
+    expect(second.id).toBe(2);
+    expect(first.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should find, update, count and delete items', async () => {
+    const item = await repository.create({ name: 'item', active: true });
+    await repository.create({ name: 'other', active: false });
+
+    expect(await repository.findBy({ active: true })).toHaveLength(1);
+    expect(await repository.count()).toBe(2);
+
+    const updated = await repository.update(item.id, { name: 'renamed' });
+    expect(updated?.name).toBe('renamed');
+    expect(await repository.update(99, { name: 'missing' })).toBeNull();
+
+    expect(await repository.delete(item.id)).toBe(true);
+    expect(await repository.findById(item.id)).toBeNull();
+    expect(await repository.delete(item.id)).toBe(false);
+  });
+});
@@ -0,0 +1,278 @@
+import { BaseEntity } from '../base/base-entity';
+import { IRepository } from '../interfaces/repository.interface';
+import {
+  FilterCondition,
+  ListQueryOptions,
+  PaginatedResult,
+  SortCondition,
+} from '../interfaces/list-query.interface';
+import {
+  AggregatePeriods,
+  AggregateQuery,
+  AggregateRow,
+} from '../interfaces/aggregate.interface';
+
+export interface InMemorySnapshot<T> {
+  items: T[];
+  idCounter: number;
+}
+
+/**
+ * In-memory repository implementation
+ *
+ * Data lives only for the lifetime of the process.
+ * Useful for unit tests and quick prototyping without a database.
+ */
+export class InMemoryRepository<T extends BaseEntity>
+  implements IRepository<T>
+{
+  protected items: T[] = [];
+  private idCounter = 1;
+
+  constructor(private readonly entityClass?: new (data?: Partial<T>) => T) {}
+
+  create(data: Partial<T>): Promise<T> {
+    const now = new Date();
+    const entity = this.instantiate({
+      ...data,
+      id: this.idCounter++,
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    });
+
+    this.items.push(entity);
+    return Promise.resolve(entity);
+  }
+
+  findAll(): Promise<T[]> {
+    return Promise.resolve(this.activeItems());
+  }
+
+  findById(id: number, withDeleted = false): Promise<T | null> {
+    const items = withDeleted ? this.items : this.activeItems();
+    return Promise.resolve(items.find((item) => item.id === id) ?? null);
+  }
+
+  findBy(where: Partial<T>): Promise<T[]> {
+    return Promise.resolve(
+      this.activeItems().filter((item) => this.matches(item, where)),
+    );
+  }
+
+  findPage(query: ListQueryOptions): Promise<PaginatedResult<T>> {
+    const deleted = query.deleted ?? 'exclude';
+    const matched = this.items.filter(
+      (item) =>
+        (deleted === 'include' ||
+          this.isDeleted(item) === (deleted === 'only')) &&
+        query.filters.every((filter) => this.matchesFilter(item, filter)),
+    );
+    const sorted = [...matched].sort((a, b) => this.compare(a, b, query.sort));
+    const start = (query.page - 1) * query.limit;
+
+    return Promise.resolve({
+      items: sorted.slice(start, start + query.limit),
+      total: matched.length,
+    });
+  }
+
+  update(
+    id: number,
+    data: Partial<T>,
+    expectedVersion?: number,
+  ): Promise<T | null> {
+    const index = this.findWritable(id, expectedVersion);
+    if (index === -1) {
+      return Promise.resolve(null);
+    }
+
+    const updated = this.instantiate({
+      ...this.items[index],
+      ...data,
+      id,
+      updatedAt: new Date(),
+      version: this.items[index].version + 1,
+    });
+
+    this.items[index] = updated;
+    return Promise.resolve(updated);
+  }
+
+  softDelete(id: number, expectedVersion?: number): Promise<boolean> {
+    if (this.findWritable(id, expectedVersion) === -1) {
+      return Promise.resolve(false);
+    }
+    return this.setDeletedAt(id, new Date());
+  }
+
+  restore(id: number): Promise<boolean> {
+    return this.setDeletedAt(id, null);
+  }
+
+  delete(id: number): Promise<boolean> {
+    const index = this.items.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return Promise.resolve(false);
+    }
+
+    this.items.splice(index, 1);
+    return Promise.resolve(true);
+  }
+
+  count(where?: Partial<T>): Promise<number> {
+    const items = where
+      ? this.activeItems().filter((item) => this.matches(item, where))
+      : this.activeItems();
+    return Promise.resolve(items.length);
+  }
+
+  aggregate(query: AggregateQuery): Promise<AggregateRow[]> {
+    const groups = new Map<string, AggregateRow>();
+
+    for (const item of this.activeItems()) {
+      if (!query.filters.every((filter) => this.matchesFilter(item, filter))) {
+        continue;
+      }
+
+      const period = query.periods && this.findPeriod(item, query.periods);
+      if (period === -1) {
+        continue;
+      }
+
+      const values = Object.fromEntries(
+        query.groupBy.map((field) => [field, item[field as keyof T]]),
+      );
+      const key = JSON.stringify([values, period]);
+      const group = groups.get(key) ?? {
+        groups: values,
+        ...(period !== undefined && { period }),
+        values: Object.fromEntries(
+          query.metrics.map(({ alias }) => [alias, 0]),
+        ),
+      };
+      groups.set(key, group);
+
+      for (const { alias, fn, field, where } of query.metrics) {
+        if (!where || this.matchesFilter(item, where)) {
+          group.values[alias] +=
+            fn === 'sum' ? Number(item[field as keyof T] ?? 0) : 1;
+        }
+      }
+    }
+
+    return Promise.resolve([...groups.values()]);
+  }
+
+  /**
+   * Current state, for InMemoryTransactionManager rollbacks
+   */
+  snapshot(): InMemorySnapshot<T> {
+    return { items: [...this.items], idCounter: this.idCounter };
+  }
+
+  rollback(snapshot: InMemorySnapshot<T>): void {
+    this.items = [...snapshot.items];
+    this.idCounter = snapshot.idCounter;
+  }
+
+  private activeItems(): T[] {
+    return this.items.filter((item) => !this.isDeleted(item));
+  }
+
+  private findWritable(id: number, expectedVersion?: number): number {
+    return this.items.findIndex(
+      (item) =>
+        item.id === id &&
+        !this.isDeleted(item) &&
+        (expectedVersion === undefined || item.version === expectedVersion),
+    );
+  }
+
+  private isDeleted(item: T): boolean {
+    return item.deletedAt !== undefined && item.deletedAt !== null;
+  }
+
+  private setDeletedAt(id: number, deletedAt: Date | null): Promise<boolean> {
+    const index = this.items.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return Promise.resolve(false);
+    }
+
+    this.items[index] = this.instantiate({ ...this.items[index], deletedAt });
+    return Promise.resolve(true);
+  }
+
+  /**
+   * Index of the period holding the item's date, -1 when outside all of them
+   */
+  private findPeriod(item: T, { field, boundaries }: AggregatePeriods): number {
+    const time = this.comparable(item[field as keyof T]) as number;
+    return boundaries.findIndex(
+      (start, index) =>
+        index < boundaries.length - 1 &&
+        time >= start.getTime() &&
+        time < boundaries[index + 1].getTime(),
+    );
+  }
+
+  private matches(item: T, where: Partial<T>): boolean {
+    return Object.entries(where).every(
+      ([key, value]) => item[key as keyof T] === value,
+    );
+  }
+
+  private matchesFilter(item: T, filter: FilterCondition): boolean {
+    const actual = this.comparable(item[filter.field as keyof T]);
+    const expected = this.comparable(filter.value);
+
+    switch (filter.operator) {
+      case 'eq':
+        return actual === expected;
+      case 'ne':
+        return actual !== expected;
+      case 'gt':
+        return actual !== null && expected !== null && actual > expected;
+      case 'lt':
+        return actual !== null && expected !== null && actual < expected;
+      case 'in':
+        return (filter.value as unknown[]).some(
+          (value) => this.comparable(value) === actual,
+        );
+      case 'contains':
+        return String(actual ?? '')
+          .toLowerCase()
+          .includes(String(expected).toLowerCase());
+    }
+  }
+
+  private compare(a: T, b: T, sort: SortCondition[]): number {
+    for (const { field, direction } of sort) {
+      const left = this.comparable(a[field as keyof T]);
+      const right = this.comparable(b[field as keyof T]);
+
+      if (left === right) {
+        continue;
+      }
+
+      const result = left === null || (right !== null && left < right) ? -1 : 1;
+      return direction === 'ASC' ? result : -result;
+    }
+
+    return a.id - b.id;
+  }
+
+  private comparable(value: unknown): string | number | boolean | null {
+    if (value instanceof Date) {
+      return value.getTime();
+    }
+    if (value === undefined || value === null) {
+      return null;
+    }
+    return value as string | number | boolean;
+  }
+
+  private instantiate(data: Partial<T>): T {
+    return this.entityClass ? new this.entityClass(data) : (data as T);
+  }
+}
@@ -0,0 +1,123 @@
+import { BaseEntity } from '../base/base-entity';
+import { getCurrentTenantId } from '../tenancy/tenant.context';
+import { IRepository } from '../interfaces/repository.interface';
+import {
+  FilterCondition,
+  ListQueryOptions,
+  PaginatedResult,
+} from '../interfaces/list-query.interface';
+import {
+  AggregateQuery,
+  AggregateRow,
+} from '../interfaces/aggregate.interface';
+
+/**
+ * Repository decorator that confines every call to the current tenant
+ *
+ * DatabaseModule.forFeature wraps every repository with it, so services
+ * never filter by tenant themselves. Inside a tenant context creates are
+ * stamped with its tenantId, reads only see its rows and writes to other
+ * tenants' rows behave as if the row did not exist (services answer 404).
+ * Without a tenant (see TenantContext) calls pass through unchanged
+ */
+export class TenantScopedRepository<T extends BaseEntity>
+  implements IRepository<T>
+{
+  constructor(private readonly repository: IRepository<T>) {}
+
+  create(data: Partial<T>): Promise<T> {
+    const tenantId = getCurrentTenantId();
+    return this.repository.create(tenantId ? { ...data, tenantId } : data);
+  }
+
+  findAll(): Promise<T[]> {
+    const tenantId = getCurrentTenantId();
+    return tenantId
+      ? this.repository.findBy({ tenantId } as Partial<T>)
+      : this.repository.findAll();
+  }
+
+  async findById(id: number, withDeleted = false): Promise<T | null> {
+    const entity = await this.repository.findById(id, withDeleted);
+    return entity && this.isVisible(entity) ? entity : null;
+  }
+
+  findBy(where: Partial<T>): Promise<T[]> {
+    return this.repository.findBy(this.scopeWhere(where));
+  }
+
+  findPage(query: ListQueryOptions): Promise<PaginatedResult<T>> {
+    return this.repository.findPage({
+      ...query,
+      filters: this.scopeFilters(query.filters),
+    });
+  }
+
+  async update(
+    id: number,
+    data: Partial<T>,
+    expectedVersion?: number,
+  ): Promise<T | null> {
+    if (!(await this.findById(id))) {
+      return null;
+    }
+
+    if (!getCurrentTenantId()) {
+      return this.repository.update(id, data, expectedVersion);
+    }
+
+    // Rows never move to another tenant
+    const changes = { ...data };
+    delete changes.tenantId;
+    return this.repository.update(id, changes, expectedVersion);
+  }
+
+  async softDelete(id: number, expectedVersion?: number): Promise<boolean> {
+    return (
+      (await this.findById(id)) !== null &&
+      this.repository.softDelete(id, expectedVersion)
+    );
+  }
+
+  async restore(id: number): Promise<boolean> {
+    return (
+      (await this.findById(id, true)) !== null && this.repository.restore(id)
+    );
+  }
+
+  async delete(id: number): Promise<boolean> {
+    return (
+      (await this.findById(id, true)) !== null && this.repository.delete(id)
+    );
+  }
+
+  count(where?: Partial<T>): Promise<number> {
+    return getCurrentTenantId()
+      ? this.repository.count(this.scopeWhere(where ?? {}))
+      : this.repository.count(where);
+  }
+
+  aggregate(query: AggregateQuery): Promise<AggregateRow[]> {
+    return this.repository.aggregate({
+      ...query,
+      filters: this.scopeFilters(query.filters),
+    });
+  }
+
+  private isVisible(entity: T): boolean {
+    const tenantId = getCurrentTenantId();
+    return !tenantId || entity.tenantId === tenantId;
+  }
+
+  private scopeWhere(where: Partial<T>): Partial<T> {
+    const tenantId = getCurrentTenantId();
+    return tenantId ? { ...where, tenantId } : where;
+  }
+
+  private scopeFilters(filters: FilterCondition[]): FilterCondition[] {
+    const tenantId = getCurrentTenantId();
+    return tenantId
+      ? [...filters, { field: 'tenantId', operator: 'eq', value: tenantId }]
+      : filters;
+  }
+}
@@ -0,0 +1,334 @@
+import {
+  And,
+  DeepPartial,
+  Equal,
+  FindOperator,
+  FindOptionsOrder,
+  FindOptionsWhere,
+  In,
+  IsNull,
+  LessThan,
+  Like,
+  MoreThan,
+  Not,
+  QueryFailedError,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
+import type { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { BaseEntity } from '../base/base-entity';
+import { getTransactionContext } from '../database/transaction.context';
+import { IRepository } from '../interfaces/repository.interface';
+import type { TransactionManager } from '../interfaces/transaction-manager.interface';
+import { DuplicateEntryError } from '../errors/domain.error';
+import {
+  AggregateMetric,
+  AggregateQuery,
+  AggregateRow,
+} from '../interfaces/aggregate.interface';
+import {
+  FilterCondition,
+  ListQueryOptions,
+  PaginatedResult,
+  SortCondition,
+} from '../interfaces/list-query.interface';
+
+/**
+ * TypeORM repository implementation
+ *
+ * Adapts a TypeORM Repository to the IRepository contract so services
+ * never depend on TypeORM directly. Inside TransactionManager.run()
+ * every call goes through the transaction's EntityManager.
+ * Writes outside one run as their own transaction through the manager,
+ * so they wait for a running transaction instead of joining it.
+ */
+export class TypeOrmRepository<T extends BaseEntity> implements IRepository<T> {
+  constructor(
+    protected readonly repository: Repository<T>,
+    private readonly transactionManager?: TransactionManager,
+  ) {}
+
+  /**
+   * The repository bound to the running transaction, if any
+   */
+  protected get activeRepository(): Repository<T> {
+    const manager = getTransactionContext()?.manager;
+    return manager
+      ? manager.getRepository(this.repository.target)
+      : this.repository;
+  }
+
+  create(data: Partial<T>): Promise<T> {
+    return this.write(async () => {
+      const entity = this.activeRepository.create(data as DeepPartial<T>);
+      try {
+        return await this.activeRepository.save(entity);
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          throw new DuplicateEntryError(this.repository.metadata.name);
+        }
+        throw err;
+      }
+    });
+  }
+
+  findAll(): Promise<T[]> {
+    return this.activeRepository.find();
+  }
+
+  findById(id: number, withDeleted = false): Promise<T | null> {
+    return this.activeRepository.findOne({
+      where: { id } as FindOptionsWhere<T>,
+      withDeleted,
+    });
+  }
+
+  findBy(where: Partial<T>): Promise<T[]> {
+    return this.activeRepository.findBy(where as FindOptionsWhere<T>);
+  }
+
+  async findPage(query: ListQueryOptions): Promise<PaginatedResult<T>> {
+    const deleted = query.deleted ?? 'exclude';
+    const [items, total] = await this.activeRepository.findAndCount({
+      where: this.buildWhere(query.filters, deleted === 'only'),
+      withDeleted: deleted !== 'exclude',
+      order: this.buildOrder(query.sort),
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    });
+
+    return { items, total };
+  }
+
+  update(
+    id: number,
+    data: Partial<T>,
+    expectedVersion?: number,
+  ): Promise<T | null> {
+    return this.write(async () => {
+      if (expectedVersion !== undefined) {
+        // One conditional UPDATE, which also bumps version and updatedAt
+        const result = await this.activeRepository
+          .createQueryBuilder()
+          .update()
+          .set(data as QueryDeepPartialEntity<T>)
+          .where(this.writableWhere(id, expectedVersion))
+          .execute();
+        return result.affected ? this.findById(id) : null;
+      }
+
+      const entity = await this.findById(id);
+      if (!entity) {
+        return null;
+      }
+
+      this.activeRepository.merge(entity, data as DeepPartial<T>);
+      return this.activeRepository.save(entity);
+    });
+  }
+
+  softDelete(id: number, expectedVersion?: number): Promise<boolean> {
+    return this.write(async () => {
+      const result = await this.activeRepository.softDelete(
+        this.writableWhere(id, expectedVersion),
+      );
+      return (result.affected ?? 0) > 0;
+    });
+  }
+
+  restore(id: number): Promise<boolean> {
+    return this.write(async () => {
+      const result = await this.activeRepository.restore(id);
+      return (result.affected ?? 0) > 0;
+    });
+  }
+
+  delete(id: number): Promise<boolean> {
+    return this.write(async () => {
+      const result = await this.activeRepository.delete(id);
+      return (result.affected ?? 0) > 0;
+    });
+  }
+
+  count(where?: Partial<T>): Promise<number> {
+    return this.activeRepository.countBy((where ?? {}) as FindOptionsWhere<T>);
+  }
+
+  /**
+   * Grouped counts and sums in one SQL query
+   * Periods become a CASE over the boundaries, so any time zone works on any database
+   */
+  async aggregate(query: AggregateQuery): Promise<AggregateRow[]> {
+    const alias = 'entity';
+    const builder = this.activeRepository
+      .createQueryBuilder(alias)
+      .select([])
+      .where(this.buildWhere(query.filters));
+
+    query.groupBy.forEach((field, index) => {
+      builder.addSelect(`${alias}.${field}`, `group${index}`);
+      builder.addGroupBy(`${alias}.${field}`);
+    });
+
+    if (query.periods) {
+      const column = `${alias}.${query.periods.field}`;
+      const { boundaries } = query.periods;
+      const last = boundaries.length - 1;
+      const cases = boundaries
+        .slice(1, last)
+        .map(
+          (_, index) => `WHEN ${column} < :period${index + 1} THEN ${index}`,
+        );
+
+      builder
+        .addSelect(
+          cases.length > 0
+            ? `CASE ${cases.join(' ')} ELSE ${last - 1} END`
+            : '0',
+          'period',
+        )
+        .andWhere(`${column} >= :period0 AND ${column} < :period${last}`)
+        .setParameters(
+          Object.fromEntries(
+            boundaries.map((boundary, index) => [`period${index}`, boundary]),
+          ),
+        )
+        .addGroupBy('period');
+    }
+
+    query.metrics.forEach((metric, index) => {
+      builder.addSelect(
+        this.toMetricSql(builder, metric, index),
+        `metric${index}`,
+      );
+    });
+
+    const rows = await builder.getRawMany<Record<string, unknown>>();
+    return rows.map((row) => ({
+      groups: Object.fromEntries(
+        query.groupBy.map((field, index) => [field, row[`group${index}`]]),
+      ),
+      ...(query.periods && { period: Number(row.period) }),
+      values: Object.fromEntries(
+        query.metrics.map((metric, index) => [
+          metric.alias,
+          Number(row[`metric${index}`] ?? 0),
+        ]),
+      ),
+    }));
+  }
+
+  /**
+   * Translate list query filters into TypeORM find operators
+   * Several operators on the same field are combined with And()
+   */
+  protected buildWhere(
+    filters: FilterCondition[],
+    onlyDeleted = false,
+  ): FindOptionsWhere<T> {
+    const operators = new Map<string, FindOperator<unknown>[]>();
+    if (onlyDeleted) {
+      operators.set('deletedAt', [Not(IsNull())]);
+    }
+
+    for (const filter of filters) {
+      const fieldOperators = operators.get(filter.field) ?? [];
+      fieldOperators.push(this.toFindOperator(filter));
+      operators.set(filter.field, fieldOperators);
+    }
+
+    const where: Record<string, FindOperator<unknown>> = {};
+    for (const [field, fieldOperators] of operators) {
+      where[field] =
+        fieldOperators.length === 1
+          ? fieldOperators[0]
+          : And(...fieldOperators);
+    }
+
+    return where as FindOptionsWhere<T>;
+  }
+
+  /**
+   * Run a write in the current transaction, or else in one of its own
+   */
+  private write<R>(work: () => Promise<R>): Promise<R> {
+    return this.transactionManager ? this.transactionManager.run(work) : work();
+  }
+
+  /**
+   * A live row, at the expected version if one is given
+   */
+  private writableWhere(
+    id: number,
+    expectedVersion?: number,
+  ): FindOptionsWhere<T> {
+    return {
+      id,
+      deletedAt: IsNull(),
+      ...(expectedVersion !== undefined && { version: expectedVersion }),
+    } as FindOptionsWhere<T>;
+  }
+
+  protected buildOrder(sort: SortCondition[]): FindOptionsOrder<T> {
+    const order: Record<string, 'ASC' | 'DESC'> = {};
+
+    for (const { field, direction } of sort) {
+      order[field] = direction;
+    }
+    order.id ??= 'ASC';
+
+    return order as FindOptionsOrder<T>;
+  }
+
+  private toMetricSql(
+    builder: SelectQueryBuilder<T>,
+    { fn, field, where }: AggregateMetric,
+    index: number,
+  ): string {
+    const alias = builder.alias;
+    const value = fn === 'sum' ? `${alias}.${field}` : '1';
+    if (!where) {
+      return fn === 'sum' ? `COALESCE(SUM(${value}), 0)` : 'COUNT(*)';
+    }
+
+    const column = `${alias}.${where.field}`;
+    const parameter = `metric${index}`;
+    builder.setParameter(parameter, where.value);
+    const condition = {
+      eq: `${column} = :${parameter}`,
+      ne: `${column} != :${parameter}`,
+      gt: `${column} > :${parameter}`,
+      lt: `${column} < :${parameter}`,
+      in: `${column} IN (:...${parameter})`,
+      contains: `${column} LIKE '%' || :${parameter} || '%'`,
+    }[where.operator];
+
+    return `COALESCE(SUM(CASE WHEN ${condition} THEN ${value} ELSE 0 END), 0)`;
+  }
+
+  private toFindOperator(filter: FilterCondition): FindOperator<unknown> {
+    switch (filter.operator) {
+      case 'eq':
+        return filter.value === null ? IsNull() : Equal(filter.value);
+      case 'ne':
+        return Not(filter.value === null ? IsNull() : filter.value);
+      case 'gt':
+        return MoreThan(filter.value);
+      case 'lt':
+        return LessThan(filter.value);
+      case 'in':
+        return In(filter.value as unknown[]);
+      case 'contains':
+        return Like(`%${String(filter.value)}%`);
+    }
+  }
+}
+
+function isUniqueViolation(err: unknown): boolean {
+  const driverError = (err as { driverError?: { code?: unknown } })
+    ?.driverError;
+  return (
+    err instanceof QueryFailedError &&
+    driverError?.code === 'SQLITE_CONSTRAINT_UNIQUE'
+  );
+}
@@ -0,0 +1,94 @@
+import { InvalidTransitionError } from '../errors/domain.error';
+import { StateMachine } from './state-machine';
+
+type Door = 'open' | 'closed' | 'locked';
+type DoorEvent = 'close' | 'open' | 'lock' | 'unlock';
+
+describe('StateMachine', () => {
+  const log: string[] = [];
+  let machine: StateMachine<Door, DoorEvent, { hasKey: boolean }>;
+
+  beforeEach(() => {
+    log.length = 0;
+    machine = new StateMachine({
+      name: 'Door',
+      initial: 'closed',
+      transitions: [
+        { event: 'open', from: 'closed', to: 'open' },
+        { event: 'close', from: 'open', to: 'closed' },
+        {
+          event: 'lock',
+          from: 'closed',
+          to: 'locked',
+          guard: ({ context }) => context.hasKey || 'A key is required',
+        },
+        { event: 'unlock', from: 'locked', to: ['closed', 'open'] },
+      ],
+      states: {
+        closed: { onExit: ({ event }) => void log.push(`exit:${event}`) },
+        locked: { onEnter: ({ from }) => void log.push(`enter:${from}`) },
+      },
+    });
+  });
+
+  it('should list available events respecting guards', () => {
+    expect(machine.availableEvents('closed', { hasKey: true })).toEqual([
+      'open',
+      'lock',
+    ]);
+    expect(machine.availableEvents('closed', { hasKey: false })).toEqual([
+      'open',
+    ]);
+  });
+
+  it('should run exit and entry hooks on transition', async () => {
+    const next = await machine.transition('closed', 'lock', { hasKey: true });
+
+    expect(next).toBe('locked');
+    expect(log).toEqual(['exit:lock', 'enter:closed']);
+  });
+
+  it('should reject undefined transitions and failed guards', async () => {
+    await expect(
+      machine.transition('open', 'lock', { hasKey: true }),
+    ).rejects.toMatchObject({
+      code: 'DOOR_INVALID_TRANSITION',
+      message: 'Cannot lock Door in open status',
+      details: { from: 'open', event: 'lock' },
+    });
+    await expect(
+      machine.transition('closed', 'lock', { hasKey: false }),
+    ).rejects.toMatchObject({
+      code: 'DOOR_INVALID_TRANSITION',
+      message: 'A key is required',
+    });
+  });
+
+  it('should require an explicit target for multi-target events', async () => {
+    const context = { hasKey: true };
+
+    await expect(
+      machine.transition('locked', 'unlock', context),
+    ).rejects.toBeInstanceOf(InvalidTransitionError);
+    await expect(
+      machine.transition('locked', 'unlock', context, 'open'),
+    ).resolves.toBe('open');
+    await expect(
+      machine.transition('locked', 'unlock', context, 'locked'),
+    ).rejects.toThrow('Invalid status transition from locked to locked');
+  });
+
+  it('should export a Mermaid diagram', () => {
+    expect(machine.toMermaid()).toBe(
+      [
+        'stateDiagram-v2',
+        '    [*] --> closed',
+        '    closed --> open : open',
+        '    open --> closed : close',
+        '    closed --> locked : lock [guarded]',
+        '    locked --> closed : unlock',
+        '    locked --> open : unlock',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,182 @@
+import { InvalidTransitionError } from '../errors/domain.error';
+import {
+  StateMachineConfig,
+  TransitionContext,
+  TransitionDefinition,
+} from '../interfaces/state-machine.interface';
+
+/**
+ * Generic, declarative state machine
+ *
+ * Usage:
+ * export const OrderStateMachine = new StateMachine<OrderStatus, OrderAction, Order>({
+ *   name: 'Order',
+ *   initial: OrderStatus.NEW,
+ *   transitions: [
+ *     { event: OrderAction.SHIP, from: OrderStatus.PAID, to: OrderStatus.SHIPPED },
+ *   ],
+ * });
+ *
+ * const next = await OrderStateMachine.transition(order.status, OrderAction.SHIP, order);
+ */
+export class StateMachine<
+  TState extends string,
+  TEvent extends string,
+  TContext = unknown,
+> {
+  constructor(
+    private readonly config: StateMachineConfig<TState, TEvent, TContext>,
+  ) {}
+
+  get initial(): TState {
+    return this.config.initial;
+  }
+
+  /**
+   * Whether the event can fire from the given state (guards included)
+   */
+  can(state: TState, event: TEvent, context?: TContext): boolean {
+    return this.check(state, event, undefined, context) === null;
+  }
+
+  /**
+   * Events that can currently fire from the given state
+   */
+  availableEvents(state: TState, context?: TContext): TEvent[] {
+    const events = this.config.transitions
+      .filter((transition) => this.asArray(transition.from).includes(state))
+      .map((transition) => transition.event);
+
+    return [...new Set(events)].filter((event) =>
+      this.can(state, event, context),
+    );
+  }
+
+  /**
+   * Target states an event can lead to from the given state
+   */
+  targets(state: TState, event: TEvent): TState[] {
+    const definition = this.findTransition(state, event);
+    return definition ? this.asArray(definition.to) : [];
+  }
+
+  /**
+   * Throws InvalidTransitionError (400, <NAME>_INVALID_TRANSITION) unless the event can fire
+   */
+  assertCan(state: TState, event: TEvent, context?: TContext, to?: TState) {
+    const error = this.check(state, event, to, context);
+
+    if (error) {
+      throw new InvalidTransitionError(this.config.name, error, {
+        from: state,
+        event,
+        to,
+      });
+    }
+  }
+
+  /**
+   * Fire an event: checks the transition and guard, runs exit and entry hooks
+   * and returns the new state. Persisting the new state is up to the caller.
+   *
+   * @param to Required when the event has more than one target state
+   */
+  async transition(
+    state: TState,
+    event: TEvent,
+    context: TContext,
+    to?: TState,
+  ): Promise<TState> {
+    this.assertCan(state, event, context, to);
+
+    const targets = this.targets(state, event);
+    if (to === undefined && targets.length > 1) {
+      throw new InvalidTransitionError(
+        this.config.name,
+        `${this.config.name} ${event} requires one of ${targets.join(', ')} as target`,
+        { from: state, event },
+      );
+    }
+
+    const target = to ?? targets[0];
+    const transition = { from: state, to: target, event, context };
+
+    await this.config.states?.[state]?.onExit?.(transition);
+    await this.config.states?.[target]?.onEnter?.(transition);
+
+    return target;
+  }
+
+  /**
+   * Mermaid stateDiagram-v2 source for documentation
+   */
+  toMermaid(): string {
+    const lines = ['stateDiagram-v2', `    [*] --> ${this.config.initial}`];
+
+    for (const transition of this.config.transitions) {
+      const label = transition.guard
+        ? `${transition.event} [guarded]`
+        : transition.event;
+
+      for (const from of this.asArray(transition.from)) {
+        for (const to of this.asArray(transition.to)) {
+          lines.push(`    ${from} --> ${to} : ${label}`);
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private check(
+    state: TState,
+    event: TEvent,
+    to: TState | undefined,
+    context: TContext | undefined,
+  ): string | null {
+    const definition = this.findTransition(state, event);
+    const name = this.config.name;
+
+    if (!definition) {
+      return `Cannot ${event} ${name} in ${state} status`;
+    }
+
+    const targets = this.asArray(definition.to);
+    if (to !== undefined && !targets.includes(to)) {
+      return `Invalid status transition from ${state} to ${to}`;
+    }
+
+    if (definition.guard) {
+      const transition: TransitionContext<TState, TEvent, TContext> = {
+        from: state,
+        to: to ?? targets[0],
+        event,
+        context: context as TContext,
+      };
+      const result = definition.guard(transition);
+
+      if (result !== true) {
+        return typeof result === 'string'
+          ? result
+          : `Cannot ${event} ${name} in ${state} status`;
+      }
+    }
+
+    return null;
+  }
+
+  private findTransition(
+    state: TState,
+    event: TEvent,
+  ): TransitionDefinition<TState, TEvent, TContext> | undefined {
+    return this.config.transitions.find(
+      (transition) =>
+        transition.event === event &&
+        this.asArray(transition.from).includes(state),
+    );
+  }
+
+  private asArray<T>(value: T | T[]): T[] {
+    return Array.isArray(value) ? value : [value];
+  }
+}
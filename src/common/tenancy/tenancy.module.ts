@@ -0,0 +1,22 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { TenantContextInterceptor } from '../interceptors/tenant-context.interceptor';
+
+/**
+ * Tenancy module - confines each request to one tenant's data
+ *
+ * Usage (AppModule): imports: [TenancyModule.forRoot()]
+ * Repositories filter by the current tenant on their own (TenantScopedRepository);
+ * without this module no tenant is ever set and every row is visible
+ */
+@Module({})
+export class TenancyModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: TenancyModule,
+      providers: [
+        { provide: APP_INTERCEPTOR, useClass: TenantContextInterceptor },
+      ],
+    };
+  }
+}
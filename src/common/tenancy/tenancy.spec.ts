@@ -0,0 +1,243 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../database/database.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { DomainEventsModule } from '../events/domain-events.module';
+import { AuditModule } from '../audit/audit.module';
+import { AuthModule } from '../auth/auth.module';
+import { TenancyModule } from './tenancy.module';
+import { runWithTenantContext } from './tenant.context';
+import { ValidationPipe } from '../pipes/validation.pipe';
+import { ResponseInterceptor } from '../interceptors/response.interceptor';
+import { TenantScopedRepository } from '../repositories/tenant-scoped.repository';
+import { InMemoryRepository } from '../repositories/in-memory.repository';
+import { PaymentModule } from '../../modules/payment/payment.module';
+import { Payment } from '../../modules/payment/entities/payment.entity';
+import { ApiKeyModule } from '../../modules/api-key/api-key.module';
+import { signWebhookPayload } from '../../modules/webhook/webhook-signature';
+
+const WEBHOOK_SECRET = 'whsec_spec';
+
+describe('Tenancy', () => {
+  describe('TenantScopedRepository', () => {
+    const repository = new TenantScopedRepository(
+      new InMemoryRepository(Payment),
+    );
+    const inTenant = <T>(tenantId: string | null, work: () => Promise<T>) =>
+      runWithTenantContext({ tenantId }, work);
+
+    it('should stamp, filter and hide rows of other tenants', async () => {
+      const acme = await inTenant('acme', () =>
+        repository.create({ amount: 100, tenantId: 'globex' }),
+      );
+      await inTenant('globex', () => repository.create({ amount: 200 }));
+
+      expect(acme.tenantId).toBe('acme');
+      await inTenant('globex', async () => {
+        expect(await repository.findById(acme.id)).toBeNull();
+        expect(await repository.update(acme.id, { amount: 1 })).toBeNull();
+        expect(await repository.softDelete(acme.id)).toBe(false);
+        expect(await repository.count()).toBe(1);
+        expect(
+          (await repository.findAll()).map((payment) => payment.amount),
+        ).toEqual([200]);
+      });
+
+      await inTenant('acme', async () => {
+        const moved = await repository.update(acme.id, {
+          amount: 150,
+          tenantId: 'globex',
+        });
+        expect(moved).toMatchObject({ amount: 150, tenantId: 'acme' });
+      });
+
+      // Unscoped work, such as scheduled jobs, sees every tenant
+      expect(await inTenant(null, () => repository.count())).toBe(2);
+    });
+  });
+
+  describe('HTTP requests', () => {
+    const signer = new JwtService({ secret: 'tenancy-spec-secret' });
+    const acme = `Bearer ${signer.sign({ sub: 'alice', tenant_id: 'acme' })}`;
+    const globex = `Bearer ${signer.sign({ sub: 'bob', tenant_id: 'globex' })}`;
+    const operator = `Bearer ${signer.sign({ sub: 'ops', roles: ['admin'] })}`;
+
+    let app: INestApplication<App>;
+
+    const createPayment = async (authorization: string) => {
+      const response = await request(app.getHttpServer())
+        .post('/payments')
+        .set('Authorization', authorization)
+        .send({
+          amount: 10,
+          currency: 'USD',
+          customerEmail: 'alice@example.com',
+          customerName: 'Alice Johnson',
+        })
+        .expect(201);
+      return (response.body as { data: { id: number; tenantId: string } }).data;
+    };
+
+    beforeAll(() => {
+      process.env.JWT_SECRET = 'tenancy-spec-secret';
+      process.env.PAYMENT_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    });
+
+    afterAll(() => {
+      delete process.env.JWT_SECRET;
+      delete process.env.PAYMENT_WEBHOOK_SECRET;
+    });
+
+    beforeEach(async () => {
+      const module = await Test.createTestingModule({
+        imports: [
+          DatabaseModule.forRoot(),
+          IdempotencyModule.forRoot(),
+          DomainEventsModule.forRoot(),
+          AuditModule.forRoot(),
+          AuthModule.forRoot(),
+          TenancyModule.forRoot(),
+          ApiKeyModule,
+          PaymentModule,
+        ],
+      }).compile();
+
+      app = module.createNestApplication({ rawBody: true });
+      app.useGlobalPipes(new ValidationPipe());
+      app.useGlobalInterceptors(new ResponseInterceptor());
+      await app.init();
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    it('should answer 404 for payments of another tenant', async () => {
+      const server = app.getHttpServer();
+      const payment = await createPayment(acme);
+      expect(payment.tenantId).toBe('acme');
+
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('Authorization', globex)
+        .expect(404);
+      await request(server)
+        .delete(`/payments/${payment.id}`)
+        .set('Authorization', globex)
+        .expect(404);
+      await request(server)
+        .get(`/payments/${payment.id}/history`)
+        .set('Authorization', globex)
+        .expect(404);
+
+      const list = await request(server)
+        .get('/payments')
+        .set('Authorization', globex)
+        .expect(200);
+      expect(list.body).toMatchObject({ data: { items: [], total: 0 } });
+
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('Authorization', acme)
+        .expect(200);
+    });
+
+    it('should take the tenant from X-Tenant-Id for callers without one', async () => {
+      const server = app.getHttpServer();
+      const payment = await createPayment(acme);
+
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('Authorization', operator)
+        .expect(400);
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('Authorization', operator)
+        .set('X-Tenant-Id', 'acme')
+        .expect(200);
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('Authorization', operator)
+        .set('X-Tenant-Id', 'globex')
+        .expect(404);
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('Authorization', operator)
+        .set('X-Tenant-Id', 'not a tenant')
+        .expect(400);
+
+      // A tenant in the token cannot be swapped for another one
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('Authorization', globex)
+        .set('X-Tenant-Id', 'acme')
+        .expect(403);
+    });
+
+    it('should pin API keys to the tenant they were issued in', async () => {
+      const server = app.getHttpServer();
+      const payment = await createPayment(acme);
+      const issued = await request(server)
+        .post('/api-keys')
+        .set('Authorization', operator)
+        .set('X-Tenant-Id', 'globex')
+        .send({ name: 'Reporting', scopes: ['payments:read'] })
+        .expect(201);
+      const { key } = (issued.body as { data: { key: string } }).data;
+
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('X-API-Key', key)
+        .expect(404);
+      await request(server)
+        .get(`/payments/${payment.id}`)
+        .set('X-API-Key', key)
+        .set('X-Tenant-Id', 'acme')
+        .expect(403);
+    });
+
+    it('should list webhook events of no tenant to unscoped admins only', async () => {
+      const server = app.getHttpServer();
+      const body = JSON.stringify({
+        id: 'evt_orphan_1',
+        type: 'charge.succeeded',
+        data: { gatewayReference: 'fake_ch_missing' },
+      });
+      const timestamp = Math.floor(Date.now() / 1000);
+      await request(server)
+        .post('/payments/webhooks/fake')
+        .set('Content-Type', 'application/json')
+        .set('X-Fake-Timestamp', String(timestamp))
+        .set(
+          'X-Fake-Signature',
+          signWebhookPayload(WEBHOOK_SECRET, timestamp, body),
+        )
+        .send(body)
+        .expect(200);
+
+      const response = await request(server)
+        .get('/payments/webhooks/unmatched?filter[status]=unhandled')
+        .set('Authorization', operator)
+        .expect(200);
+      expect(response.body).toMatchObject({
+        data: {
+          total: 1,
+          items: [{ eventId: 'evt_orphan_1', tenantId: null }],
+        },
+      });
+
+      const acmeAdmin = `Bearer ${signer.sign({ sub: 'carol', tenant_id: 'acme', roles: ['admin'] })}`;
+      await request(server)
+        .get('/payments/webhooks/unmatched')
+        .set('Authorization', acmeAdmin)
+        .expect(403);
+      await request(server)
+        .get('/payments/webhooks/unmatched')
+        .set('Authorization', acme)
+        .expect(403);
+    });
+  });
+});
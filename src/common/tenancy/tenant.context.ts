@@ -0,0 +1,27 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Tenant the current work belongs to - set per HTTP request by TenantContextInterceptor
+ *
+ * tenantId null means unscoped: public requests without a tenant and
+ * scheduled jobs, which see and change the rows of every tenant
+ */
+export interface TenantContext {
+  tenantId: string | null;
+}
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+export function runWithTenantContext<T>(
+  context: TenantContext,
+  callback: () => T,
+): T {
+  return storage.run(context, callback);
+}
+
+/**
+ * Tenant of the running request or job - null or undefined when unscoped
+ */
+export function getCurrentTenantId(): string | null | undefined {
+  return storage.getStore()?.tenantId;
+}
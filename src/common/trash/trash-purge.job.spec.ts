@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Column, Entity } from 'typeorm';
+import { BaseEntity } from '../base/base-entity';
+import { BaseCrudService } from '../base/base-crud-service';
+import { DatabaseModule } from '../database/database.module';
+import { InjectEntityRepository } from '../database/repository.tokens';
+import type { IRepository } from '../interfaces/repository.interface';
+import { TrashModule } from './trash.module';
+import { TrashPurgeJob } from './trash-purge.job';
+
+@Entity('trash_spec_notes')
+class Note extends BaseEntity {
+  @Column()
+  title: string;
+}
+
+@Injectable()
+class NoteService extends BaseCrudService<Note> {
+  constructor(@InjectEntityRepository(Note) repository: IRepository<Note>) {
+    super(repository);
+  }
+
+  protected getEntityName = () => 'Note';
+}
+
+describe('TrashPurgeJob', () => {
+  let module: TestingModule;
+  let noteService: NoteService;
+  let job: TrashPurgeJob;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        DatabaseModule.forFeature([Note]),
+        TrashModule.forRoot(),
+      ],
+      providers: [NoteService],
+    }).compile();
+
+    noteService = module.get(NoteService);
+    job = module.get(TrashPurgeJob);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('should purge soft-deleted items once the retention period is over', async () => {
+    const deleted = await noteService.create({ title: 'deleted' });
+    const live = await noteService.create({ title: 'live' });
+    await noteService.remove(deleted.id);
+
+    expect(await job.handle(new Date(Date.now() + 29 * DAY_MS))).toBe(0);
+    const trashed = await noteService.findOne(deleted.id, true);
+    expect(trashed.deletedAt).toBeInstanceOf(Date);
+
+    expect(await job.handle(new Date(Date.now() + 31 * DAY_MS))).toBe(1);
+    await expect(noteService.findOne(deleted.id, true)).rejects.toThrow(
+      'Note with ID 1 not found',
+    );
+    expect(await noteService.findOne(live.id)).toBeDefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { Interval } from '@nestjs/schedule';
+import { BaseCrudService } from '../base/base-crud-service';
+import { BaseEntity } from '../base/base-entity';
+import { getTrashConfig } from '../config/trash.config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently deletes items that stayed soft-deleted past the retention period
+ * Covers every provider extending BaseCrudService
+ */
+@Injectable()
+export class TrashPurgeJob {
+  private readonly logger = new Logger(TrashPurgeJob.name);
+
+  constructor(private readonly discoveryService: DiscoveryService) {}
+
+  @Interval(60 * 60_000)
+  async handle(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(
+      now.getTime() - getTrashConfig().retentionDays * DAY_MS,
+    );
+    let total = 0;
+
+    for (const service of this.findServices()) {
+      const purged = await service.purgeDeleted(cutoff);
+      if (purged > 0) {
+        this.logger.log(
+          `Purged ${purged} deleted item(s) from ${service.constructor.name}`,
+        );
+      }
+      total += purged;
+    }
+
+    return total;
+  }
+
+  private findServices(): BaseCrudService<BaseEntity>[] {
+    return this.discoveryService
+      .getProviders()
+      .map((wrapper) => wrapper.instance as unknown)
+      .filter(
+        (instance): instance is BaseCrudService<BaseEntity> =>
+          instance instanceof BaseCrudService,
+      );
+  }
+}
@@ -0,0 +1,20 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { TrashPurgeJob } from './trash-purge.job';
+
+/**
+ * Trash module - schedules the purge of expired soft-deleted items
+ *
+ * Usage (AppModule, next to ScheduleModule.forRoot()): imports: [TrashModule.forRoot()]
+ */
+@Module({})
+export class TrashModule {
+  static forRoot(): DynamicModule {
+    return {
+      module: TrashModule,
+      imports: [DiscoveryModule],
+      providers: [TrashPurgeJob],
+      exports: [TrashPurgeJob],
+    };
+  }
+}
@@ -1,12 +1,28 @@
+import { Logger } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ValidationPipe } from './common/pipes/validation.pipe';
-import { HttpExceptionFilter } from './common/filters/http-exception.filter';
+import { AllExceptionsFilter } from './common/filters/http-exception.filter';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
+import { API_KEY_SECURITY } from './common/decorators/access.decorator';
+import { API_KEY_HEADER } from './common/interfaces/api-key-verifier.interface';
+import { JsonLogger } from './common/logging/json.logger';
+import { getTrustProxyConfig } from './common/config/proxy.config';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody keeps the unparsed request body for webhook signature checks
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
+    bufferLogs: true,
+  });
+
+  // Structured JSON logs - startup logs are buffered until now
+  app.useLogger(app.get(JsonLogger));
+
+  // Client IPs (rate limits) from X-Forwarded-For only behind trusted proxies
+  app.set('trust proxy', getTrustProxyConfig());
 
   // Set global prefix
   app.setGlobalPrefix('api/v1');
@@ -17,8 +33,8 @@ async function bootstrap() {
   // Global pipes
   app.useGlobalPipes(new ValidationPipe());
 
-  // Global filters
-  app.useGlobalFilters(new HttpExceptionFilter());
+  // Global filters - every error as application/problem+json
+  app.useGlobalFilters(new AllExceptionsFilter());
 
   // Global interceptors
   app.useGlobalInterceptors(new ResponseInterceptor());
@@ -30,6 +46,10 @@ async function bootstrap() {
     .setVersion('1.0')
     .addTag('Payment', 'Payment management endpoints')
     .addBearerAuth()
+    .addApiKey(
+      { type: 'apiKey', in: 'header', name: API_KEY_HEADER },
+      API_KEY_SECURITY,
+    )
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -37,8 +57,9 @@ async function bootstrap() {
 
   const port = process.env.PORT ?? 3000;
   await app.listen(port);
-  
-  console.log(`\n🚀 Application is running on: http://localhost:${port}`);
-  console.log(`📚 Swagger documentation: http://localhost:${port}/api/docs\n`);
+
+  const logger = new Logger('Bootstrap');
+  logger.log(`Application is running on: http://localhost:${port}`);
+  logger.log(`Swagger documentation: http://localhost:${port}/api/docs`);
 }
 bootstrap();
@@ -0,0 +1,162 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../../common/database/database.module';
+import { IdempotencyModule } from '../../common/idempotency/idempotency.module';
+import { DomainEventsModule } from '../../common/events/domain-events.module';
+import { AuthModule } from '../../common/auth/auth.module';
+import { getEntityRepositoryToken } from '../../common/database/repository.tokens';
+import type { IRepository } from '../../common/interfaces/repository.interface';
+import { ValidationPipe } from '../../common/pipes/validation.pipe';
+import { ResponseInterceptor } from '../../common/interceptors/response.interceptor';
+import { PaymentModule } from '../payment/payment.module';
+import { ApiKeyModule } from './api-key.module';
+import { ApiKey } from './entities/api-key.entity';
+
+describe('ApiKeyController', () => {
+  const signer = new JwtService({ secret: 'api-key-spec-secret' });
+  const admin = `Bearer ${signer.sign({ sub: 'admin-1', roles: ['admin'] })}`;
+
+  let app: INestApplication<App>;
+  let repository: IRepository<ApiKey>;
+
+  const issue = async (scopes: string[]) => {
+    const response = await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Authorization', admin)
+      .send({ name: 'Order service', scopes })
+      .expect(201);
+    return (response.body as { data: { id: number; key: string } }).data;
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'api-key-spec-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.JWT_SECRET;
+  });
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        IdempotencyModule.forRoot(),
+        DomainEventsModule.forRoot(),
+        AuthModule.forRoot(),
+        ApiKeyModule,
+        PaymentModule,
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe());
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+
+    repository = module.get(getEntityRepositoryToken(ApiKey));
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should show the key once and store only its hash', async () => {
+    const { id, key } = await issue(['payments:read', 'payments:read']);
+    expect(key).toMatch(/^bnk_[0-9a-f]{12}_[\w-]{32}$/);
+
+    const stored = await repository.findById(id);
+    expect(stored?.keyHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(stored?.keyHash).not.toContain(key);
+
+    const response = await request(app.getHttpServer())
+      .get(`/api-keys/${id}`)
+      .set('Authorization', admin)
+      .expect(200);
+    const data = (response.body as { data: Record<string, unknown> }).data;
+    expect(data).toMatchObject({
+      prefix: key.slice(0, 16),
+      scopes: ['payments:read'],
+    });
+    expect(data).not.toHaveProperty('key');
+    expect(data).not.toHaveProperty('keyHash');
+  });
+
+  it('should let keys call only endpoints granted by their scopes', async () => {
+    const { id, key } = await issue(['payments:read']);
+
+    await request(app.getHttpServer())
+      .get('/payments')
+      .set('X-API-Key', key)
+      .expect(200);
+    await request(app.getHttpServer())
+      .post('/payments')
+      .set('X-API-Key', key)
+      .send({})
+      .expect(403);
+    // No scopes declared: closed to API keys
+    await request(app.getHttpServer())
+      .get('/api-keys')
+      .set('X-API-Key', key)
+      .expect(403);
+
+    expect((await repository.findById(id))?.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject revoked, expired and unknown keys', async () => {
+    const revoked = await issue(['payments:read']);
+    const expired = await issue(['payments:read']);
+
+    await request(app.getHttpServer())
+      .post(`/api-keys/${revoked.id}/revoke`)
+      .set('Authorization', admin)
+      .expect(200);
+    await repository.update(expired.id, {
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    for (const key of [
+      revoked.key,
+      expired.key,
+      `${revoked.key.slice(0, 17)}${'x'.repeat(32)}`,
+      'not-a-key',
+    ]) {
+      await request(app.getHttpServer())
+        .get('/payments')
+        .set('X-API-Key', key)
+        .expect(401);
+    }
+  });
+
+  it('should restrict key management to admins', async () => {
+    await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Authorization', `Bearer ${signer.sign({ sub: 'bob' })}`)
+      .send({ name: 'Order service', scopes: ['payments:read'] })
+      .expect(403);
+    await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Authorization', admin)
+      .send({
+        name: 'Order service',
+        scopes: ['payments:read'],
+        expiresAt: '2020-01-01T00:00:00Z',
+      })
+      .expect(400);
+  });
+
+  it('should document API keys on scoped endpoints only', () => {
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().addBearerAuth().build(),
+    );
+
+    expect(document.paths['/payments/{id}/refund'].post?.security).toEqual(
+      expect.arrayContaining([{ bearer: [] }, { 'api-key': [] }]),
+    );
+    expect(document.paths['/api-keys'].get?.security).toEqual([{ bearer: [] }]);
+  });
+});
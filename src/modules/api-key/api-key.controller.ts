@@ -0,0 +1,91 @@
+import { Body, HttpCode, Param, ParseIntPipe, Post } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import { CrudController } from '../../common/decorators/crud-controller.decorator';
+import { BaseController } from '../../common/base/base-controller';
+import {
+  CreateEndpoint,
+  GetAllEndpoint,
+  GetByIdEndpoint,
+  UpdateEndpoint,
+} from '../../common/decorators/endpoint.decorator';
+import { ListQuery } from '../../common/decorators/list-query.decorator';
+import { IfMatch } from '../../common/decorators/if-match.decorator';
+import type { ListQueryOptions } from '../../common/interfaces/list-query.interface';
+import { ApiKeyService } from './api-key.service';
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { ApiKeyResponseDto } from './responses/api-key-response.dto';
+import { ApiKeyCreatedResponseDto } from './responses/api-key-created-response.dto';
+import { ApiKeyListResponseDto } from './responses/api-key-list-response.dto';
+
+/**
+ * API key controller - admins issue, list and revoke service-to-service keys
+ *
+ * There is no delete: revoked keys stay listed, so their audit trail keeps a name
+ */
+@CrudController('api-keys', 'API Key', { roles: ['admin'] })
+export class ApiKeyController extends BaseController<
+  ApiKey,
+  CreateApiKeyDto,
+  UpdateApiKeyDto,
+  ApiKeyResponseDto,
+  ApiKeyListResponseDto
+> {
+  constructor(private readonly apiKeyService: ApiKeyService) {
+    super(apiKeyService);
+  }
+
+  /**
+   * Implement abstract methods from BaseController
+   */
+  protected getResponseClass = () => ApiKeyResponseDto;
+  protected getListResponseClass = () => ApiKeyListResponseDto;
+  protected getEntityName = () => 'API key';
+
+  @CreateEndpoint('API key', ApiKeyCreatedResponseDto)
+  async create(
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ): Promise<ApiKeyCreatedResponseDto> {
+    const { apiKey, key } = await this.apiKeyService.issue(createApiKeyDto);
+    return new ApiKeyCreatedResponseDto({ ...apiKey, key });
+  }
+
+  @GetAllEndpoint('API key', ApiKeyListResponseDto, {
+    name: { type: String },
+    prefix: { type: String },
+  })
+  findAll(@ListQuery() query: ListQueryOptions) {
+    return this.findAllEntities(query);
+  }
+
+  @GetByIdEndpoint('API key', ApiKeyResponseDto)
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.findOneEntity(id);
+  }
+
+  @UpdateEndpoint('API key', ApiKeyResponseDto)
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateApiKeyDto: UpdateApiKeyDto,
+    @IfMatch() version?: number,
+  ) {
+    return this.updateEntity(id, updateApiKeyDto, version);
+  }
+
+  @Post(':id/revoke')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Revoke an API key - it stops working at once' })
+  @ApiParam({ name: 'id', type: 'number', description: 'API key ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'API key revoked',
+    type: ApiKeyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revoke(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<ApiKeyResponseDto> {
+    return new ApiKeyResponseDto(await this.apiKeyService.revoke(id));
+  }
+}
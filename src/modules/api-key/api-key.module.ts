@@ -0,0 +1,22 @@
+import { Global, Module } from '@nestjs/common';
+import { DatabaseModule } from '../../common/database/database.module';
+import { API_KEY_VERIFIER } from '../../common/interfaces/api-key-verifier.interface';
+import { ApiKeyController } from './api-key.controller';
+import { ApiKeyService } from './api-key.service';
+import { ApiKey } from './entities/api-key.entity';
+
+/**
+ * API key module - service-to-service credentials sent as X-API-Key
+ * Global, so AuthGuard finds the API_KEY_VERIFIER it provides
+ */
+@Global()
+@Module({
+  imports: [DatabaseModule.forFeature([ApiKey])],
+  controllers: [ApiKeyController],
+  providers: [
+    ApiKeyService,
+    { provide: API_KEY_VERIFIER, useExisting: ApiKeyService },
+  ],
+  exports: [API_KEY_VERIFIER],
+})
+export class ApiKeyModule {}
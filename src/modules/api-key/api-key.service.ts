@@ -0,0 +1,126 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { BaseCrudService } from '../../common/base/base-crud-service';
+import type { IRepository } from '../../common/interfaces/repository.interface';
+import type { ApiKeyVerifier } from '../../common/interfaces/api-key-verifier.interface';
+import type { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+import { InjectEntityRepository } from '../../common/database/repository.tokens';
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+
+/**
+ * Keys look like bnk_<12 hex prefix>_<32 base64url secret>
+ */
+const API_KEY_PATTERN = /^(bnk_[0-9a-f]{12})_[\w-]{32}$/;
+
+/**
+ * lastUsedAt is only written when it is older than this, not on every request
+ */
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+/**
+ * Create input of the service - issue() adds the generated key to the DTO
+ */
+type IssueApiKeyInput = CreateApiKeyDto & { key: string };
+
+/**
+ * API key service - issues, verifies and revokes service-to-service keys
+ */
+@Injectable()
+export class ApiKeyService
+  extends BaseCrudService<ApiKey, IssueApiKeyInput, UpdateApiKeyDto>
+  implements ApiKeyVerifier
+{
+  constructor(
+    @InjectEntityRepository(ApiKey)
+    apiKeyRepository: IRepository<ApiKey>,
+  ) {
+    super(apiKeyRepository);
+  }
+
+  protected getEntityName = () => 'API key';
+
+  /**
+   * Issue a key - only its hash is stored, so the returned key cannot be shown again
+   */
+  async issue(
+    createDto: CreateApiKeyDto,
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = `bnk_${randomBytes(6).toString('hex')}_${randomBytes(24).toString('base64url')}`;
+    const apiKey = await this.create({ ...createDto, key });
+    return { apiKey, key };
+  }
+
+  /**
+   * Revoke a key - it stops working at once and cannot be reactivated
+   */
+  async revoke(id: number): Promise<ApiKey> {
+    const apiKey = await this.findOne(id);
+    if (apiKey.revokedAt) {
+      return apiKey;
+    }
+    return this.save(id, { revokedAt: new Date() }, 'revoke');
+  }
+
+  async verify(key: string): Promise<AuthenticatedUser | null> {
+    const prefix = API_KEY_PATTERN.exec(key)?.[1];
+    if (!prefix) {
+      return null;
+    }
+
+    const [apiKey] = await this.repository.findBy({ prefix });
+    const now = new Date();
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= now) ||
+      !timingSafeEqual(Buffer.from(apiKey.keyHash, 'hex'), this.hash(key))
+    ) {
+      return null;
+    }
+
+    // Usage, not a change - written straight to the repository, without an audit entry
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_PRECISION_MS
+    ) {
+      await this.repository.update(apiKey.id, { lastUsedAt: now });
+    }
+
+    return {
+      id: `api-key:${apiKey.id}`,
+      type: 'api-key',
+      roles: [],
+      permissions: [],
+      scopes: apiKey.scopes,
+      tenantId: apiKey.tenantId ?? null,
+    };
+  }
+
+  protected beforeCreate({
+    key,
+    expiresAt,
+    ...createDto
+  }: IssueApiKeyInput): Partial<ApiKey> {
+    const expiry = expiresAt ? new Date(expiresAt) : null;
+    if (expiry && expiry.getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    return {
+      ...createDto,
+      scopes: [...new Set(createDto.scopes)],
+      prefix: API_KEY_PATTERN.exec(key)![1],
+      keyHash: this.hash(key).toString('hex'),
+      expiresAt: expiry,
+    };
+  }
+
+  /**
+   * Keys are long random secrets, so a fast hash is enough - no salt or stretching needed
+   */
+  private hash(key: string): Buffer {
+    return createHash('sha256').update(key).digest();
+  }
+}
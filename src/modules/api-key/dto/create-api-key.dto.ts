@@ -0,0 +1,15 @@
+import { BaseCreateDto } from '../../../common/base/base-dto';
+import { AutoApplyDecorators } from '../../../common/decorators/auto-apply.decorator';
+import { ApiKeyScopeType } from '../enums/api-key-scope.enum';
+import { CreateApiKeyMapping } from './mapping';
+
+/**
+ * DTO for issuing a new API key
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(CreateApiKeyMapping)
+export class CreateApiKeyDto extends BaseCreateDto {
+  name: string;
+  scopes: ApiKeyScopeType[];
+  expiresAt?: string;
+}
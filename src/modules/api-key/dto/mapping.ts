@@ -0,0 +1,32 @@
+import {
+  StringField,
+  EnumField,
+  DateTimeField,
+} from '../../../common/decorators/field.decorator';
+import { ApiKeyScopeType } from '../enums/api-key-scope.enum';
+
+/**
+ * Field mappings for ApiKey DTOs
+ * Each property maps to a field decorator with its validation rules
+ */
+export const CreateApiKeyMapping = {
+  name: () => StringField('Who uses the key', 'Order service', true, 1, 100),
+  scopes: () =>
+    EnumField(
+      ApiKeyScopeType,
+      'Granted scopes',
+      ['payments:read', 'payments:process'],
+      true,
+      true,
+    ),
+  expiresAt: () =>
+    DateTimeField(
+      'When the key stops working, never when omitted',
+      '2026-01-01T00:00:00Z',
+      false,
+    ),
+};
+
+export const UpdateApiKeyMapping = {
+  name: () => StringField('Who uses the key', 'Order service', false, 1, 100),
+};
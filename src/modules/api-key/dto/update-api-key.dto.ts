@@ -0,0 +1,13 @@
+import { BaseUpdateDto } from '../../../common/base/base-dto';
+import { AutoApplyDecorators } from '../../../common/decorators/auto-apply.decorator';
+import { UpdateApiKeyMapping } from './mapping';
+
+/**
+ * DTO for renaming an API key
+ * Validation rules are defined in dto/mapping.ts
+ * Scopes and expiry cannot be changed - issue a new key and revoke this one
+ */
+@AutoApplyDecorators(UpdateApiKeyMapping)
+export class UpdateApiKeyDto extends BaseUpdateDto {
+  name?: string;
+}
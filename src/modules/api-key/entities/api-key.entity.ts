@@ -0,0 +1,36 @@
+import { Column, Entity, Index } from 'typeorm';
+import { AutoEntity } from '../../../common/decorators/auto-entity.decorator';
+import { BaseEntity } from '../../../common/base/base-entity';
+import { NotAudited } from '../../../common/decorators/not-audited.decorator';
+import { ApiKeyScopeType } from '../enums/api-key-scope.enum';
+
+/**
+ * API key entity - a service-to-service credential
+ * Only the SHA-256 hash of the key is stored; the key itself is shown once
+ */
+@Entity('api_keys')
+@AutoEntity()
+export class ApiKey extends BaseEntity {
+  @Column()
+  name: string;
+
+  @Index({ unique: true })
+  @Column()
+  prefix: string; // Public start of the key, used to look it up
+
+  @NotAudited()
+  @Column()
+  keyHash: string;
+
+  @Column('simple-json')
+  scopes: ApiKeyScopeType[];
+
+  @Column({ type: 'datetime', nullable: true })
+  expiresAt?: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastUsedAt?: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  revokedAt?: Date | null;
+}
@@ -0,0 +1,10 @@
+/**
+ * API key scope enum - what a service-to-service key may call
+ * Endpoints opt in with { scopes: [...] } or @Scopes()
+ */
+export enum ApiKeyScopeType {
+  PAYMENTS_READ = 'payments:read',
+  PAYMENTS_WRITE = 'payments:write',
+  PAYMENTS_PROCESS = 'payments:process',
+  PAYMENTS_REFUND = 'payments:refund',
+}
@@ -0,0 +1,12 @@
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { ApiKeyResponseDto } from './api-key-response.dto';
+import { ApiKeyCreatedResponseMapping } from './mapping';
+
+/**
+ * Response DTO for a newly issued API key, the only one carrying the key
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(ApiKeyCreatedResponseMapping, { exclude: ['keyHash'] })
+export class ApiKeyCreatedResponseDto extends ApiKeyResponseDto {
+  key: string;
+}
@@ -0,0 +1,10 @@
+import { BaseListResponseDto } from '../../../common/base/base-dto';
+import { AutoListResponse } from '../../../common/decorators/auto-response.decorator';
+import { ApiKeyResponseDto } from './api-key-response.dto';
+
+/**
+ * Response DTO for API key list
+ * Swagger documentation is automatically configured via @AutoListResponse
+ */
+@AutoListResponse(ApiKeyResponseDto)
+export class ApiKeyListResponseDto extends BaseListResponseDto<ApiKeyResponseDto> {}
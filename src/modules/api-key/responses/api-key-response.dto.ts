@@ -0,0 +1,18 @@
+import { BaseResponseDto } from '../../../common/base/base-dto';
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { ApiKeyScopeType } from '../enums/api-key-scope.enum';
+import { ApiKeyResponseMapping } from './mapping';
+
+/**
+ * Response DTO for API key details - never includes the key or its hash
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(ApiKeyResponseMapping, { exclude: ['keyHash'] })
+export class ApiKeyResponseDto extends BaseResponseDto {
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScopeType[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  revokedAt?: Date | null;
+}
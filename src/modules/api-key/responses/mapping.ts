@@ -0,0 +1,56 @@
+import { ResponseFieldConfig } from '../../../common/decorators/auto-response.decorator';
+import { ApiKeyScopeType } from '../enums/api-key-scope.enum';
+
+/**
+ * Response field configuration for ApiKey DTOs
+ * Used by @AutoResponse decorator for Swagger documentation
+ */
+export const ApiKeyResponseMapping: Record<string, ResponseFieldConfig> = {
+  name: {
+    description: 'Who uses the key',
+    example: 'Order service',
+    required: true,
+    type: String,
+  },
+  prefix: {
+    description: 'Start of the key, to recognize it',
+    example: 'bnk_1a2b3c4d5e6f',
+    required: true,
+    type: String,
+  },
+  scopes: {
+    description: 'Granted scopes',
+    example: ['payments:read', 'payments:process'],
+    required: true,
+    enum: ApiKeyScopeType,
+    isArray: true,
+  },
+  expiresAt: {
+    description: 'When the key stops working, never when empty',
+    example: '2026-01-01T00:00:00.000Z',
+    required: false,
+    type: Date,
+  },
+  lastUsedAt: {
+    description: 'Last successful authentication, to the minute',
+    example: '2025-06-01T12:00:00.000Z',
+    required: false,
+    type: Date,
+  },
+  revokedAt: {
+    description: 'When the key was revoked',
+    example: null,
+    required: false,
+    type: Date,
+  },
+};
+
+export const ApiKeyCreatedResponseMapping: Record<string, ResponseFieldConfig> =
+  {
+    key: {
+      description: 'The API key - shown only in this response, store it now',
+      example: 'bnk_1a2b3c4d5e6f_Jx9...',
+      required: true,
+      type: String,
+    },
+  };
@@ -0,0 +1,12 @@
+import { BaseDto } from '../../../common/base/base-dto';
+import { AutoApplyDecorators } from '../../../common/decorators/auto-apply.decorator';
+import { CapturePaymentMapping } from './mapping';
+
+/**
+ * DTO for capturing an authorized payment (full or partial)
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(CapturePaymentMapping)
+export class CapturePaymentDto extends BaseDto {
+  amount?: number;
+}
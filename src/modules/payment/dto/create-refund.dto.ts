@@ -0,0 +1,13 @@
+import { BaseCreateDto } from '../../../common/base/base-dto';
+import { AutoApplyDecorators } from '../../../common/decorators/auto-apply.decorator';
+import { CreateRefundMapping } from './mapping';
+
+/**
+ * DTO for refunding part or all of a payment
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(CreateRefundMapping)
+export class CreateRefundDto extends BaseCreateDto {
+  amount: number;
+  reason: string;
+}
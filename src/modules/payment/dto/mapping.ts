@@ -1,23 +1,127 @@
-import { StringField, NumberField, EmailField } from '../../../common/decorators/field.decorator';
+import {
+  StringField,
+  AmountField,
+  CurrencyField,
+  EmailField,
+  EnumListField,
+  DateField,
+  TimeZoneField,
+} from '../../../common/decorators/field.decorator';
+import { QueryFieldConfig } from '../../../common/interfaces/list-query.interface';
+import type { ImportColumnType } from '../../../common/interfaces/import-job.interface';
+import { PaymentStatusType } from '../enums/payment-status.enum';
+import { PaymentWebhookEventStatus } from '../enums/payment-webhook-event-status.enum';
+import { PaymentSummaryGroupType } from '../enums/payment-summary-group.enum';
 
 /**
  * Field mappings for Payment DTOs
  * Each property maps to a field decorator with its validation rules
  */
 export const CreatePaymentMapping = {
-  amount: () => NumberField('Payment amount', 99.99, true, 0.01),
-  currency: () => StringField('Payment currency', 'USD', true, 3, 3),
-  customerEmail: () => EmailField('Customer email address', 'customer@example.com', true),
+  amount: () => AmountField('Payment amount in major units', 99.99, true),
+  currency: () => CurrencyField('Payment currency (ISO 4217)', 'USD', true),
+  customerEmail: () =>
+    EmailField('Customer email address', 'customer@example.com', true),
   customerName: () => StringField('Customer full name', 'John Doe', true),
-  description: () => StringField('Payment description', 'Payment for order #1234', false),
+  description: () =>
+    StringField('Payment description', 'Payment for order #1234', false),
+};
+
+/**
+ * CSV columns of POST /payments/import - rows are then validated by CreatePaymentMapping
+ */
+export const PaymentImportColumns: Record<
+  keyof typeof CreatePaymentMapping,
+  ImportColumnType
+> = {
+  amount: Number,
+  currency: String,
+  customerEmail: String,
+  customerName: String,
+  description: String,
 };
 
 export const UpdatePaymentMapping = {
-  amount: () => NumberField('Payment amount', 99.99, false, 0.01),
-  currency: () => StringField('Payment currency', 'USD', false, 3, 3),
-  status: () => StringField('Payment status', 'completed', false),
-  customerEmail: () => EmailField('Customer email address', 'customer@example.com', false),
+  amount: () => AmountField('Payment amount in major units', 99.99, false),
+  currency: () => CurrencyField('Payment currency (ISO 4217)', 'USD', false),
+  customerEmail: () =>
+    EmailField('Customer email address', 'customer@example.com', false),
   customerName: () => StringField('Customer full name', 'John Doe', false),
-  description: () => StringField('Payment description', 'Payment for order #1234', false),
+  description: () =>
+    StringField('Payment description', 'Payment for order #1234', false),
+};
+
+export const ProcessPaymentMapping = {
+  cardToken: () =>
+    StringField('Card token from the payment gateway', 'tok_visa', false),
+};
+
+export const CapturePaymentMapping = {
+  amount: () =>
+    AmountField(
+      'Amount to capture, defaults to the full authorized amount',
+      50.0,
+      false,
+    ),
+};
+
+export const PaymentSummaryQueryMapping = {
+  groupBy: () =>
+    EnumListField(
+      PaymentSummaryGroupType,
+      'Comma-separated groups, at most one of day, week and month',
+      'status,month',
+      false,
+    ),
+  from: () =>
+    DateField(
+      'First day of the range, in the time zone (default: 29 days before to)',
+      '2024-01-01',
+      false,
+    ),
+  to: () =>
+    DateField(
+      'Last day of the range, included (default: today in the time zone)',
+      '2024-01-31',
+      false,
+    ),
+  timezone: () =>
+    TimeZoneField(
+      'IANA time zone days, weeks and months are counted in (default UTC)',
+      'Europe/Berlin',
+      false,
+    ),
+};
+
+export const CreateRefundMapping = {
+  amount: () => AmountField('Refund amount', 25.0, true),
+  reason: () =>
+    StringField('Refund reason', 'Customer returned one item', true, 1, 500),
 };
 
+/**
+ * Fields whitelisted for sort and filter[field][op] on GET /payments
+ */
+export const PaymentQueryMapping: Record<string, QueryFieldConfig> = {
+  amount: { type: Number },
+  capturedAmount: { type: Number },
+  refundedAmount: { type: Number },
+  currency: { type: String },
+  status: { type: String, enum: PaymentStatusType },
+  customerEmail: { type: String },
+  customerName: { type: String },
+  description: { type: String, sortable: false },
+  transactionId: { type: String, sortable: false },
+};
+
+/**
+ * Fields whitelisted for sort and filter[field][op] on GET /payments/webhooks
+ */
+export const PaymentWebhookEventQueryMapping: Record<string, QueryFieldConfig> =
+  {
+    provider: { type: String },
+    eventId: { type: String, sortable: false },
+    type: { type: String },
+    status: { type: String, enum: PaymentWebhookEventStatus },
+    paymentId: { type: Number },
+  };
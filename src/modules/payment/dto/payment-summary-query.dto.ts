@@ -0,0 +1,16 @@
+import { BaseDto } from '../../../common/base/base-dto';
+import { AutoApplyDecorators } from '../../../common/decorators/auto-apply.decorator';
+import { PaymentSummaryGroupType } from '../enums/payment-summary-group.enum';
+import { PaymentSummaryQueryMapping } from './mapping';
+
+/**
+ * Query of GET /payments/reports/summary
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(PaymentSummaryQueryMapping)
+export class PaymentSummaryQueryDto extends BaseDto {
+  groupBy?: PaymentSummaryGroupType[];
+  from?: string;
+  to?: string;
+  timezone?: string;
+}
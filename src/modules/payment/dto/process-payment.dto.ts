@@ -0,0 +1,12 @@
+import { BaseDto } from '../../../common/base/base-dto';
+import { AutoApplyDecorators } from '../../../common/decorators/auto-apply.decorator';
+import { ProcessPaymentMapping } from './mapping';
+
+/**
+ * DTO for processing a pending payment through the payment gateway
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(ProcessPaymentMapping)
+export class ProcessPaymentDto extends BaseDto {
+  cardToken?: string;
+}
@@ -5,12 +5,12 @@ import { UpdatePaymentMapping } from './mapping';
 /**
  * DTO for updating an existing payment
  * Validation rules are defined in dto/mapping.ts
+ * Status is not updatable here - use the payment actions (process, refund)
  */
 @AutoApplyDecorators(UpdatePaymentMapping)
 export class UpdatePaymentDto extends BaseUpdateDto {
   amount?: number;
   currency?: string;
-  status?: string;
   customerEmail?: string;
   customerName?: string;
   description?: string;
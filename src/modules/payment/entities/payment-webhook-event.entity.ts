@@ -0,0 +1,37 @@
+import { Column, Entity, Index } from 'typeorm';
+import { AutoEntity } from '../../../common/decorators/auto-entity.decorator';
+import { BaseEntity } from '../../../common/base/base-entity';
+import { PaymentWebhookEventStatus } from '../enums/payment-webhook-event-status.enum';
+
+/**
+ * Inbound gateway webhook - one row per provider event ID
+ */
+@Entity('payment_webhook_events')
+@Index(['provider', 'eventId'], { unique: true })
+@AutoEntity()
+export class PaymentWebhookEvent extends BaseEntity {
+  @Column()
+  provider: string;
+
+  @Column()
+  eventId: string;
+
+  @Column()
+  type: string;
+
+  @Column('simple-json')
+  payload: Record<string, unknown>;
+
+  @Column({
+    type: 'simple-enum',
+    enum: PaymentWebhookEventStatus,
+    default: PaymentWebhookEventStatus.UNHANDLED,
+  })
+  status: PaymentWebhookEventStatus;
+
+  @Column({ type: 'integer', nullable: true })
+  paymentId?: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  error?: string | null;
+}
@@ -1,20 +1,64 @@
+import { Column, Entity } from 'typeorm';
 import { AutoEntity } from '../../../common/decorators/auto-entity.decorator';
+import { BaseEntity } from '../../../common/base/base-entity';
 import { PaymentStatusType } from '../enums/payment-status.enum';
 
 /**
  * Payment entity with automatic property mapping
+ * Amounts are integer minor units of the payment currency (cents for USD)
  */
+@Entity('payments')
 @AutoEntity()
-export class Payment {
-  id: number;
+export class Payment extends BaseEntity {
+  @Column('integer')
   amount: number;
+
+  @Column({ length: 3 })
   currency: string;
+
+  @Column({
+    type: 'simple-enum',
+    enum: PaymentStatusType,
+    default: PaymentStatusType.PENDING,
+  })
   status: PaymentStatusType;
+
+  @Column()
   customerEmail: string;
+
+  @Column()
   customerName: string;
+
+  @Column({ nullable: true })
   description?: string;
+
+  @Column({ nullable: true })
   transactionId?: string;
-  createdAt: Date;
-  updatedAt: Date;
+
+  @Column('integer', { default: 0 })
+  capturedAmount: number;
+
+  @Column('integer', { default: 0 })
+  refundedAmount: number;
+
+  @Column({ type: 'datetime', nullable: true })
+  authorizationExpiresAt?: Date | null;
+
+  @Column({ nullable: true })
+  gatewayReference?: string;
+
+  @Column({ nullable: true })
+  declineCode?: string;
+
+  @Column({ nullable: true })
+  declineMessage?: string;
 }
 
+/**
+ * Captured amount of a payment still available for refunds, in minor units
+ */
+export function getRefundableAmount(
+  payment: Pick<Payment, 'capturedAmount' | 'refundedAmount'>,
+): number {
+  return (payment.capturedAmount ?? 0) - (payment.refundedAmount ?? 0);
+}
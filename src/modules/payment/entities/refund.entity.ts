@@ -0,0 +1,30 @@
+import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
+import { AutoEntity } from '../../../common/decorators/auto-entity.decorator';
+import { BaseEntity } from '../../../common/base/base-entity';
+import { Payment } from './payment.entity';
+
+/**
+ * Refund entity - one row per (partial) refund of a payment
+ */
+@Entity('refunds')
+@AutoEntity()
+export class Refund extends BaseEntity {
+  @Column()
+  paymentId: number;
+
+  @ManyToOne(() => Payment, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'paymentId' })
+  payment?: Payment;
+
+  @Column('integer')
+  amount: number; // Minor units of the payment currency
+
+  @Column({ length: 3 })
+  currency: string;
+
+  @Column()
+  reason: string;
+
+  @Column({ nullable: true })
+  gatewayReference?: string;
+}
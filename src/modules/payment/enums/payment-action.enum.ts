@@ -0,0 +1,10 @@
+/**
+ * Payment action enum - named state machine transitions
+ */
+export enum PaymentActionType {
+  PROCESS = 'process',
+  AUTHORIZE = 'authorize',
+  CAPTURE = 'capture',
+  VOID = 'void',
+  REFUND = 'refund',
+}
@@ -3,8 +3,11 @@
  */
 export enum PaymentStatusType {
   PENDING = 'pending',
+  AUTHORIZED = 'authorized',
+  CAPTURED = 'captured',
+  VOIDED = 'voided',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  PARTIALLY_REFUNDED = 'partially_refunded',
   REFUNDED = 'refunded',
 }
-
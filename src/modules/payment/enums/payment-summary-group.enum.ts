@@ -0,0 +1,10 @@
+/**
+ * Payment summary grouping - fields and calendar periods
+ */
+export enum PaymentSummaryGroupType {
+  CURRENCY = 'currency',
+  STATUS = 'status',
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
@@ -0,0 +1,10 @@
+/**
+ * Outcome of an inbound gateway webhook
+ */
+export enum PaymentWebhookEventStatus {
+  RECEIVED = 'received', // Being applied
+  PROCESSED = 'processed', // Applied to a payment
+  IGNORED = 'ignored', // Payment already reflects the event
+  UNHANDLED = 'unhandled', // Unknown event type or payment, kept for inspection
+  FAILED = 'failed', // Applying the event threw
+}
@@ -0,0 +1,78 @@
+import { HttpStatus } from '@nestjs/common';
+import { DomainError } from '../../../common/errors/domain.error';
+import { PaymentStatusType } from '../enums/payment-status.enum';
+
+/**
+ * PAYMENT_NOT_DELETABLE - the payment moved money that was not released
+ */
+export class PaymentNotDeletableError extends DomainError {
+  constructor(status: PaymentStatusType) {
+    super(
+      'PAYMENT_NOT_DELETABLE',
+      `Cannot delete ${status} payments`,
+      HttpStatus.BAD_REQUEST,
+      { status },
+    );
+  }
+}
+
+/**
+ * PAYMENT_AMOUNT_LOCKED - amount or currency changed after the payment left pending
+ */
+export class PaymentAmountLockedError extends DomainError {
+  constructor(status: PaymentStatusType) {
+    super(
+      'PAYMENT_AMOUNT_LOCKED',
+      `Cannot change the amount or currency of ${status} payments`,
+      HttpStatus.BAD_REQUEST,
+      { status },
+    );
+  }
+}
+
+/**
+ * PAYMENT_AMOUNT_INVALID - zero or negative payment amount
+ */
+export class PaymentAmountInvalidError extends DomainError {
+  constructor() {
+    super('PAYMENT_AMOUNT_INVALID', 'Payment amount must be positive');
+  }
+}
+
+/**
+ * PAYMENT_AMOUNT_EXCEEDED - a capture or refund above what is left
+ * Amounts are in major units, as sent by the client
+ */
+export class PaymentAmountExceededError extends DomainError {
+  constructor(
+    operation: 'capture' | 'refund',
+    amount: number,
+    available: number,
+  ) {
+    const limit = operation === 'capture' ? 'authorized' : 'refundable';
+    super(
+      'PAYMENT_AMOUNT_EXCEEDED',
+      `${operation === 'capture' ? 'Capture' : 'Refund'} amount ${amount} exceeds ${limit} amount ${available}`,
+      HttpStatus.BAD_REQUEST,
+      { operation, amount, available },
+    );
+  }
+}
+
+/**
+ * PAYMENT_DECLINED - the gateway refused a capture or refund
+ */
+export class PaymentDeclinedError extends DomainError {
+  constructor(
+    operation: 'capture' | 'refund',
+    declineMessage: string | undefined,
+    declineCode?: string,
+  ) {
+    super(
+      'PAYMENT_DECLINED',
+      `${operation === 'capture' ? 'Capture' : 'Refund'} declined: ${declineMessage}`,
+      HttpStatus.BAD_REQUEST,
+      { operation, declineCode },
+    );
+  }
+}
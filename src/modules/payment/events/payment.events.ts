@@ -0,0 +1,51 @@
+import { DomainEvent } from '../../../common/events/domain-event';
+import { Payment } from '../entities/payment.entity';
+import { Refund } from '../entities/refund.entity';
+import { PaymentStatusType } from '../enums/payment-status.enum';
+
+/**
+ * Payment domain events - published by PaymentService after each write
+ * Subscribe with @OnDomainEvent(PaymentCompleted)
+ */
+export class PaymentCreated extends DomainEvent {
+  constructor(readonly payment: Payment) {
+    super();
+  }
+}
+
+export class PaymentStatusChanged extends DomainEvent {
+  constructor(
+    readonly payment: Payment,
+    readonly from: PaymentStatusType,
+    readonly to: PaymentStatusType,
+  ) {
+    super();
+  }
+}
+
+/**
+ * Money was taken - processed in one step or captured after an authorization
+ */
+export class PaymentCompleted extends DomainEvent {
+  constructor(readonly payment: Payment) {
+    super();
+  }
+}
+
+export class PaymentFailed extends DomainEvent {
+  constructor(readonly payment: Payment) {
+    super();
+  }
+}
+
+/**
+ * A refund was added to the ledger - partial or full
+ */
+export class PaymentRefunded extends DomainEvent {
+  constructor(
+    readonly payment: Payment,
+    readonly refund: Refund,
+  ) {
+    super();
+  }
+}
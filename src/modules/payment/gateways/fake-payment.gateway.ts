@@ -0,0 +1,255 @@
+import {
+  GatewayCaptureRequest,
+  GatewayChargeRequest,
+  GatewayChargeStatus,
+  GatewayRefundRequest,
+  GatewayResult,
+  GatewayWebhookEvent,
+  GatewayWebhookHeaders,
+  GatewayWebhookOutcome,
+  PaymentGateway,
+} from './payment-gateway.interface';
+import { getPaymentConfig } from '../payment.config';
+import { verifyWebhookSignature } from '../../webhook/webhook-signature';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+export const FAKE_TIMESTAMP_HEADER = 'x-fake-timestamp';
+
+/**
+ * Sandbox webhook event types and what they mean for a payment
+ */
+export const FAKE_WEBHOOK_OUTCOMES: Record<string, GatewayWebhookOutcome> = {
+  'charge.succeeded': 'succeeded',
+  'charge.captured': 'captured',
+  'charge.failed': 'failed',
+  'charge.refunded': 'refunded',
+  'authorization.voided': 'voided',
+};
+
+/**
+ * Body of a sandbox webhook
+ */
+export interface FakeWebhookPayload {
+  id: string;
+  type: string;
+  data?: {
+    reference?: string;
+    gatewayReference?: string;
+    refundReference?: string;
+    amount?: number;
+    declineCode?: string;
+    declineMessage?: string;
+  };
+}
+
+/**
+ * Sandbox decline rules, checked by card token first, then by the last two minor-unit digits
+ */
+export const FAKE_GATEWAY_DECLINES: Record<
+  string,
+  { declineCode: string; declineMessage: string }
+> = {
+  tok_card_declined: {
+    declineCode: 'card_declined',
+    declineMessage: 'The card was declined',
+  },
+  tok_insufficient_funds: {
+    declineCode: 'insufficient_funds',
+    declineMessage: 'The card has insufficient funds',
+  },
+  tok_expired_card: {
+    declineCode: 'expired_card',
+    declineMessage: 'The card has expired',
+  },
+  tok_processing_error: {
+    declineCode: 'processing_error',
+    declineMessage: 'An error occurred while processing the card',
+  },
+};
+
+const DECLINING_CENTS: Record<number, string> = {
+  51: 'tok_card_declined',
+  52: 'tok_insufficient_funds',
+  53: 'tok_expired_card',
+  54: 'tok_processing_error',
+};
+
+interface FakeCharge {
+  amount: number;
+  refunded: number;
+  state: 'authorized' | 'captured' | 'voided' | 'failed';
+}
+
+/**
+ * Deterministic fake gateway - behaves like a processor sandbox
+ *
+ * - cardToken tok_card_declined | tok_insufficient_funds | tok_expired_card | tok_processing_error declines
+ * - amounts whose minor units end in 51 | 52 | 53 | 54 (e.g. 20.52 USD) decline with the same codes
+ * - anything else succeeds
+ *
+ * Webhooks are signed like our outbound ones: X-Fake-Signature is
+ * sha256=HMAC(PAYMENT_WEBHOOK_SECRET, "<X-Fake-Timestamp>.<raw body>")
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  readonly name = 'fake';
+  private readonly charges = new Map<string, FakeCharge>();
+
+  charge(request: GatewayChargeRequest): Promise<GatewayResult> {
+    return Promise.resolve(this.open(request, 'fake_ch', 'captured'));
+  }
+
+  authorize(request: GatewayChargeRequest): Promise<GatewayResult> {
+    return Promise.resolve(this.open(request, 'fake_auth', 'authorized'));
+  }
+
+  capture(request: GatewayCaptureRequest): Promise<GatewayResult> {
+    const charge = this.charges.get(request.gatewayReference);
+
+    if (charge?.state !== 'authorized') {
+      return Promise.resolve({
+        success: false,
+        declineCode: 'authorization_not_found',
+        declineMessage: 'No open authorization found for this reference',
+      });
+    }
+
+    if (request.amount > charge.amount) {
+      return Promise.resolve({
+        success: false,
+        declineCode: 'capture_exceeds_authorization',
+        declineMessage: 'Capture amount exceeds the authorized amount',
+      });
+    }
+
+    charge.amount = request.amount;
+    charge.state = 'captured';
+    return Promise.resolve({
+      success: true,
+      gatewayReference: request.gatewayReference,
+    });
+  }
+
+  void(gatewayReference: string): Promise<GatewayResult> {
+    const charge = this.charges.get(gatewayReference);
+
+    if (charge?.state !== 'authorized') {
+      return Promise.resolve({
+        success: false,
+        declineCode: 'authorization_not_found',
+        declineMessage: 'No open authorization found for this reference',
+      });
+    }
+
+    charge.state = 'voided';
+    return Promise.resolve({ success: true, gatewayReference });
+  }
+
+  refund(request: GatewayRefundRequest): Promise<GatewayResult> {
+    const charge = this.charges.get(request.gatewayReference);
+
+    if (charge?.state !== 'captured') {
+      return Promise.resolve({
+        success: false,
+        declineCode: 'charge_not_found',
+        declineMessage: 'No successful charge found for this reference',
+      });
+    }
+
+    if (charge.refunded + request.amount > charge.amount) {
+      return Promise.resolve({
+        success: false,
+        declineCode: 'refund_exceeds_charge',
+        declineMessage: 'Refund amount exceeds the remaining charge amount',
+      });
+    }
+
+    charge.refunded += request.amount;
+    return Promise.resolve({
+      success: true,
+      gatewayReference: `fake_re_${request.gatewayReference}_${charge.refunded}`,
+    });
+  }
+
+  getStatus(gatewayReference: string): Promise<GatewayChargeStatus> {
+    const charge = this.charges.get(gatewayReference);
+
+    if (!charge) {
+      return Promise.resolve('not_found');
+    }
+    if (charge.state !== 'captured') {
+      return Promise.resolve(charge.state);
+    }
+    if (charge.refunded === 0) {
+      return Promise.resolve('succeeded');
+    }
+    return Promise.resolve(
+      charge.refunded >= charge.amount ? 'refunded' : 'partially_refunded',
+    );
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: GatewayWebhookHeaders): boolean {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+    const timestamp = Number(headers[FAKE_TIMESTAMP_HEADER]);
+    const { webhookSecret, webhookToleranceSeconds } = getPaymentConfig();
+
+    if (
+      !webhookSecret ||
+      typeof signature !== 'string' ||
+      !Number.isInteger(timestamp)
+    ) {
+      return false;
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > webhookToleranceSeconds) {
+      return false;
+    }
+
+    return verifyWebhookSignature(
+      webhookSecret,
+      timestamp,
+      rawBody.toString('utf8'),
+      signature,
+    );
+  }
+
+  parseWebhook(rawBody: Buffer): GatewayWebhookEvent {
+    const payload = JSON.parse(rawBody.toString('utf8')) as FakeWebhookPayload;
+    if (typeof payload.id !== 'string' || typeof payload.type !== 'string') {
+      throw new Error('Webhook payload must have a string id and type');
+    }
+
+    return {
+      ...payload.data,
+      id: payload.id,
+      type: payload.type,
+      outcome: FAKE_WEBHOOK_OUTCOMES[payload.type],
+    };
+  }
+
+  private open(
+    request: GatewayChargeRequest,
+    prefix: string,
+    state: FakeCharge['state'],
+  ): GatewayResult {
+    const gatewayReference = `${prefix}_${request.reference}`;
+    const decline = this.findDecline(request);
+
+    this.charges.set(gatewayReference, {
+      amount: request.amount,
+      refunded: 0,
+      state: decline ? 'failed' : state,
+    });
+
+    return decline
+      ? { success: false, gatewayReference, ...decline }
+      : { success: true, gatewayReference };
+  }
+
+  private findDecline(request: GatewayChargeRequest) {
+    if (request.cardToken && FAKE_GATEWAY_DECLINES[request.cardToken]) {
+      return FAKE_GATEWAY_DECLINES[request.cardToken];
+    }
+
+    const token = DECLINING_CENTS[request.amount % 100];
+    return token ? FAKE_GATEWAY_DECLINES[token] : undefined;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Injection token for the configured PaymentGateway
+ */
+export const PAYMENT_GATEWAY = 'PAYMENT_GATEWAY';
+
+// Amounts sent to gateways are integer minor units of the currency
+
+export interface GatewayChargeRequest {
+  reference: string; // Our transaction ID
+  amount: number;
+  currency: string;
+  cardToken?: string;
+}
+
+export interface GatewayCaptureRequest {
+  gatewayReference: string;
+  amount: number;
+  currency: string;
+}
+
+export interface GatewayRefundRequest {
+  gatewayReference: string;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Outcome of a gateway call
+ * Declined calls carry the processor's decline code and message
+ */
+export interface GatewayResult {
+  success: boolean;
+  gatewayReference?: string;
+  declineCode?: string;
+  declineMessage?: string;
+}
+
+export type GatewayChargeStatus =
+  | 'authorized'
+  | 'voided'
+  | 'succeeded'
+  | 'failed'
+  | 'refunded'
+  | 'partially_refunded'
+  | 'not_found';
+
+/**
+ * What an asynchronous gateway notification means for our payment
+ */
+export type GatewayWebhookOutcome =
+  | 'succeeded' // Charged (or captured) successfully
+  | 'captured'
+  | 'failed'
+  | 'voided'
+  | 'refunded';
+
+/**
+ * Gateway notification normalized by the provider implementation
+ * outcome is undefined for event types we do not act on
+ */
+export interface GatewayWebhookEvent {
+  id: string; // Provider event ID, used for deduplication
+  type: string; // Provider event type
+  outcome?: GatewayWebhookOutcome;
+  reference?: string; // Our transaction ID, when the provider echoes it
+  gatewayReference?: string;
+  refundReference?: string;
+  amount?: number;
+  declineCode?: string;
+  declineMessage?: string;
+}
+
+export type GatewayWebhookHeaders = Record<
+  string,
+  string | string[] | undefined
+>;
+
+/**
+ * Payment processor contract
+ * Implementations are selected by PAYMENT_GATEWAY in payment-gateway.provider.ts
+ */
+export interface PaymentGateway {
+  readonly name: string;
+  charge(request: GatewayChargeRequest): Promise<GatewayResult>;
+  authorize(request: GatewayChargeRequest): Promise<GatewayResult>;
+  capture(request: GatewayCaptureRequest): Promise<GatewayResult>;
+  void(gatewayReference: string): Promise<GatewayResult>;
+  refund(request: GatewayRefundRequest): Promise<GatewayResult>;
+  getStatus(gatewayReference: string): Promise<GatewayChargeStatus>;
+
+  // Inbound notifications - optional, gateways without them reject POST /payments/webhooks/:provider
+  verifyWebhook?(rawBody: Buffer, headers: GatewayWebhookHeaders): boolean;
+  parseWebhook?(rawBody: Buffer): GatewayWebhookEvent;
+}
@@ -0,0 +1,31 @@
+import { Provider } from '@nestjs/common';
+import { FakePaymentGateway } from './fake-payment.gateway';
+import { PAYMENT_GATEWAY, PaymentGateway } from './payment-gateway.interface';
+import { getPaymentConfig } from '../payment.config';
+
+/**
+ * Available gateway implementations, keyed by the PAYMENT_GATEWAY env value
+ * Register real processors here
+ */
+const GATEWAYS: Record<string, () => PaymentGateway> = {
+  fake: () => new FakePaymentGateway(),
+};
+
+/**
+ * Provides the PaymentGateway selected by PAYMENT_GATEWAY (default: fake)
+ */
+export const PaymentGatewayProvider: Provider = {
+  provide: PAYMENT_GATEWAY,
+  useFactory: (): PaymentGateway => {
+    const name = getPaymentConfig().gateway;
+    const factory = GATEWAYS[name];
+
+    if (!factory) {
+      throw new Error(
+        `Unknown payment gateway '${name}'. Available: ${Object.keys(GATEWAYS).join(', ')}`,
+      );
+    }
+
+    return factory();
+  },
+};
@@ -0,0 +1,21 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { PaymentService } from '../payment.service';
+
+/**
+ * Voids authorizations that were not captured within the configured window
+ */
+@Injectable()
+export class AuthorizationExpiryJob {
+  private readonly logger = new Logger(AuthorizationExpiryJob.name);
+
+  constructor(private readonly paymentService: PaymentService) {}
+
+  @Interval(60_000)
+  async handle(): Promise<void> {
+    const voided = await this.paymentService.expireAuthorizations();
+    if (voided > 0) {
+      this.logger.log(`Voided ${voided} expired authorization(s)`);
+    }
+  }
+}
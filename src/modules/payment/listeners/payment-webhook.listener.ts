@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { OnDomainEvent } from '../../../common/decorators/on-domain-event.decorator';
+import { WebhookDispatcher } from '../../webhook/webhook-dispatcher.service';
+import { WebhookEventType } from '../../webhook/enums/webhook-event.enum';
+import {
+  PaymentCompleted,
+  PaymentCreated,
+  PaymentFailed,
+  PaymentRefunded,
+} from '../events/payment.events';
+import { PaymentResponseDto } from '../responses/payment-response.dto';
+
+/**
+ * Forwards payment domain events to webhook subscribers
+ */
+@Injectable()
+export class PaymentWebhookListener {
+  constructor(private readonly webhookDispatcher: WebhookDispatcher) {}
+
+  @OnDomainEvent(PaymentCreated)
+  async onCreated({ payment }: PaymentCreated): Promise<void> {
+    await this.forward(WebhookEventType.PAYMENT_CREATED, payment);
+  }
+
+  @OnDomainEvent(PaymentCompleted)
+  async onCompleted({ payment }: PaymentCompleted): Promise<void> {
+    await this.forward(WebhookEventType.PAYMENT_COMPLETED, payment);
+  }
+
+  @OnDomainEvent(PaymentFailed)
+  async onFailed({ payment }: PaymentFailed): Promise<void> {
+    await this.forward(WebhookEventType.PAYMENT_FAILED, payment);
+  }
+
+  @OnDomainEvent(PaymentRefunded)
+  async onRefunded({ payment }: PaymentRefunded): Promise<void> {
+    await this.forward(WebhookEventType.PAYMENT_REFUNDED, payment);
+  }
+
+  private async forward(
+    event: WebhookEventType,
+    payment: PaymentCreated['payment'],
+  ): Promise<void> {
+    await this.webhookDispatcher.publish(
+      event,
+      new PaymentResponseDto(payment),
+    );
+  }
+}
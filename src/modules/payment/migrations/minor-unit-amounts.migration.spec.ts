@@ -0,0 +1,65 @@
+import { DataSource } from 'typeorm';
+import { Payment } from '../entities/payment.entity';
+import { Refund } from '../entities/refund.entity';
+import { MinorUnitAmounts1760832000000 } from './minor-unit-amounts.migration';
+
+// Tables as they were while amounts were stored in major units
+const LEGACY_SCHEMA = [
+  `CREATE TABLE "payments" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "deletedAt" datetime, "version" integer NOT NULL DEFAULT (1), "amount" real NOT NULL, "currency" varchar(3) NOT NULL, "status" varchar NOT NULL DEFAULT ('pending'), "customerEmail" varchar NOT NULL, "customerName" varchar NOT NULL, "description" varchar, "transactionId" varchar, "capturedAmount" real NOT NULL DEFAULT (0), "refundedAmount" real NOT NULL DEFAULT (0))`,
+  `CREATE TABLE "refunds" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), "deletedAt" datetime, "version" integer NOT NULL DEFAULT (1), "paymentId" integer NOT NULL, "amount" real NOT NULL, "reason" varchar NOT NULL, "gatewayReference" varchar)`,
+  `INSERT INTO "payments" ("amount", "currency", "status", "customerEmail", "customerName", "capturedAmount", "refundedAmount") VALUES (99.99, 'USD', 'partially_refunded', 'alice@example.com', 'Alice', 99.99, 10.5), (1500, 'JPY', 'pending', 'bob@example.com', 'Bob', 0, 0)`,
+  `INSERT INTO "refunds" ("paymentId", "amount", "reason") VALUES (1, 10.5, 'Damaged')`,
+];
+
+describe('MinorUnitAmounts1760832000000', () => {
+  let dataSource: DataSource;
+
+  const initialize = async () => {
+    dataSource = new DataSource({
+      type: 'better-sqlite3',
+      database: ':memory:',
+      entities: [Payment, Refund],
+      migrations: [MinorUnitAmounts1760832000000],
+    });
+    await dataSource.initialize();
+  };
+
+  afterEach(async () => {
+    await dataSource.destroy();
+  });
+
+  it('should convert major-unit amounts before schema sync', async () => {
+    await initialize();
+    for (const statement of LEGACY_SCHEMA) {
+      await dataSource.query(statement);
+    }
+
+    await dataSource.runMigrations();
+    await dataSource.synchronize();
+
+    const payments = await dataSource
+      .getRepository(Payment)
+      .find({ order: { id: 'ASC' } });
+    expect(payments).toMatchObject([
+      { amount: 9999, capturedAmount: 9999, refundedAmount: 1050 },
+      { amount: 1500, capturedAmount: 0, refundedAmount: 0 },
+    ]);
+    expect(await dataSource.getRepository(Refund).find()).toMatchObject([
+      { paymentId: 1, amount: 1050, currency: 'USD' },
+    ]);
+  });
+
+  it('should leave a new database untouched', async () => {
+    await initialize();
+    await dataSource.synchronize();
+    await dataSource.query(
+      `INSERT INTO "payments" ("amount", "currency", "customerEmail", "customerName") VALUES (9999, 'USD', 'alice@example.com', 'Alice')`,
+    );
+
+    await dataSource.runMigrations();
+
+    expect(await dataSource.getRepository(Payment).find()).toMatchObject([
+      { amount: 9999 },
+    ]);
+  });
+});
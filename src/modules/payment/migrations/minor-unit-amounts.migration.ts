@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+import { getCurrencyRegistry } from '../../../common/currency/currency.registry';
+
+const PAYMENT_AMOUNTS = ['amount', 'capturedAmount', 'refundedAmount'];
+
+/**
+ * Converts payment and refund amounts from major units (REAL, 99.99) to
+ * integer minor units (9999), using each payment's currency exponent
+ *
+ * Runs before schema sync, which then turns the columns into integers. Only
+ * acts on databases that still have REAL amounts, so new databases and
+ * converted ones are left alone. Refunds get the currency of their payment
+ */
+export class MinorUnitAmounts1760832000000 implements MigrationInterface {
+  async up(queryRunner: QueryRunner): Promise<void> {
+    const payments = await queryRunner.getTable('payments');
+    const columns = PAYMENT_AMOUNTS.filter(
+      (name) => payments?.findColumnByName(name)?.type === 'real',
+    );
+    if (!columns.includes('amount')) {
+      return;
+    }
+
+    const refunds = await queryRunner.getTable('refunds');
+    if (refunds && !refunds.findColumnByName('currency')) {
+      await queryRunner.query(
+        `ALTER TABLE "refunds" ADD COLUMN "currency" varchar(3) NOT NULL DEFAULT ''`,
+      );
+    }
+    if (refunds) {
+      await queryRunner.query(
+        `UPDATE "refunds" SET "currency" = (SELECT "currency" FROM "payments" WHERE "payments"."id" = "refunds"."paymentId")`,
+      );
+    }
+
+    const registry = getCurrencyRegistry();
+    const currencies = (await queryRunner.query(
+      `SELECT DISTINCT "currency" FROM "payments"`,
+    )) as { currency: string }[];
+
+    for (const { currency } of currencies) {
+      const factor = 10 ** registry.exponentOf(currency);
+      const assignments = columns
+        .map((name) => `"${name}" = ROUND("${name}" * ${factor})`)
+        .join(', ');
+
+      await queryRunner.query(
+        `UPDATE "payments" SET ${assignments} WHERE "currency" = ?`,
+        [currency],
+      );
+      if (refunds) {
+        await queryRunner.query(
+          `UPDATE "refunds" SET "amount" = ROUND("amount" * ${factor}) WHERE "currency" = ?`,
+          [currency],
+        );
+      }
+    }
+  }
+
+  async down(): Promise<void> {
+    // Major-unit REAL amounts are not restored; the entities only read minor units
+  }
+}
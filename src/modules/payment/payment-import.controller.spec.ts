@@ -0,0 +1,107 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../../common/database/database.module';
+import { IdempotencyModule } from '../../common/idempotency/idempotency.module';
+import { DomainEventsModule } from '../../common/events/domain-events.module';
+import { ImportJobRegistry } from '../../common/import/import-job.registry';
+import { ValidationPipe } from '../../common/pipes/validation.pipe';
+import { ResponseInterceptor } from '../../common/interceptors/response.interceptor';
+import type { ImportJob } from '../../common/interfaces/import-job.interface';
+import { PaymentModule } from './payment.module';
+import { PaymentService } from './payment.service';
+
+const CSV = [
+  'amount,currency,customerEmail,customerName,description',
+  '10.50,USD,alice@example.com,Alice,Order 1',
+  '5,USD,not-an-email,Bob,',
+  '1.234,USD,carol@example.com,Carol,Too many decimals',
+  '20,EUR,dave@example.com,"Dave, Jr.",',
+].join('\n');
+
+describe('PaymentImportController', () => {
+  let app: INestApplication<App>;
+  let paymentService: PaymentService;
+  let importJobs: ImportJobRegistry;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        IdempotencyModule.forRoot(),
+        DomainEventsModule.forRoot(),
+        PaymentModule,
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe());
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+
+    paymentService = module.get(PaymentService);
+    importJobs = module.get(ImportJobRegistry);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  async function importCsv(csv: string, query = ''): Promise<ImportJob> {
+    const server = app.getHttpServer();
+    const started = await request(server)
+      .post(`/payments/import${query}`)
+      .attach('file', Buffer.from(csv), 'payments.csv')
+      .expect(202);
+    const { id } = (started.body as { data: ImportJob }).data;
+
+    await importJobs.flush();
+    const response = await request(server)
+      .get(`/payments/import/${id}`)
+      .expect(200);
+    return (response.body as { data: ImportJob }).data;
+  }
+
+  it('should write valid rows and report the others by row', async () => {
+    const job = await importCsv(CSV);
+
+    expect(job).toMatchObject({
+      status: 'completed',
+      dryRun: false,
+      total: 4,
+      processed: 4,
+      succeeded: 2,
+      failed: 2,
+    });
+    expect(job.errors.map(({ row }) => row)).toEqual([3, 4]);
+    expect(job.errors[0].errors).toContain('customerEmail must be an email');
+    expect(job.errors[1].errors[0]).toMatch(/decimal/);
+    expect(
+      (await paymentService.findAll()).map((payment) => payment.customerName),
+    ).toEqual(['Alice', 'Dave, Jr.']);
+  });
+
+  it('should write nothing on a dry run', async () => {
+    const job = await importCsv(CSV, '?dryRun=true');
+
+    expect(job).toMatchObject({
+      status: 'completed',
+      dryRun: true,
+      succeeded: 2,
+      failed: 2,
+    });
+    expect(await paymentService.findAll()).toHaveLength(0);
+  });
+
+  it('should reject a file with unknown columns before starting a job', async () => {
+    await request(app.getHttpServer())
+      .post('/payments/import')
+      .attach(
+        'file',
+        Buffer.from('amount,currency,email\n1,USD,a@b.c'),
+        'payments.csv',
+      )
+      .expect(400);
+  });
+});
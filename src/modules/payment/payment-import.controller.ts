@@ -0,0 +1,114 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  Param,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { getImportConfig } from '../../common/config/import.config';
+import { ImportJobResponseDto } from '../../common/import/responses/import-job-response.dto';
+import {
+  ApiAuthentication,
+  Scopes,
+} from '../../common/decorators/access.decorator';
+import { ApiKeyScopeType } from '../api-key/enums/api-key-scope.enum';
+import { PaymentImportService } from './payment-import.service';
+import { PaymentImportColumns } from './dto/mapping';
+
+/**
+ * Payment CSV import
+ *
+ * Uploads are accepted as multipart/form-data with a "file" field and run
+ * as a job; clients poll GET /payments/import/:jobId for progress and results
+ */
+@Controller('payments/import')
+@ApiTags('Payment')
+@ApiAuthentication()
+export class PaymentImportController {
+  constructor(private readonly paymentImportService: PaymentImportService) {}
+
+  @Post()
+  @Scopes(ApiKeyScopeType.PAYMENTS_WRITE)
+  @HttpCode(202)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: getImportConfig().maxFileBytes, files: 1 },
+    }),
+  )
+  @ApiOperation({ summary: 'Import payments from a CSV file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: `CSV with a header row; columns: ${Object.keys(PaymentImportColumns).join(', ')}`,
+        },
+      },
+    },
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description:
+      'Only validate: every row is checked like a real import, nothing is written',
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Import job started',
+    type: ImportJobResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'No file, or unknown / missing columns',
+  })
+  @ApiResponse({ status: 413, description: 'File too large' })
+  importPayments(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query('dryRun', new ParseBoolPipe({ optional: true })) dryRun?: boolean,
+  ): ImportJobResponseDto {
+    if (!file) {
+      throw new BadRequestException(
+        'Upload the CSV as multipart/form-data in the "file" field',
+      );
+    }
+
+    return new ImportJobResponseDto(
+      this.paymentImportService.start(file.buffer.toString('utf8'), dryRun),
+    );
+  }
+
+  @Get(':jobId')
+  @Scopes(ApiKeyScopeType.PAYMENTS_WRITE)
+  @ApiOperation({ summary: 'Progress and row errors of a payment import' })
+  @ApiParam({ name: 'jobId', type: 'string', description: 'Import job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import job',
+    type: ImportJobResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Import job not found or expired' })
+  findJob(@Param('jobId', ParseUUIDPipe) jobId: string): ImportJobResponseDto {
+    return new ImportJobResponseDto(this.paymentImportService.findJob(jobId));
+  }
+}
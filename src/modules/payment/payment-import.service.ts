@@ -0,0 +1,132 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { CreatePaymentDto } from './dto/create-payment.dto';
+import { PaymentImportColumns } from './dto/mapping';
+import { ValidationPipe } from '../../common/pipes/validation.pipe';
+import { getHttpErrorMessages } from '../../common/filters/http-exception.filter';
+import { getImportConfig } from '../../common/config/import.config';
+import { readCsvRecords } from '../../common/import/csv.parser';
+import { ImportJobRegistry } from '../../common/import/import-job.registry';
+import type {
+  ImportJob,
+  ImportRecord,
+} from '../../common/interfaces/import-job.interface';
+
+/**
+ * Rows validated and written per batch - progress is reported after each one
+ */
+const IMPORT_BATCH_SIZE = 100;
+
+const REQUIRED_COLUMNS = [
+  'amount',
+  'currency',
+  'customerEmail',
+  'customerName',
+];
+
+type ValidatedRow =
+  | { row: number; dto: CreatePaymentDto }
+  | { row: number; errors: string[] };
+
+/**
+ * Payment CSV import
+ *
+ * Each row is validated like a POST /payments body, then created through
+ * PaymentService so the business rules and hooks apply. Valid rows are written
+ * even when others fail; a dry run tries every row and rolls everything back
+ */
+@Injectable()
+export class PaymentImportService {
+  private readonly logger = new Logger(PaymentImportService.name);
+  private readonly validationPipe = new ValidationPipe();
+
+  constructor(
+    private readonly paymentService: PaymentService,
+    private readonly importJobs: ImportJobRegistry,
+  ) {}
+
+  /**
+   * Check the file layout and start the import job
+   * Throws BadRequestException for a malformed file before any row is read
+   */
+  start(csv: string, dryRun = false): ImportJob {
+    const records = readCsvRecords(
+      csv,
+      PaymentImportColumns,
+      REQUIRED_COLUMNS,
+      getImportConfig().maxRows,
+    );
+    return this.importJobs.start(records.length, dryRun, (job) =>
+      this.importRecords(job, records),
+    );
+  }
+
+  findJob(id: string): ImportJob {
+    return this.importJobs.find(id);
+  }
+
+  private async importRecords(
+    job: ImportJob,
+    records: ImportRecord[],
+  ): Promise<void> {
+    for (let start = 0; start < records.length; start += IMPORT_BATCH_SIZE) {
+      const rows = await Promise.all(
+        records
+          .slice(start, start + IMPORT_BATCH_SIZE)
+          .map((record) => this.validate(record)),
+      );
+
+      const validRows = rows.filter((item) => 'dto' in item);
+      const writeErrors = new Map<number, string[]>();
+      if (validRows.length > 0) {
+        const batch = await this.paymentService.createMany(
+          validRows.map(({ dto }) => dto),
+          false,
+          job.dryRun,
+        );
+        batch.items.forEach((outcome, index) => {
+          if (outcome.status === 'failed') {
+            const { row } = validRows[index];
+            writeErrors.set(row, this.toMessages(outcome.error, row));
+          }
+        });
+      }
+
+      for (const item of rows) {
+        const errors =
+          'errors' in item ? item.errors : writeErrors.get(item.row);
+        if (errors) {
+          job.failed++;
+          job.errors.push({ row: item.row, errors });
+        } else {
+          job.succeeded++;
+        }
+      }
+      job.processed += rows.length;
+    }
+  }
+
+  private async validate({ row, values }: ImportRecord): Promise<ValidatedRow> {
+    try {
+      const dto = (await this.validationPipe.transform(values, {
+        type: 'body',
+        metatype: CreatePaymentDto,
+      })) as CreatePaymentDto;
+      return { row, dto };
+    } catch (error) {
+      return { row, errors: this.toMessages(error, row) };
+    }
+  }
+
+  private toMessages(error: unknown, row: number): string[] {
+    if (error instanceof HttpException) {
+      return getHttpErrorMessages(error);
+    }
+
+    this.logger.error(
+      `Import row ${row} failed: ${error instanceof Error ? error.message : String(error)}`,
+      error instanceof Error ? error.stack : undefined,
+    );
+    return ['Internal server error'];
+  }
+}
@@ -0,0 +1,244 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../../common/database/database.module';
+import { IdempotencyModule } from '../../common/idempotency/idempotency.module';
+import { DomainEventsModule } from '../../common/events/domain-events.module';
+import { ValidationPipe } from '../../common/pipes/validation.pipe';
+import { ResponseInterceptor } from '../../common/interceptors/response.interceptor';
+import { PaymentModule } from './payment.module';
+import { PaymentService } from './payment.service';
+import { PaymentStatusType } from './enums/payment-status.enum';
+import { PaymentWebhookEvent } from './entities/payment-webhook-event.entity';
+import { getEntityRepositoryToken } from '../../common/database/repository.tokens';
+import { IRepository } from '../../common/interfaces/repository.interface';
+import { signWebhookPayload } from '../webhook/webhook-signature';
+
+const WEBHOOK_SECRET = 'whsec_spec';
+
+describe('PaymentWebhookController', () => {
+  let app: INestApplication<App>;
+  let paymentService: PaymentService;
+  let eventRepository: IRepository<PaymentWebhookEvent>;
+
+  const send = (payload: object, secret = WEBHOOK_SECRET) => {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    return request(app.getHttpServer())
+      .post('/payments/webhooks/fake')
+      .set('Content-Type', 'application/json')
+      .set('X-Fake-Timestamp', String(timestamp))
+      .set('X-Fake-Signature', signWebhookPayload(secret, timestamp, body))
+      .send(body);
+  };
+
+  beforeAll(() => {
+    process.env.PAYMENT_WEBHOOK_SECRET = WEBHOOK_SECRET;
+  });
+
+  afterAll(() => {
+    delete process.env.PAYMENT_WEBHOOK_SECRET;
+  });
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        IdempotencyModule.forRoot(),
+        DomainEventsModule.forRoot(),
+        PaymentModule,
+      ],
+    }).compile();
+
+    app = module.createNestApplication({ rawBody: true });
+    app.useGlobalPipes(new ValidationPipe());
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+
+    paymentService = module.get(PaymentService);
+    eventRepository = module.get(getEntityRepositoryToken(PaymentWebhookEvent));
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should capture an authorization once per provider event', async () => {
+    const payment = await paymentService.create({
+      amount: 80,
+      currency: 'USD',
+      customerEmail: 'alice@example.com',
+      customerName: 'Alice Johnson',
+    });
+    const { gatewayReference } = await paymentService.authorizePayment(
+      payment.id,
+    );
+
+    const event = {
+      id: 'evt_capture_1',
+      type: 'charge.captured',
+      data: { gatewayReference, amount: 5000, unexpectedField: true },
+    };
+
+    const first = await send(event).expect(200);
+    expect(first.body).toEqual({
+      received: true,
+      duplicate: false,
+      status: 'processed',
+    });
+
+    const retried = await send(event).expect(200);
+    expect(retried.body).toEqual({
+      received: true,
+      duplicate: true,
+      status: 'processed',
+    });
+
+    expect(await paymentService.findOne(payment.id)).toMatchObject({
+      status: PaymentStatusType.CAPTURED,
+      capturedAmount: 5000,
+    });
+  });
+
+  it('should apply a failed event again when the provider redelivers it', async () => {
+    const payment = await paymentService.create({
+      amount: 80,
+      currency: 'USD',
+      customerEmail: 'alice@example.com',
+      customerName: 'Alice Johnson',
+    });
+    const { gatewayReference } = await paymentService.authorizePayment(
+      payment.id,
+    );
+    const event = {
+      id: 'evt_capture_retry',
+      type: 'charge.captured',
+      data: { gatewayReference, amount: 8000 },
+    };
+    jest
+      .spyOn(paymentService, 'applyGatewayEvent')
+      .mockRejectedValueOnce(new Error('database is locked'));
+
+    const failed = await send(event).expect(200);
+    expect(failed.body).toMatchObject({ duplicate: false, status: 'failed' });
+
+    const redelivered = await send(event).expect(200);
+    expect(redelivered.body).toMatchObject({
+      duplicate: false,
+      status: 'processed',
+    });
+    expect(await send(event).expect(200)).toMatchObject({
+      body: { duplicate: true, status: 'processed' },
+    });
+  });
+
+  it('should acknowledge a delivery of an event being applied as a duplicate', async () => {
+    const payment = await paymentService.create({
+      amount: 80,
+      currency: 'USD',
+      customerEmail: 'alice@example.com',
+      customerName: 'Alice Johnson',
+    });
+    const { gatewayReference } = await paymentService.authorizePayment(
+      payment.id,
+    );
+    const event = {
+      id: 'evt_capture_race',
+      type: 'charge.captured',
+      data: { gatewayReference, amount: 8000 },
+    };
+    // The first delivery to claim the event is held until the other answers
+    const applyGatewayEvent =
+      paymentService.applyGatewayEvent.bind(paymentService);
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const apply = jest
+      .spyOn(paymentService, 'applyGatewayEvent')
+      .mockImplementationOnce(async (gatewayEvent) => {
+        await held;
+        return applyGatewayEvent(gatewayEvent);
+      });
+
+    const responses = await Promise.all(
+      [send(event), send(event)].map((delivery) =>
+        delivery.then((response) => {
+          release();
+          return response;
+        }),
+      ),
+    );
+
+    expect(apply).toHaveBeenCalledTimes(1);
+    expect(responses.map((response) => response.status)).toEqual([200, 200]);
+    expect(
+      responses
+        .map((response) => (response.body as { duplicate: boolean }).duplicate)
+        .sort(),
+    ).toEqual([false, true]);
+  });
+
+  it('should acknowledge a delivery that loses the insert race as a duplicate', async () => {
+    const event = { id: 'evt_dispute_race', type: 'charge.disputed' };
+    await send(event).expect(200);
+    // As if the lookup ran just before the other delivery stored the event
+    jest.spyOn(eventRepository, 'findBy').mockResolvedValueOnce([]);
+
+    const response = await send(event).expect(200);
+
+    expect(response.body).toEqual({
+      received: true,
+      duplicate: true,
+      status: 'unhandled',
+    });
+  });
+
+  it('should reject payloads with an invalid signature', async () => {
+    const response = await send(
+      { id: 'evt_forged', type: 'charge.succeeded' },
+      'wrong_secret',
+    ).expect(400);
+
+    expect(response.body).toMatchObject({
+      message: 'Invalid webhook signature',
+    });
+    await request(app.getHttpServer())
+      .post('/payments/webhooks/unknown')
+      .send({})
+      .expect(404);
+  });
+
+  it('should refuse webhooks while no secret is configured', async () => {
+    delete process.env.PAYMENT_WEBHOOK_SECRET;
+    try {
+      // Signed with the old built-in default
+      await send(
+        { id: 'evt_forged', type: 'charge.succeeded' },
+        'whsec_fake_gateway',
+      ).expect(404);
+    } finally {
+      process.env.PAYMENT_WEBHOOK_SECRET = WEBHOOK_SECRET;
+    }
+  });
+
+  it('should store unknown events for inspection', async () => {
+    await send({ id: 'evt_dispute_1', type: 'charge.disputed' }).expect(200);
+    await send({
+      id: 'evt_orphan_1',
+      type: 'charge.succeeded',
+      data: { gatewayReference: 'fake_ch_missing' },
+    }).expect(200);
+
+    const response = await request(app.getHttpServer())
+      .get('/payments/webhooks?filter[status]=unhandled&sort=id')
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      data: {
+        total: 2,
+        items: [{ type: 'charge.disputed' }, { type: 'charge.succeeded' }],
+      },
+    });
+  });
+});
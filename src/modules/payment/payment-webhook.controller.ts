@@ -0,0 +1,112 @@
+import {
+  BadRequestException,
+  Controller,
+  Headers,
+  HttpCode,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import type { Request } from 'express';
+import { GetAllEndpoint } from '../../common/decorators/endpoint.decorator';
+import { ListQuery } from '../../common/decorators/list-query.decorator';
+import { RawResponse } from '../../common/decorators/raw-response.decorator';
+import { Public } from '../../common/decorators/public.decorator';
+import { Unscoped } from '../../common/decorators/unscoped.decorator';
+import { ApiAuthentication } from '../../common/decorators/access.decorator';
+import type { ListQueryOptions } from '../../common/interfaces/list-query.interface';
+import { PaymentWebhookService } from './payment-webhook.service';
+import type { PaymentWebhookAck } from './payment-webhook.service';
+import type { GatewayWebhookHeaders } from './gateways/payment-gateway.interface';
+import { PaymentWebhookEventQueryMapping } from './dto/mapping';
+import { PaymentWebhookEventResponseDto } from './responses/payment-webhook-event-response.dto';
+import { PaymentWebhookEventListResponseDto } from './responses/payment-webhook-event-list-response.dto';
+
+/**
+ * Inbound gateway webhooks
+ *
+ * The body is read raw (for the signature) instead of through a DTO,
+ * so the global ValidationPipe never sees it, and the acknowledgement
+ * is returned without the ResponseInterceptor envelope
+ *
+ * Receiving is public: gateways send no bearer token, the signature authenticates them
+ * Listing received events needs the finance role. Events matched to no
+ * payment belong to no tenant; admins list them at /unmatched
+ */
+@Controller('payments/webhooks')
+@ApiTags('Payment')
+export class PaymentWebhookController {
+  constructor(private readonly paymentWebhookService: PaymentWebhookService) {}
+
+  @Post(':provider')
+  @Public()
+  @HttpCode(200)
+  @RawResponse()
+  @ApiOperation({ summary: 'Receive a signed event from a payment provider' })
+  @ApiParam({
+    name: 'provider',
+    type: 'string',
+    description: 'Payment provider name, e.g. fake',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event received - { received, duplicate, status }',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid signature or malformed payload',
+  })
+  @ApiResponse({ status: 404, description: 'Unknown payment provider' })
+  receive(
+    @Param('provider') provider: string,
+    @Req() request: RawBodyRequest<Request>,
+    @Headers() headers: GatewayWebhookHeaders,
+  ): Promise<PaymentWebhookAck> {
+    if (!request.rawBody) {
+      throw new BadRequestException('Webhook body must be JSON');
+    }
+    return this.paymentWebhookService.receive(
+      provider,
+      request.rawBody,
+      headers,
+    );
+  }
+
+  @ApiAuthentication()
+  @GetAllEndpoint(
+    'Payment webhook event',
+    PaymentWebhookEventListResponseDto,
+    PaymentWebhookEventQueryMapping,
+    { roles: ['finance'] },
+  )
+  async findAll(
+    @ListQuery() query: ListQueryOptions,
+  ): Promise<PaymentWebhookEventListResponseDto> {
+    const { items, total } = await this.paymentWebhookService.findEvents(query);
+    const responseItems = items.map(
+      (event) => new PaymentWebhookEventResponseDto(event),
+    );
+    return new PaymentWebhookEventListResponseDto(responseItems, total, query);
+  }
+
+  @ApiAuthentication()
+  @Unscoped()
+  @GetAllEndpoint(
+    'unmatched Payment webhook event',
+    PaymentWebhookEventListResponseDto,
+    PaymentWebhookEventQueryMapping,
+    { path: 'unmatched', roles: ['admin'] },
+  )
+  async findUnmatched(
+    @ListQuery() query: ListQueryOptions,
+  ): Promise<PaymentWebhookEventListResponseDto> {
+    const { items, total } =
+      await this.paymentWebhookService.findUnmatchedEvents(query);
+    const responseItems = items.map(
+      (event) => new PaymentWebhookEventResponseDto(event),
+    );
+    return new PaymentWebhookEventListResponseDto(responseItems, total, query);
+  }
+}
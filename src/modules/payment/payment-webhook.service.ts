@@ -0,0 +1,226 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { getPaymentConfig } from './payment.config';
+import { PaymentWebhookEvent } from './entities/payment-webhook-event.entity';
+import { PaymentWebhookEventStatus } from './enums/payment-webhook-event-status.enum';
+import { PAYMENT_GATEWAY } from './gateways/payment-gateway.interface';
+import type {
+  GatewayWebhookEvent,
+  GatewayWebhookHeaders,
+  PaymentGateway,
+} from './gateways/payment-gateway.interface';
+import type { IRepository } from '../../common/interfaces/repository.interface';
+import type {
+  ListQueryOptions,
+  PaginatedResult,
+} from '../../common/interfaces/list-query.interface';
+import { InjectEntityRepository } from '../../common/database/repository.tokens';
+import { DuplicateEntryError } from '../../common/errors/domain.error';
+
+/**
+ * Events in these states are applied again when the provider redelivers them
+ * PROCESSED and IGNORED are final; RECEIVED is being applied, see CLAIM_TIMEOUT_MS
+ */
+const RETRYABLE_STATUSES = [
+  PaymentWebhookEventStatus.UNHANDLED,
+  PaymentWebhookEventStatus.FAILED,
+];
+
+/**
+ * After this long a RECEIVED event counts as abandoned (the attempt crashed)
+ */
+const CLAIM_TIMEOUT_MS = 60_000;
+
+/**
+ * Acknowledgement returned to the provider
+ */
+export interface PaymentWebhookAck {
+  received: true;
+  duplicate: boolean;
+  status: PaymentWebhookEventStatus;
+}
+
+/**
+ * Inbound gateway webhooks - verifies, deduplicates and applies provider events
+ * Refused (404) while PAYMENT_WEBHOOK_SECRET is unset
+ */
+@Injectable()
+export class PaymentWebhookService implements OnModuleInit {
+  private readonly logger = new Logger(PaymentWebhookService.name);
+
+  constructor(
+    @InjectEntityRepository(PaymentWebhookEvent)
+    private readonly eventRepository: IRepository<PaymentWebhookEvent>,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
+    private readonly paymentService: PaymentService,
+  ) {}
+
+  onModuleInit() {
+    if (!getPaymentConfig().webhookSecret) {
+      this.logger.warn(
+        'PAYMENT_WEBHOOK_SECRET is not set - inbound gateway webhooks are refused',
+      );
+    }
+  }
+
+  async receive(
+    provider: string,
+    rawBody: Buffer | undefined,
+    headers: GatewayWebhookHeaders,
+  ): Promise<PaymentWebhookAck> {
+    const gateway = this.paymentGateway;
+    if (
+      !getPaymentConfig().webhookSecret ||
+      gateway.name !== provider ||
+      !gateway.verifyWebhook ||
+      !gateway.parseWebhook
+    ) {
+      throw new NotFoundException(`Unknown payment provider ${provider}`);
+    }
+
+    if (!rawBody || !gateway.verifyWebhook(rawBody, headers)) {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    let event: GatewayWebhookEvent;
+    let payload: Record<string, unknown>;
+    try {
+      event = gateway.parseWebhook(rawBody);
+      payload = JSON.parse(rawBody.toString('utf8')) as Record<string, unknown>;
+    } catch (err) {
+      throw new BadRequestException(
+        `Malformed webhook payload: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    const record = await this.claim(provider, event, payload);
+    if (!record) {
+      const [stored] = await this.eventRepository.findBy({
+        provider,
+        eventId: event.id,
+      });
+      return {
+        received: true,
+        duplicate: true,
+        status: stored?.status ?? PaymentWebhookEventStatus.UNHANDLED,
+      };
+    }
+
+    const changes = await this.apply(event);
+    await this.eventRepository.update(record.id, changes);
+
+    return {
+      received: true,
+      duplicate: false,
+      status: changes.status ?? PaymentWebhookEventStatus.UNHANDLED,
+    };
+  }
+
+  /**
+   * Stored provider events, e.g. filter[status]=unhandled
+   */
+  findEvents(
+    query: ListQueryOptions,
+  ): Promise<PaginatedResult<PaymentWebhookEvent>> {
+    return this.eventRepository.findPage(query);
+  }
+
+  /**
+   * Events not matched to any payment, hence stored without a tenant
+   * Only unscoped callers (@Unscoped() routes) see them
+   */
+  findUnmatchedEvents(
+    query: ListQueryOptions,
+  ): Promise<PaginatedResult<PaymentWebhookEvent>> {
+    return this.eventRepository.findPage({
+      ...query,
+      filters: [
+        ...query.filters,
+        { field: 'tenantId', operator: 'eq', value: null },
+      ],
+    });
+  }
+
+  /**
+   * The stored event to apply, now RECEIVED, or null when there is nothing to
+   * do: it was applied before, or another delivery of it is being applied.
+   * Failed, unhandled and abandoned events are claimed again (compare-and-set
+   * on their version), so a redelivery applies them once more
+   */
+  private async claim(
+    provider: string,
+    event: GatewayWebhookEvent,
+    payload: Record<string, unknown>,
+  ): Promise<PaymentWebhookEvent | null> {
+    const [existing] = await this.eventRepository.findBy({
+      provider,
+      eventId: event.id,
+    });
+    if (existing) {
+      const abandoned =
+        existing.status === PaymentWebhookEventStatus.RECEIVED &&
+        existing.updatedAt.getTime() < Date.now() - CLAIM_TIMEOUT_MS;
+      if (!abandoned && !RETRYABLE_STATUSES.includes(existing.status)) {
+        return null;
+      }
+      return this.eventRepository.update(
+        existing.id,
+        { status: PaymentWebhookEventStatus.RECEIVED, error: null },
+        existing.version,
+      );
+    }
+
+    try {
+      return await this.eventRepository.create({
+        provider,
+        eventId: event.id,
+        type: event.type,
+        payload,
+        status: PaymentWebhookEventStatus.RECEIVED,
+      });
+    } catch (err) {
+      if (err instanceof DuplicateEntryError) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  private async apply(
+    event: GatewayWebhookEvent,
+  ): Promise<Partial<PaymentWebhookEvent>> {
+    if (!event.outcome) {
+      return { status: PaymentWebhookEventStatus.UNHANDLED };
+    }
+
+    try {
+      const { payment, applied } =
+        await this.paymentService.applyGatewayEvent(event);
+
+      if (!payment) {
+        return { status: PaymentWebhookEventStatus.UNHANDLED };
+      }
+
+      // Lists the event in the payment's tenant
+      return {
+        paymentId: payment.id,
+        tenantId: payment.tenantId,
+        status: applied
+          ? PaymentWebhookEventStatus.PROCESSED
+          : PaymentWebhookEventStatus.IGNORED,
+      };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.logger.warn(`Webhook event ${event.id} failed: ${error}`);
+      return { status: PaymentWebhookEventStatus.FAILED, error };
+    }
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Payment configuration
+ *
+ * Selected through environment variables:
+ * - PAYMENT_GATEWAY: gateway implementation (default 'fake')
+ * - PAYMENT_AUTHORIZATION_TTL_MINUTES: how long an authorization can be captured (default 7 days)
+ * - PAYMENT_WEBHOOK_SECRET: secret the gateway signs inbound webhooks with (no default;
+ *   inbound webhooks are refused while it is unset)
+ * - PAYMENT_WEBHOOK_TOLERANCE_SECONDS: max age of a signed inbound webhook (default 5 minutes)
+ */
+export interface PaymentConfig {
+  gateway: string;
+  authorizationTtlMinutes: number;
+  webhookSecret?: string;
+  webhookToleranceSeconds: number;
+}
+
+export function getPaymentConfig(): PaymentConfig {
+  return {
+    gateway: process.env.PAYMENT_GATEWAY ?? 'fake',
+    authorizationTtlMinutes: Number(
+      process.env.PAYMENT_AUTHORIZATION_TTL_MINUTES ?? 7 * 24 * 60,
+    ),
+    webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || undefined,
+    webhookToleranceSeconds: Number(
+      process.env.PAYMENT_WEBHOOK_TOLERANCE_SECONDS ?? 300,
+    ),
+  };
+}
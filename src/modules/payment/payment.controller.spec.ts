@@ -0,0 +1,287 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../../common/database/database.module';
+import { IdempotencyModule } from '../../common/idempotency/idempotency.module';
+import { DomainEventsModule } from '../../common/events/domain-events.module';
+import { ValidationPipe } from '../../common/pipes/validation.pipe';
+import { ResponseInterceptor } from '../../common/interceptors/response.interceptor';
+import { PaymentModule } from './payment.module';
+import { PaymentService } from './payment.service';
+
+describe('PaymentController', () => {
+  let app: INestApplication<App>;
+  let paymentService: PaymentService;
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        IdempotencyModule.forRoot(),
+        DomainEventsModule.forRoot(),
+        PaymentModule,
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe());
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+
+    paymentService = module.get(PaymentService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('optimistic concurrency', () => {
+    let id: number;
+
+    beforeEach(async () => {
+      ({ id } = await paymentService.create({
+        amount: 99.99,
+        currency: 'USD',
+        customerEmail: 'alice@example.com',
+        customerName: 'Alice Johnson',
+      }));
+    });
+
+    it('should send the version as ETag and honour If-None-Match', async () => {
+      const server = app.getHttpServer();
+      await request(server)
+        .get(`/payments/${id}`)
+        .expect(200)
+        .expect('ETag', '"1"');
+
+      await request(server)
+        .get(`/payments/${id}`)
+        .set('If-None-Match', '"1"')
+        .expect(304);
+
+      await paymentService.update(id, { description: 'Changed' });
+      await request(server)
+        .get(`/payments/${id}`)
+        .set('If-None-Match', '"1"')
+        .expect(200)
+        .expect('ETag', '"2"');
+    });
+
+    it('should reject updates made against a stale version', async () => {
+      const server = app.getHttpServer();
+      await request(server)
+        .patch(`/payments/${id}`)
+        .set('If-Match', '"1"')
+        .send({ description: 'First agent' })
+        .expect(200)
+        .expect('ETag', '"2"');
+
+      const response = await request(server)
+        .patch(`/payments/${id}`)
+        .set('If-Match', '"1"')
+        .send({ description: 'Second agent' })
+        .expect(412);
+      expect(response.body).toMatchObject({
+        message: 'Payment with ID 1 was modified: current version is 2',
+      });
+
+      await request(server)
+        .delete(`/payments/${id}`)
+        .set('If-Match', '"1"')
+        .expect(412);
+      await request(server)
+        .delete(`/payments/${id}`)
+        .set('If-Match', 'W/"2"')
+        .expect(412);
+      await request(server)
+        .delete(`/payments/${id}`)
+        .set('If-Match', '"2"')
+        .expect(200);
+    });
+  });
+
+  describe('bulk operations', () => {
+    const payment = (customerName: string) => ({
+      amount: 10,
+      currency: 'USD',
+      customerEmail: 'bulk@example.com',
+      customerName,
+    });
+
+    it('should create valid items and report invalid ones by index', async () => {
+      const response = await request(app.getHttpServer())
+        .post('/payments/bulk')
+        .send({ items: [payment('First'), { amount: -1 }, payment('Third')] })
+        .expect(200);
+
+      const body = response.body as {
+        data: {
+          committed: boolean;
+          succeeded: number;
+          failed: number;
+          items: {
+            index: number;
+            status: string;
+            statusCode: number;
+            errors?: string[];
+          }[];
+        };
+      };
+      expect(body.data).toMatchObject({
+        committed: true,
+        succeeded: 2,
+        failed: 1,
+      });
+      expect(body.data.items.map((item) => item.status)).toEqual([
+        'succeeded',
+        'failed',
+        'succeeded',
+      ]);
+      expect(body.data.items[0].statusCode).toBe(201);
+      expect(body.data.items[1].statusCode).toBe(400);
+      expect(body.data.items[1].errors?.length).toBeGreaterThan(0);
+      expect((await paymentService.findAll()).length).toBe(2);
+    });
+
+    it('should roll an atomic batch back when one item fails', async () => {
+      const { id } = await paymentService.create(payment('Existing'));
+
+      const response = await request(app.getHttpServer())
+        .patch('/payments/bulk?atomic=true')
+        .send({
+          items: [
+            { id, changes: { description: 'Changed' } },
+            { id: 999, changes: { description: 'Missing' } },
+          ],
+        })
+        .expect(200);
+
+      const body = response.body as {
+        data: {
+          committed: boolean;
+          items: { status: string; statusCode?: number }[];
+        };
+      };
+      expect(body.data.committed).toBe(false);
+      expect(body.data.items.map((item) => item.status)).toEqual([
+        'rolled_back',
+        'failed',
+      ]);
+      expect(body.data.items[1].statusCode).toBe(404);
+      expect((await paymentService.findOne(id)).description).toBeFalsy();
+    });
+
+    it('should delete every listed ID', async () => {
+      const first = await paymentService.create(payment('First'));
+      const second = await paymentService.create(payment('Second'));
+
+      const response = await request(app.getHttpServer())
+        .delete('/payments/bulk')
+        .send({ ids: [first.id, second.id] })
+        .expect(200);
+
+      expect(
+        (response.body as { data: { succeeded: number } }).data.succeeded,
+      ).toBe(2);
+      expect((await paymentService.findAll()).length).toBe(0);
+    });
+  });
+
+  describe('export', () => {
+    beforeEach(async () => {
+      for (const customerName of ['Alice', 'Bob, Jr.']) {
+        await paymentService.create({
+          amount: 12.5,
+          currency: 'USD',
+          customerEmail: 'export@example.com',
+          customerName,
+        });
+      }
+    });
+
+    it('should stream CSV with the response mapping columns and no envelope', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/payments?sort=-id&format=csv')
+        .expect(200)
+        .expect('Content-Type', /^text\/csv/)
+        .expect('Content-Disposition', 'attachment; filename="payments.csv"');
+
+      const lines = response.text.trim().split('\r\n');
+      expect(lines[0]).toMatch(
+        /^id,amount,currency,status,customerEmail,customerName,/,
+      );
+      expect(lines[0]).toMatch(/,createdAt,updatedAt$/);
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toMatch(
+        /^2,12.5,USD,pending,export@example.com,"Bob, Jr.",/,
+      );
+    });
+
+    it('should stream NDJSON when asked through Accept', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/payments?filter[customerName]=Alice')
+        .set('Accept', 'application/x-ndjson')
+        .buffer(true)
+        .parse((res, done) => {
+          let text = '';
+          res.on('data', (chunk: Buffer) => (text += chunk.toString()));
+          res.on('end', () => done(null, text));
+        })
+        .expect(200)
+        .expect('Content-Type', /^application\/x-ndjson/);
+
+      const rows = (response.body as string)
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line) as Record<string, unknown>);
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({
+        id: 1,
+        amount: 12.5,
+        customerName: 'Alice',
+      });
+    });
+  });
+
+  describe('summary report', () => {
+    it("should report today's payments in major units", async () => {
+      await paymentService.create({
+        amount: 12.5,
+        currency: 'USD',
+        customerEmail: 'report@example.com',
+        customerName: 'Alice',
+      });
+
+      const response = await request(app.getHttpServer())
+        .get('/payments/reports/summary?groupBy=status,day&timezone=UTC')
+        .expect(200);
+
+      const summary = response.body as {
+        data: { groupBy: string[]; rows: Record<string, unknown>[] };
+      };
+      expect(summary.data.groupBy).toEqual(['currency', 'status', 'day']);
+      expect(summary.data.rows).toEqual([
+        expect.objectContaining({
+          currency: 'USD',
+          status: 'pending',
+          count: 1,
+          totalAmount: 12.5,
+          failureRate: 0,
+        }),
+      ]);
+    });
+
+    it('should reject unknown groups, dates and time zones', async () => {
+      for (const query of [
+        'groupBy=customer',
+        'from=2024-13-01',
+        'timezone=Mars/Olympus',
+      ]) {
+        await request(app.getHttpServer())
+          .get(`/payments/reports/summary?${query}`)
+          .expect(400);
+      }
+    });
+  });
+});
@@ -1,25 +1,70 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, ParseIntPipe, Query } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  ParseBoolPipe,
+  Query,
+} from '@nestjs/common';
 import { ApiOperation, ApiParam, ApiQuery, ApiResponse } from '@nestjs/swagger';
 import { CrudController } from '../../common/decorators/crud-controller.decorator';
 import { BaseController } from '../../common/base/base-controller';
 import {
   CreateEndpoint,
+  BulkCreateEndpoint,
+  BulkUpdateEndpoint,
+  BulkDeleteEndpoint,
   GetAllEndpoint,
   GetByIdEndpoint,
   UpdateEndpoint,
   DeleteEndpoint,
 } from '../../common/decorators/endpoint.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
+import { Access, Scopes } from '../../common/decorators/access.decorator';
+import { RateLimit } from '../../common/decorators/rate-limit.decorator';
+import { ListQuery } from '../../common/decorators/list-query.decorator';
+import { IfMatch } from '../../common/decorators/if-match.decorator';
+import { ExportFormat } from '../../common/decorators/export-format.decorator';
+import { BulkCreateDto } from '../../common/bulk/dto/bulk-create.dto';
+import { BulkUpdateDto } from '../../common/bulk/dto/bulk-update.dto';
+import { BulkDeleteDto } from '../../common/bulk/dto/bulk-delete.dto';
+import type { ListQueryOptions } from '../../common/interfaces/list-query.interface';
+import type { ExportFormatType } from '../../common/export/export-format';
+import type { RateLimitPolicy } from '../../common/interfaces/rate-limit-store.interface';
 import { PaymentService } from './payment.service';
 import { Payment } from './entities/payment.entity';
 import { PaymentStatusType } from './enums/payment-status.enum';
+import { ApiKeyScopeType } from '../api-key/enums/api-key-scope.enum';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentDto } from './dto/update-payment.dto';
+import { ProcessPaymentDto } from './dto/process-payment.dto';
+import { CapturePaymentDto } from './dto/capture-payment.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { PaymentSummaryQueryDto } from './dto/payment-summary-query.dto';
+import { PaymentQueryMapping } from './dto/mapping';
 import { PaymentResponseDto } from './responses/payment-response.dto';
 import { PaymentListResponseDto } from './responses/payment-list-response.dto';
+import { PaymentTransitionsResponseDto } from './responses/payment-transitions-response.dto';
+import { PaymentSummaryResponseDto } from './responses/payment-summary-response.dto';
+import { RefundResponseDto } from './responses/refund-response.dto';
+import { RefundListResponseDto } from './responses/refund-list-response.dto';
+
+/**
+ * Calls that charge through the payment gateway - bursts of 10, then one every 6 seconds per client
+ */
+const GATEWAY_RATE_LIMIT: RateLimitPolicy = {
+  limit: 10,
+  windowSeconds: 60,
+  strategy: 'token-bucket',
+};
 
 /**
  * Payment controller - handles HTTP requests for payment operations
- * 
+ *
  * Extends BaseController for standard CRUD operations
  * Implements additional custom endpoints for payment-specific operations
  */
@@ -46,48 +91,122 @@ export class PaymentController extends BaseController<
    * Standard CRUD endpoints using base class methods
    */
 
-  @CreateEndpoint('Payment', PaymentResponseDto)
+  @CreateEndpoint('Payment', PaymentResponseDto, {
+    idempotent: true,
+    scopes: [ApiKeyScopeType.PAYMENTS_WRITE],
+  })
   create(@Body() createPaymentDto: CreatePaymentDto) {
     return this.createEntity(createPaymentDto);
   }
 
-  @GetAllEndpoint('Payment', PaymentListResponseDto)
-  @ApiQuery({ name: 'status', required: false, enum: PaymentStatusType, description: 'Filter by payment status' })
-  @ApiQuery({ name: 'email', required: false, type: 'string', description: 'Filter by customer email' })
-  async findAll(
+  @BulkCreateEndpoint('Payment', CreatePaymentDto, {
+    scopes: [ApiKeyScopeType.PAYMENTS_WRITE],
+  })
+  bulkCreate(
+    @Body() bulkCreateDto: BulkCreateDto,
+    @Query('atomic', new ParseBoolPipe({ optional: true })) atomic?: boolean,
+  ) {
+    return this.bulkCreateEntities(bulkCreateDto, CreatePaymentDto, atomic);
+  }
+
+  @BulkUpdateEndpoint('Payment', UpdatePaymentDto, {
+    scopes: [ApiKeyScopeType.PAYMENTS_WRITE],
+  })
+  bulkUpdate(
+    @Body() bulkUpdateDto: BulkUpdateDto,
+    @Query('atomic', new ParseBoolPipe({ optional: true })) atomic?: boolean,
+  ) {
+    return this.bulkUpdateEntities(bulkUpdateDto, UpdatePaymentDto, atomic);
+  }
+
+  @BulkDeleteEndpoint('Payment', { scopes: [ApiKeyScopeType.PAYMENTS_WRITE] })
+  bulkRemove(
+    @Body() bulkDeleteDto: BulkDeleteDto,
+    @Query('atomic', new ParseBoolPipe({ optional: true })) atomic?: boolean,
+  ) {
+    return this.bulkRemoveEntities(bulkDeleteDto, atomic);
+  }
+
+  @GetAllEndpoint('Payment', PaymentListResponseDto, PaymentQueryMapping, {
+    exportable: true,
+    scopes: [ApiKeyScopeType.PAYMENTS_READ],
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: PaymentStatusType,
+    description: 'Shorthand for filter[status]',
+  })
+  @ApiQuery({
+    name: 'email',
+    required: false,
+    type: 'string',
+    description: 'Shorthand for filter[customerEmail]',
+  })
+  findAll(
+    @ListQuery() query: ListQueryOptions,
     @Query('status') status?: PaymentStatusType,
     @Query('email') email?: string,
+    @ExportFormat() format?: ExportFormatType,
   ) {
-    let payments: Payment[];
-
     if (status) {
-      payments = await this.paymentService.findByStatus(status);
-    } else if (email) {
-      payments = await this.paymentService.findByCustomerEmail(email);
-    } else {
-      payments = await this.paymentService.findAll();
+      query.filters.push({ field: 'status', operator: 'eq', value: status });
+    }
+    if (email) {
+      query.filters.push({
+        field: 'customerEmail',
+        operator: 'eq',
+        value: email,
+      });
     }
 
-    const responseItems = payments.map((payment) => new PaymentResponseDto(payment));
-    return new PaymentListResponseDto(responseItems, payments.length);
+    return this.findAllEntities(query, format);
+  }
+
+  @Get('reports/summary')
+  @Scopes(ApiKeyScopeType.PAYMENTS_READ)
+  @ApiOperation({
+    summary:
+      'Payment counts, amounts, failure and refund rates per group and period',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment summary',
+    type: PaymentSummaryResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid groups, dates or time zone, or too many periods',
+  })
+  async getSummary(
+    @Query() query: PaymentSummaryQueryDto,
+  ): Promise<PaymentSummaryResponseDto> {
+    return new PaymentSummaryResponseDto(
+      await this.paymentService.getSummary(query),
+    );
   }
 
-  @GetByIdEndpoint('Payment', PaymentResponseDto)
+  @GetByIdEndpoint('Payment', PaymentResponseDto, {
+    scopes: [ApiKeyScopeType.PAYMENTS_READ],
+  })
   findOne(@Param('id', ParseIntPipe) id: number) {
     return this.findOneEntity(id);
   }
 
-  @UpdateEndpoint('Payment', PaymentResponseDto)
+  @UpdateEndpoint('Payment', PaymentResponseDto, {
+    scopes: [ApiKeyScopeType.PAYMENTS_WRITE],
+  })
   update(
     @Param('id', ParseIntPipe) id: number,
     @Body() updatePaymentDto: UpdatePaymentDto,
+    @IfMatch() version?: number,
   ) {
-    return this.updateEntity(id, updatePaymentDto);
+    return this.updateEntity(id, updatePaymentDto, version);
   }
 
-  @DeleteEndpoint('Payment')
-  remove(@Param('id', ParseIntPipe) id: number) {
-    return this.removeEntity(id);
+  @DeleteEndpoint('Payment', { scopes: [ApiKeyScopeType.PAYMENTS_WRITE] })
+  remove(@Param('id', ParseIntPipe) id: number, @IfMatch() version?: number) {
+    return this.removeEntity(id, version);
   }
 
   /**
@@ -95,22 +214,111 @@ export class PaymentController extends BaseController<
    */
 
   @Post(':id/process')
-  @ApiOperation({ summary: 'Process a pending payment' })
+  @Idempotent()
+  @RateLimit(GATEWAY_RATE_LIMIT)
+  @Scopes(ApiKeyScopeType.PAYMENTS_PROCESS)
+  @ApiOperation({
+    summary: 'Process a pending payment through the payment gateway',
+  })
   @ApiParam({ name: 'id', type: 'number', description: 'Payment ID' })
   @ApiResponse({
     status: 200,
-    description: 'Payment processed successfully',
+    description:
+      'Payment processed - status is completed, or failed with the gateway decline code',
     type: PaymentResponseDto,
   })
   @ApiResponse({ status: 400, description: 'Payment cannot be processed' })
   @ApiResponse({ status: 404, description: 'Payment not found' })
-  async processPayment(@Param('id', ParseIntPipe) id: number): Promise<PaymentResponseDto> {
-    const payment = await this.paymentService.processPayment(id);
+  async processPayment(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() processPaymentDto: ProcessPaymentDto,
+  ): Promise<PaymentResponseDto> {
+    const payment = await this.paymentService.processPayment(
+      id,
+      processPaymentDto,
+    );
+    return new PaymentResponseDto(payment);
+  }
+
+  @Post(':id/authorize')
+  @Idempotent()
+  @RateLimit(GATEWAY_RATE_LIMIT)
+  @Scopes(ApiKeyScopeType.PAYMENTS_PROCESS)
+  @ApiOperation({
+    summary: 'Authorize a pending payment without capturing the funds',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payment ID' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Payment authorized - status is authorized, or failed with the gateway decline code',
+    type: PaymentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Payment cannot be authorized' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async authorizePayment(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() processPaymentDto: ProcessPaymentDto,
+  ): Promise<PaymentResponseDto> {
+    const payment = await this.paymentService.authorizePayment(
+      id,
+      processPaymentDto,
+    );
+    return new PaymentResponseDto(payment);
+  }
+
+  @Post(':id/capture')
+  @Idempotent()
+  @Scopes(ApiKeyScopeType.PAYMENTS_PROCESS)
+  @ApiOperation({ summary: 'Capture all or part of an authorized payment' })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payment ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment captured successfully',
+    type: PaymentResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Payment cannot be captured or amount exceeds authorized amount',
+  })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async capturePayment(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() capturePaymentDto: CapturePaymentDto,
+  ): Promise<PaymentResponseDto> {
+    const payment = await this.paymentService.capturePayment(
+      id,
+      capturePaymentDto,
+    );
+    return new PaymentResponseDto(payment);
+  }
+
+  @Post(':id/void')
+  @Idempotent()
+  @Scopes(ApiKeyScopeType.PAYMENTS_PROCESS)
+  @ApiOperation({ summary: 'Void an authorized payment and release the funds' })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payment ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Payment voided successfully',
+    type: PaymentResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Payment cannot be voided' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async voidPayment(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PaymentResponseDto> {
+    const payment = await this.paymentService.voidPayment(id);
     return new PaymentResponseDto(payment);
   }
 
   @Post(':id/refund')
-  @ApiOperation({ summary: 'Refund a completed payment' })
+  @Idempotent()
+  @Access({ roles: ['finance'], scopes: [ApiKeyScopeType.PAYMENTS_REFUND] })
+  @ApiOperation({
+    summary: 'Refund the remaining amount of a completed payment',
+  })
   @ApiParam({ name: 'id', type: 'number', description: 'Payment ID' })
   @ApiResponse({
     status: 200,
@@ -119,23 +327,99 @@ export class PaymentController extends BaseController<
   })
   @ApiResponse({ status: 400, description: 'Payment cannot be refunded' })
   @ApiResponse({ status: 404, description: 'Payment not found' })
-  async refundPayment(@Param('id', ParseIntPipe) id: number): Promise<PaymentResponseDto> {
+  async refundPayment(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PaymentResponseDto> {
     const payment = await this.paymentService.refundPayment(id);
     return new PaymentResponseDto(payment);
   }
 
+  @Post(':id/refunds')
+  @Idempotent()
+  @Access({ roles: ['finance'], scopes: [ApiKeyScopeType.PAYMENTS_REFUND] })
+  @ApiOperation({ summary: 'Refund part of a completed payment' })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payment ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Refund created successfully',
+    type: RefundResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Payment cannot be refunded or amount exceeds refundable amount',
+  })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async createRefund(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createRefundDto: CreateRefundDto,
+  ): Promise<RefundResponseDto> {
+    const refund = await this.paymentService.createRefund(id, createRefundDto);
+    return new RefundResponseDto(refund);
+  }
+
+  @Get(':id/refunds')
+  @Scopes(ApiKeyScopeType.PAYMENTS_READ)
+  @ApiOperation({ summary: 'List refunds of a payment' })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payment ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Refund ledger of the payment',
+    type: RefundListResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async findRefunds(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<RefundListResponseDto> {
+    const refunds = await this.paymentService.findRefunds(id);
+    const responseItems = refunds.map(
+      (refund) => new RefundResponseDto(refund),
+    );
+    return new RefundListResponseDto(responseItems, refunds.length);
+  }
+
+  @Get(':id/transitions')
+  @Scopes(ApiKeyScopeType.PAYMENTS_READ)
+  @ApiOperation({ summary: 'List the actions currently allowed for a payment' })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payment ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Current status and allowed actions',
+    type: PaymentTransitionsResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async getTransitions(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PaymentTransitionsResponseDto> {
+    const payment = await this.paymentService.findOne(id);
+    const actions = await this.paymentService.getAvailableActions(id);
+    return new PaymentTransitionsResponseDto({
+      id,
+      status: payment.status,
+      actions,
+    });
+  }
+
   @Get('status/:status')
+  @Scopes(ApiKeyScopeType.PAYMENTS_READ)
   @ApiOperation({ summary: 'Get payments by status' })
-  @ApiParam({ name: 'status', enum: PaymentStatusType, description: 'Payment status' })
+  @ApiParam({
+    name: 'status',
+    enum: PaymentStatusType,
+    description: 'Payment status',
+  })
   @ApiResponse({
     status: 200,
     description: 'List of payments with specified status',
     type: PaymentListResponseDto,
   })
-  async findByStatus(@Param('status') status: PaymentStatusType): Promise<PaymentListResponseDto> {
+  async findByStatus(
+    @Param('status') status: PaymentStatusType,
+  ): Promise<PaymentListResponseDto> {
     const payments = await this.paymentService.findByStatus(status);
-    const responseItems = payments.map((payment) => new PaymentResponseDto(payment));
+    const responseItems = payments.map(
+      (payment) => new PaymentResponseDto(payment),
+    );
     return new PaymentListResponseDto(responseItems, payments.length);
   }
 }
-
@@ -1,18 +1,43 @@
 import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../../common/database/database.module';
 import { PaymentController } from './payment.controller';
 import { PaymentService } from './payment.service';
+import { Payment } from './entities/payment.entity';
+import { Refund } from './entities/refund.entity';
+import { PaymentWebhookEvent } from './entities/payment-webhook-event.entity';
+import { PaymentWebhookController } from './payment-webhook.controller';
+import { PaymentWebhookService } from './payment-webhook.service';
+import { PaymentImportController } from './payment-import.controller';
+import { PaymentImportService } from './payment-import.service';
+import { ImportJobRegistry } from '../../common/import/import-job.registry';
+import { PaymentGatewayProvider } from './gateways/payment-gateway.provider';
+import { AuthorizationExpiryJob } from './jobs/authorization-expiry.job';
+import { WebhookModule } from '../webhook/webhook.module';
+import { PaymentWebhookListener } from './listeners/payment-webhook.listener';
 
 /**
  * Payment module
- * 
- * In production with TypeORM, add:
- * imports: [TypeOrmModule.forFeature([Payment])],
  */
 @Module({
-  imports: [],
-  controllers: [PaymentController],
-  providers: [PaymentService],
+  imports: [
+    DatabaseModule.forFeature([Payment, Refund, PaymentWebhookEvent]),
+    WebhookModule,
+  ],
+  // Webhook and import routes first so /payments/webhooks and /payments/import are not taken for /payments/:id
+  controllers: [
+    PaymentWebhookController,
+    PaymentImportController,
+    PaymentController,
+  ],
+  providers: [
+    PaymentService,
+    PaymentWebhookService,
+    PaymentImportService,
+    ImportJobRegistry,
+    PaymentGatewayProvider,
+    PaymentWebhookListener,
+    AuthorizationExpiryJob,
+  ],
   exports: [PaymentService],
 })
 export class PaymentModule {}
-
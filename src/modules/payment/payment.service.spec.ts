@@ -0,0 +1,632 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { DatabaseModule } from '../../common/database/database.module';
+import { getEntityRepositoryToken } from '../../common/database/repository.tokens';
+import type { IRepository } from '../../common/interfaces/repository.interface';
+import { PaymentService } from './payment.service';
+import { Payment } from './entities/payment.entity';
+import { Refund } from './entities/refund.entity';
+import { PaymentStatusType } from './enums/payment-status.enum';
+import { PaymentActionType } from './enums/payment-action.enum';
+import { PaymentGatewayProvider } from './gateways/payment-gateway.provider';
+import {
+  PAYMENT_GATEWAY,
+  type PaymentGateway,
+} from './gateways/payment-gateway.interface';
+import { getTransactionContext } from '../../common/database/transaction.context';
+import { PaymentResponseDto } from './responses/payment-response.dto';
+import { PaymentSummaryGroupType } from './enums/payment-summary-group.enum';
+import { DomainEventsModule } from '../../common/events/domain-events.module';
+import { DomainEventBus } from '../../common/events/domain-event-bus';
+import {
+  EntityNotFoundError,
+  InvalidTransitionError,
+} from '../../common/errors/domain.error';
+import { PaymentNotDeletableError } from './errors/payment.errors';
+import {
+  PaymentCompleted,
+  PaymentStatusChanged,
+} from './events/payment.events';
+
+describe('PaymentService', () => {
+  let module: TestingModule;
+  let service: PaymentService;
+
+  const createDto = {
+    amount: 49.99,
+    currency: 'USD',
+    customerEmail: 'alice@example.com',
+    customerName: 'Alice Johnson',
+  };
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        DatabaseModule.forFeature([Payment, Refund]),
+        DomainEventsModule.forRoot(),
+      ],
+      providers: [PaymentService, PaymentGatewayProvider],
+    }).compile();
+
+    service = module.get(PaymentService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  it('should persist a new pending payment', async () => {
+    const payment = await service.create(createDto);
+
+    expect(payment.id).toBeDefined();
+    expect(payment.status).toBe(PaymentStatusType.PENDING);
+    expect(payment.transactionId).toMatch(/^txn_/);
+    expect(await service.findOne(payment.id)).toMatchObject({
+      ...createDto,
+      amount: 4999,
+    });
+  });
+
+  it('should filter payments by status and email', async () => {
+    await service.create(createDto);
+    await service.create({ ...createDto, customerEmail: 'bob@example.com' });
+
+    expect(await service.findByStatus(PaymentStatusType.PENDING)).toHaveLength(
+      2,
+    );
+    expect(await service.findByCustomerEmail('bob@example.com')).toHaveLength(
+      1,
+    );
+  });
+
+  it('should page, sort and filter payments in the database', async () => {
+    for (const amount of [10, 250, 75, 500]) {
+      await service.create({ ...createDto, amount });
+    }
+
+    const page = await service.findPage({
+      page: 1,
+      limit: 2,
+      sort: [{ field: 'amount', direction: 'DESC' }],
+      filters: [
+        { field: 'amount', operator: 'gt', value: 50 },
+        { field: 'currency', operator: 'eq', value: 'USD' },
+        { field: 'customerName', operator: 'contains', value: 'alice' },
+        {
+          field: 'createdAt',
+          operator: 'lt',
+          value: new Date(Date.now() + 60000),
+        },
+      ],
+    });
+
+    expect(page.total).toBe(3);
+    expect(page.items.map((payment) => payment.amount)).toEqual([50000, 25000]);
+  });
+
+  it('should compare amounts only within one currency, in its major units', async () => {
+    await service.create({ ...createDto, amount: 80 });
+    await service.create({ ...createDto, currency: 'EUR', amount: 120 });
+
+    await expect(
+      service.findPage({
+        page: 1,
+        limit: 10,
+        sort: [{ field: 'amount', direction: 'ASC' }],
+        filters: [],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    const page = await service.findPage({
+      page: 1,
+      limit: 10,
+      sort: [],
+      filters: [
+        { field: 'amount', operator: 'in', value: [80, 120] },
+        { field: 'currency', operator: 'eq', value: 'EUR' },
+      ],
+    });
+    expect(page.items).toMatchObject([{ currency: 'EUR', amount: 12000 }]);
+  });
+
+  it('should update and remove a payment', async () => {
+    const payment = await service.create(createDto);
+
+    const updated = await service.update(payment.id, {
+      description: 'Updated',
+    });
+    expect(updated.description).toBe('Updated');
+
+    await service.remove(payment.id);
+    await expect(service.findOne(payment.id)).rejects.toBeInstanceOf(
+      EntityNotFoundError,
+    );
+  });
+
+  it('should change amount and currency only while the payment is pending', async () => {
+    const payment = await service.create(createDto);
+    await expect(
+      service.update(payment.id, { amount: 50, currency: 'EUR' }),
+    ).resolves.toMatchObject({ amount: 5000, currency: 'EUR' });
+
+    await service.processPayment(payment.id);
+    await expect(
+      service.update(payment.id, { amount: 1 }),
+    ).rejects.toMatchObject({
+      code: 'PAYMENT_AMOUNT_LOCKED',
+      details: { status: PaymentStatusType.COMPLETED },
+    });
+    await expect(
+      service.update(payment.id, { currency: 'JPY' }),
+    ).rejects.toMatchObject({ code: 'PAYMENT_AMOUNT_LOCKED' });
+    await expect(
+      service.update(payment.id, { description: 'Still editable' }),
+    ).resolves.toMatchObject({ amount: 5000, currency: 'EUR' });
+  });
+
+  it('should move status only through named actions', async () => {
+    const payment = await service.create(createDto);
+
+    await expect(service.refundPayment(payment.id)).rejects.toMatchObject({
+      code: 'PAYMENT_INVALID_TRANSITION',
+      message: 'Cannot refund Payment in pending status',
+    });
+    expect(await service.getAvailableActions(payment.id)).toEqual([
+      PaymentActionType.PROCESS,
+      PaymentActionType.AUTHORIZE,
+    ]);
+
+    const processed = await service.processPayment(payment.id);
+    expect(processed.status).toBe(PaymentStatusType.COMPLETED);
+    expect(await service.getAvailableActions(payment.id)).toEqual([
+      PaymentActionType.REFUND,
+    ]);
+
+    const refunded = await service.refundPayment(payment.id);
+    expect(refunded.status).toBe(PaymentStatusType.REFUNDED);
+    expect(await service.getAvailableActions(payment.id)).toEqual([]);
+  });
+
+  it('should store the gateway decline on a failed payment', async () => {
+    const byToken = await service.create(createDto);
+    const byAmount = await service.create({ ...createDto, amount: 20.52 });
+
+    const declined = await service.processPayment(byToken.id, {
+      cardToken: 'tok_card_declined',
+    });
+    expect(declined.status).toBe(PaymentStatusType.FAILED);
+    expect(declined.declineCode).toBe('card_declined');
+    expect(declined.declineMessage).toBe('The card was declined');
+
+    const insufficient = await service.processPayment(byAmount.id);
+    expect(insufficient.status).toBe(PaymentStatusType.FAILED);
+    expect(insufficient.declineCode).toBe('insufficient_funds');
+  });
+
+  it('should record partial refunds until the payment is fully refunded', async () => {
+    const payment = await service.create({ ...createDto, amount: 100 });
+    await service.processPayment(payment.id);
+
+    await service.createRefund(payment.id, { amount: 30, reason: 'One item' });
+    let current = await service.findOne(payment.id);
+    expect(current.status).toBe(PaymentStatusType.PARTIALLY_REFUNDED);
+    expect(current.refundedAmount).toBe(3000);
+
+    await expect(
+      service.createRefund(payment.id, { amount: 80, reason: 'Too much' }),
+    ).rejects.toThrow('Refund amount 80 exceeds refundable amount 70');
+
+    current = await service.refundPayment(payment.id);
+    expect(current.status).toBe(PaymentStatusType.REFUNDED);
+    expect(current.refundedAmount).toBe(10000);
+
+    const refunds = await service.findRefunds(payment.id);
+    expect(refunds.map((refund) => refund.amount)).toEqual([3000, 7000]);
+    expect(await service.getAvailableActions(payment.id)).toEqual([]);
+  });
+
+  it('should not let concurrent refunds exceed the payment amount', async () => {
+    const payment = await service.create({ ...createDto, amount: 100 });
+    await service.processPayment(payment.id);
+
+    const results = await Promise.allSettled([
+      service.createRefund(payment.id, { amount: 60, reason: 'First agent' }),
+      service.createRefund(payment.id, { amount: 60, reason: 'Second agent' }),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(await service.findOne(payment.id)).toMatchObject({
+      status: PaymentStatusType.PARTIALLY_REFUNDED,
+      refundedAmount: 6000,
+    });
+    expect(await service.findRefunds(payment.id)).toHaveLength(1);
+  });
+
+  it('should call the gateway outside a transaction and release declined refunds', async () => {
+    const payment = await service.create({ ...createDto, amount: 100 });
+    await service.processPayment(payment.id);
+    const gateway = module.get<PaymentGateway>(PAYMENT_GATEWAY);
+    let claimed: Payment | undefined;
+    let inTransaction: boolean | undefined;
+    jest.spyOn(gateway, 'refund').mockImplementationOnce(async () => {
+      claimed = await service.findOne(payment.id);
+      inTransaction = getTransactionContext() !== undefined;
+      return { success: false, declineCode: 'processing_error' };
+    });
+
+    await expect(
+      service.createRefund(payment.id, { amount: 40, reason: 'Damaged' }),
+    ).rejects.toMatchObject({ code: 'PAYMENT_DECLINED' });
+
+    expect(inTransaction).toBe(false);
+    expect(claimed).toMatchObject({
+      status: PaymentStatusType.PARTIALLY_REFUNDED,
+      refundedAmount: 4000,
+    });
+    expect(await service.findOne(payment.id)).toMatchObject({
+      status: PaymentStatusType.COMPLETED,
+      refundedAmount: 0,
+    });
+    expect(await service.findRefunds(payment.id)).toEqual([]);
+  });
+
+  it('should refund only the captured part of an authorization', async () => {
+    const payment = await service.create({ ...createDto, amount: 100 });
+
+    const authorized = await service.authorizePayment(payment.id);
+    expect(authorized.status).toBe(PaymentStatusType.AUTHORIZED);
+    expect(authorized.authorizationExpiresAt).toBeInstanceOf(Date);
+
+    await expect(
+      service.capturePayment(payment.id, { amount: 150 }),
+    ).rejects.toThrow('Capture amount 150 exceeds authorized amount 100');
+
+    const captured = await service.capturePayment(payment.id, { amount: 60 });
+    expect(captured.status).toBe(PaymentStatusType.CAPTURED);
+    expect(captured.capturedAmount).toBe(6000);
+    expect(captured.authorizationExpiresAt).toBeNull();
+
+    await expect(
+      service.createRefund(payment.id, { amount: 70, reason: 'Too much' }),
+    ).rejects.toThrow('Refund amount 70 exceeds refundable amount 60');
+
+    const refunded = await service.refundPayment(payment.id);
+    expect(refunded.status).toBe(PaymentStatusType.REFUNDED);
+    expect(refunded.refundedAmount).toBe(6000);
+  });
+
+  it('should void an authorization and allow deleting it', async () => {
+    const payment = await service.create(createDto);
+    await service.authorizePayment(payment.id);
+
+    await expect(service.remove(payment.id)).rejects.toThrow(
+      PaymentNotDeletableError,
+    );
+
+    const voided = await service.voidPayment(payment.id);
+    expect(voided.status).toBe(PaymentStatusType.VOIDED);
+    await expect(service.capturePayment(payment.id)).rejects.toThrow(
+      InvalidTransitionError,
+    );
+
+    await service.remove(payment.id);
+    await expect(service.findOne(payment.id)).rejects.toThrow(
+      EntityNotFoundError,
+    );
+  });
+
+  it('should void authorizations that expired before capture', async () => {
+    const captured = await service.create(createDto);
+    const expired = await service.create(createDto);
+    await service.authorizePayment(captured.id);
+    await service.authorizePayment(expired.id);
+    await service.capturePayment(captured.id);
+
+    const { authorizationExpiresAt } = await service.findOne(expired.id);
+    expect(await service.expireAuthorizations()).toBe(0);
+
+    const afterExpiry = new Date(authorizationExpiresAt!.getTime() + 1000);
+    expect(await service.expireAuthorizations(afterExpiry)).toBe(1);
+
+    const voided = await service.findOne(expired.id);
+    expect(voided.status).toBe(PaymentStatusType.VOIDED);
+    expect(voided.declineCode).toBe('authorization_expired');
+    expect((await service.findOne(captured.id)).status).toBe(
+      PaymentStatusType.CAPTURED,
+    );
+  });
+
+  it('should reject capturing an expired authorization', async () => {
+    const payment = await service.create(createDto);
+    await service.authorizePayment(payment.id);
+    await module
+      .get<IRepository<Payment>>(getEntityRepositoryToken(Payment))
+      .update(payment.id, {
+        authorizationExpiresAt: new Date(Date.now() - 1000),
+      });
+
+    await expect(service.capturePayment(payment.id)).rejects.toThrow(
+      'Authorization has expired',
+    );
+    expect(await service.getAvailableActions(payment.id)).toEqual([
+      PaymentActionType.VOID,
+    ]);
+  });
+
+  it('should store amounts in the minor units of the currency', async () => {
+    process.env.CURRENCIES = 'USD,JPY,KWD';
+
+    try {
+      const yen = await service.create({
+        ...createDto,
+        currency: 'jpy',
+        amount: 1500,
+      });
+      expect(yen).toMatchObject({ currency: 'JPY', amount: 1500 });
+
+      const dinar = await service.create({
+        ...createDto,
+        currency: 'KWD',
+        amount: 12.345,
+      });
+      expect(dinar.amount).toBe(12345);
+
+      await expect(
+        service.create({ ...createDto, currency: 'JPY', amount: 10.5 }),
+      ).rejects.toThrow(
+        'Amount 10.5 has more than 0 decimal places allowed for JPY',
+      );
+      await expect(
+        service.create({ ...createDto, currency: 'GBP' }),
+      ).rejects.toThrow('Invalid currency. Supported: USD, JPY, KWD');
+
+      await service.processPayment(dinar.id);
+      await service.createRefund(dinar.id, {
+        amount: 0.005,
+        reason: 'Rounding',
+      });
+      const refunded = await service.findOne(dinar.id);
+      expect(refunded.refundedAmount).toBe(5);
+      expect(new PaymentResponseDto(refunded)).toMatchObject({
+        amount: 12.345,
+        refundedAmount: 0.005,
+        refundableAmount: 12.34,
+      });
+    } finally {
+      delete process.env.CURRENCIES;
+    }
+  });
+
+  it('should apply gateway refunds that are not in the ledger yet', async () => {
+    const payment = await service.create({ ...createDto, amount: 100 });
+    const { gatewayReference } = await service.processPayment(payment.id);
+    const ownRefund = await service.createRefund(payment.id, {
+      amount: 10,
+      reason: 'Own refund',
+    });
+
+    const echoed = await service.applyGatewayEvent({
+      id: 'evt_1',
+      type: 'charge.refunded',
+      outcome: 'refunded',
+      gatewayReference,
+      refundReference: ownRefund.gatewayReference,
+      amount: 1000,
+    });
+    expect(echoed.applied).toBe(false);
+
+    const external = await service.applyGatewayEvent({
+      id: 'evt_2',
+      type: 'charge.refunded',
+      outcome: 'refunded',
+      gatewayReference,
+      refundReference: 'dashboard_re_1',
+      amount: 2500,
+    });
+    expect(external.applied).toBe(true);
+    expect(external.payment).toMatchObject({
+      status: PaymentStatusType.PARTIALLY_REFUNDED,
+      refundedAmount: 3500,
+    });
+  });
+
+  it('should keep writes made while a dry run is open', async () => {
+    // The dry run is held after its first item, inside its transaction
+    const create = service.create.bind(service);
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    let opened!: () => void;
+    const open = new Promise<void>((resolve) => (opened = resolve));
+    jest.spyOn(service, 'create').mockImplementationOnce(async (dto) => {
+      const payment = await create(dto);
+      opened();
+      await held;
+      return payment;
+    });
+
+    const dryRun = service.createMany([createDto], false, true);
+    await open;
+    const concurrent = create({ ...createDto, customerName: 'Bob' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    release();
+
+    expect(await dryRun).toMatchObject({
+      committed: false,
+      items: [{ status: 'succeeded' }],
+    });
+    const { id } = await concurrent;
+    expect(await service.findAll()).toMatchObject([
+      { id, customerName: 'Bob' },
+    ]);
+  });
+
+  it('should keep writes made while an atomic batch rolls back', async () => {
+    const existing = await service.create(createDto);
+    // The batch is held after its first item, inside its transaction
+    const update = service.update.bind(service);
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    let opened!: () => void;
+    const open = new Promise<void>((resolve) => (opened = resolve));
+    jest
+      .spyOn(service, 'update')
+      .mockImplementationOnce(async (id, changes, version) => {
+        const payment = await update(id, changes, version);
+        opened();
+        await held;
+        return payment;
+      });
+
+    const batch = service.updateMany(
+      [
+        { id: existing.id, changes: { description: 'Changed' } },
+        { id: 999, changes: { description: 'Missing' } },
+      ],
+      true,
+    );
+    await open;
+    const concurrent = service.create({ ...createDto, customerName: 'Bob' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    release();
+
+    expect(await batch).toMatchObject({ committed: false });
+    const { id } = await concurrent;
+    expect(await service.findAll()).toMatchObject([
+      { id: existing.id, description: null },
+      { id, customerName: 'Bob' },
+    ]);
+  });
+
+  it('should publish status changes after the write', async () => {
+    const bus = module.get(DomainEventBus);
+    const changes: string[] = [];
+    const completed: number[] = [];
+    bus.subscribe(PaymentStatusChanged, ({ from, to }) => {
+      changes.push(`${from}->${to}`);
+    });
+    bus.subscribe(PaymentCompleted, async ({ payment }) => {
+      completed.push((await service.findOne(payment.id)).capturedAmount);
+    });
+    bus.subscribe(PaymentCompleted, () => {
+      throw new Error('Subscriber bug');
+    });
+
+    const payment = await service.create(createDto);
+    await expect(service.processPayment(payment.id)).resolves.toMatchObject({
+      status: PaymentStatusType.COMPLETED,
+    });
+    expect(changes).toEqual([]);
+
+    await bus.flush();
+    expect(changes).toEqual(['pending->completed']);
+    expect(completed).toEqual([4999]);
+  });
+
+  it('should summarize payments per local month, currency and status', async () => {
+    const repository = module.get<IRepository<Payment>>(
+      getEntityRepositoryToken(Payment),
+    );
+    const seed = async (
+      createdAt: string,
+      data: Partial<Payment>,
+    ): Promise<void> => {
+      const payment = await repository.create({
+        ...createDto,
+        amount: 1000,
+        status: PaymentStatusType.COMPLETED,
+        capturedAmount: 1000,
+        transactionId: `txn_${createdAt}`,
+        ...data,
+      });
+      await module
+        .get(DataSource)
+        .query('UPDATE payments SET createdAt = ? WHERE id = ?', [
+          createdAt,
+          payment.id,
+        ]);
+    };
+
+    // 23:30 UTC on March 31st is already April in Berlin
+    await seed('2024-03-05 10:00:00.000', { refundedAmount: 400 });
+    await seed('2024-03-31 21:30:00.000', {});
+    await seed('2024-03-31 22:30:00.000', {
+      status: PaymentStatusType.FAILED,
+      capturedAmount: 0,
+    });
+    await seed('2024-03-20 12:00:00.000', { currency: 'EUR', amount: 250 });
+    await seed('2024-05-01 12:00:00.000', {});
+
+    const summary = await service.getSummary({
+      groupBy: [PaymentSummaryGroupType.MONTH],
+      from: '2024-03-01',
+      to: '2024-04-30',
+      timezone: 'Europe/Berlin',
+    });
+
+    expect(summary.groupBy).toEqual([
+      PaymentSummaryGroupType.CURRENCY,
+      PaymentSummaryGroupType.MONTH,
+    ]);
+    expect(summary.rows).toEqual([
+      expect.objectContaining({
+        period: '2024-03-01',
+        currency: 'EUR',
+        count: 1,
+        totalAmount: 250,
+      }),
+      expect.objectContaining({
+        period: '2024-03-01',
+        currency: 'USD',
+        count: 2,
+        totalAmount: 2000,
+        capturedAmount: 2000,
+        refundedAmount: 400,
+        refundedCount: 1,
+        refundRate: 0.2,
+        failureRate: 0,
+      }),
+      expect.objectContaining({
+        period: '2024-04-01',
+        currency: 'USD',
+        count: 1,
+        failedCount: 1,
+        failureRate: 1,
+        refundRate: 0,
+      }),
+    ]);
+
+    const byStatus = await service.getSummary({
+      groupBy: [PaymentSummaryGroupType.STATUS],
+      from: '2024-03-01',
+      to: '2024-04-30',
+      timezone: 'Europe/Berlin',
+    });
+    expect(
+      byStatus.rows.map(({ currency, status, count }) => [
+        currency,
+        status,
+        count,
+      ]),
+    ).toEqual([
+      ['EUR', PaymentStatusType.COMPLETED, 1],
+      ['USD', PaymentStatusType.COMPLETED, 2],
+      ['USD', PaymentStatusType.FAILED, 1],
+    ]);
+  });
+
+  it('should reject summaries with several periods or a reversed range', async () => {
+    await expect(
+      service.getSummary({
+        groupBy: [PaymentSummaryGroupType.DAY, PaymentSummaryGroupType.WEEK],
+      }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.getSummary({ from: '2024-05-02', to: '2024-05-01' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -1,208 +1,887 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
-import { Payment } from './entities/payment.entity';
+import { Injectable, BadRequestException, Inject } from '@nestjs/common';
+import { Payment, getRefundableAmount } from './entities/payment.entity';
+import { Refund } from './entities/refund.entity';
 import { PaymentStatusType } from './enums/payment-status.enum';
+import { PaymentActionType } from './enums/payment-action.enum';
+import {
+  PaymentStateMachine,
+  isAuthorizationExpired,
+} from './payment.state-machine';
+import { getPaymentConfig } from './payment.config';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentDto } from './dto/update-payment.dto';
-import { IBaseService } from '../../common/interfaces/base-service.interface';
+import { ProcessPaymentDto } from './dto/process-payment.dto';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { CapturePaymentDto } from './dto/capture-payment.dto';
+import { PaymentSummaryQueryDto } from './dto/payment-summary-query.dto';
+import { PaymentSummaryGroupType } from './enums/payment-summary-group.enum';
+import {
+  PaymentAmountExceededError,
+  PaymentAmountInvalidError,
+  PaymentAmountLockedError,
+  PaymentDeclinedError,
+  PaymentNotDeletableError,
+} from './errors/payment.errors';
+import { PAYMENT_GATEWAY } from './gateways/payment-gateway.interface';
+import type {
+  GatewayWebhookEvent,
+  PaymentGateway,
+} from './gateways/payment-gateway.interface';
+import { BaseCrudService } from '../../common/base/base-crud-service';
+import type { IRepository } from '../../common/interfaces/repository.interface';
+import { InjectEntityRepository } from '../../common/database/repository.tokens';
+import type {
+  ListQueryOptions,
+  PaginatedResult,
+} from '../../common/interfaces/list-query.interface';
+import { getCurrencyRegistry } from '../../common/currency/currency.registry';
+import { DomainEventBus } from '../../common/events/domain-event-bus';
+import { runWithTenantContext } from '../../common/tenancy/tenant.context';
+import {
+  REPORT_PERIODS,
+  ReportPeriod,
+  addDays,
+  getReportPeriods,
+  todayIn,
+} from '../../common/reporting/report-period';
+import {
+  PaymentCompleted,
+  PaymentCreated,
+  PaymentFailed,
+  PaymentRefunded,
+  PaymentStatusChanged,
+} from './events/payment.events';
+
+/**
+ * Days covered by a summary without from
+ */
+const SUMMARY_DEFAULT_DAYS = 30;
+
+/**
+ * Payment fields stored in minor units of the payment currency
+ */
+const AMOUNT_FIELDS = ['amount', 'capturedAmount', 'refundedAmount'];
+
+/**
+ * One group of the payment summary - amounts in minor units of its currency
+ */
+export interface PaymentSummaryRow {
+  period: string | null;
+  currency: string;
+  status?: PaymentStatusType;
+  count: number;
+  totalAmount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  failedCount: number;
+  refundedCount: number;
+  failureRate: number;
+  refundRate: number;
+}
+
+export interface PaymentSummary {
+  from: string;
+  to: string;
+  timezone: string;
+  groupBy: PaymentSummaryGroupType[];
+  rows: PaymentSummaryRow[];
+}
 
 /**
  * Payment service - handles business logic for payments
- * 
- * In production, this would integrate with a real database (TypeORM/Prisma)
- * For now, using in-memory storage for demonstration
+ *
+ * Standard CRUD comes from BaseCrudService; payment rules live in its hooks
  */
 @Injectable()
-export class PaymentService implements IBaseService<Payment> {
-  // In-memory storage (replace with TypeORM repository in production)
-  private payments: Payment[] = [];
-  private idCounter = 1;
+export class PaymentService extends BaseCrudService<
+  Payment,
+  CreatePaymentDto,
+  UpdatePaymentDto
+> {
+  constructor(
+    @InjectEntityRepository(Payment)
+    paymentRepository: IRepository<Payment>,
+    @InjectEntityRepository(Refund)
+    private readonly refundRepository: IRepository<Refund>,
+    @Inject(PAYMENT_GATEWAY)
+    private readonly paymentGateway: PaymentGateway,
+    private readonly domainEventBus: DomainEventBus,
+  ) {
+    super(paymentRepository);
+  }
+
+  protected getEntityName = () => 'Payment';
 
   /**
-   * Create a new payment
+   * List payments - amount filters and sorts need filter[currency]=<code>,
+   * as minor units are only comparable within one currency
+   * Their filter values are major units of that currency, like the responses
    */
-  async create(createPaymentDto: CreatePaymentDto): Promise<Payment> {
-    // 1. Validation
-    await this.validatePayment(createPaymentDto);
+  async findPage(query: ListQueryOptions): Promise<PaginatedResult<Payment>> {
+    const amountFilters = query.filters.some(({ field }) =>
+      AMOUNT_FIELDS.includes(field),
+    );
+    const amountSorts = query.sort.some(({ field }) =>
+      AMOUNT_FIELDS.includes(field),
+    );
+    if (!amountFilters && !amountSorts) {
+      return super.findPage(query);
+    }
 
-    // 2. Generate transaction ID
-    const transactionId = this.generateTransactionId();
-    
-    // 3. Create payment entity - @AutoEntity allows object literal
-    const payment: Payment = {
-      id: this.idCounter++,
-      ...createPaymentDto,
-      status: PaymentStatusType.PENDING,
-      transactionId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+    const currencyFilter = query.filters.find(
+      ({ field, operator }) => field === 'currency' && operator === 'eq',
+    );
+    if (typeof currencyFilter?.value !== 'string') {
+      throw new BadRequestException(
+        'Filtering or sorting by amount needs filter[currency]=<code>',
+      );
+    }
 
-    // 4. Save payment
-    this.payments.push(payment);
+    const currency = currencyFilter.value;
+    const toMinorUnits = (value: unknown) =>
+      typeof value === 'number'
+        ? getCurrencyRegistry().toMinorUnits(value, currency)
+        : value;
+    return await super.findPage({
+      ...query,
+      filters: query.filters.map((filter) =>
+        AMOUNT_FIELDS.includes(filter.field)
+          ? {
+              ...filter,
+              value: Array.isArray(filter.value)
+                ? filter.value.map(toMinorUnits)
+                : toMinorUnits(filter.value),
+            }
+          : filter,
+      ),
+    });
+  }
 
-    return payment;
+  /**
+   * Find payments by status
+   */
+  async findByStatus(status: PaymentStatusType): Promise<Payment[]> {
+    return this.repository.findBy({ status });
   }
 
   /**
-   * Find all payments
+   * Find payments by customer email
    */
-  async findAll(): Promise<Payment[]> {
-    return this.payments;
+  async findByCustomerEmail(email: string): Promise<Payment[]> {
+    return this.repository.findBy({ customerEmail: email });
   }
 
   /**
-   * Find one payment by ID
+   * Counts, amounts and rates of the payments created in a range of local days
+   *
+   * The repository groups and sums; rows are always split by currency
+   * since amounts in different currencies cannot be added
    */
-  async findOne(id: number): Promise<Payment> {
-    const payment = this.payments.find((p) => p.id === id);
-    
-    if (!payment) {
-      throw new NotFoundException(`Payment with ID ${id} not found`);
+  async getSummary({
+    groupBy = [],
+    from,
+    to,
+    timezone = 'UTC',
+  }: PaymentSummaryQueryDto): Promise<PaymentSummary> {
+    const periods = groupBy.filter(
+      (group): group is ReportPeriod & PaymentSummaryGroupType =>
+        (REPORT_PERIODS as readonly string[]).includes(group),
+    );
+    if (periods.length > 1) {
+      throw new BadRequestException(
+        'Group by at most one of day, week and month',
+      );
+    }
+
+    const end = to ?? todayIn(timezone);
+    const start = from ?? addDays(end, 1 - SUMMARY_DEFAULT_DAYS);
+    if (start > end) {
+      throw new BadRequestException('from must not be after to');
     }
 
-    return payment;
+    const { labels, boundaries } = getReportPeriods(
+      start,
+      end,
+      timezone,
+      periods[0],
+    );
+    const byStatus = groupBy.includes(PaymentSummaryGroupType.STATUS);
+    const aggregates = await this.repository.aggregate({
+      filters: [],
+      groupBy: byStatus ? ['currency', 'status'] : ['currency'],
+      periods: { field: 'createdAt', boundaries },
+      metrics: [
+        { alias: 'count', fn: 'count' },
+        { alias: 'totalAmount', fn: 'sum', field: 'amount' },
+        { alias: 'capturedAmount', fn: 'sum', field: 'capturedAmount' },
+        { alias: 'refundedAmount', fn: 'sum', field: 'refundedAmount' },
+        {
+          alias: 'failedCount',
+          fn: 'count',
+          where: {
+            field: 'status',
+            operator: 'eq',
+            value: PaymentStatusType.FAILED,
+          },
+        },
+        {
+          alias: 'refundedCount',
+          fn: 'count',
+          where: { field: 'refundedAmount', operator: 'gt', value: 0 },
+        },
+      ],
+    });
+
+    const rows = aggregates
+      .sort(
+        (a, b) =>
+          (a.period ?? 0) - (b.period ?? 0) ||
+          (a.groups.currency as string).localeCompare(
+            b.groups.currency as string,
+          ) ||
+          ((a.groups.status as string | undefined) ?? '').localeCompare(
+            (b.groups.status as string | undefined) ?? '',
+          ),
+      )
+      .map(
+        ({ groups, period, values }): PaymentSummaryRow => ({
+          period: labels[period ?? 0],
+          currency: groups.currency as string,
+          ...(byStatus && { status: groups.status as PaymentStatusType }),
+          count: values.count,
+          totalAmount: values.totalAmount,
+          capturedAmount: values.capturedAmount,
+          refundedAmount: values.refundedAmount,
+          failedCount: values.failedCount,
+          refundedCount: values.refundedCount,
+          failureRate: this.toRate(values.failedCount, values.count),
+          refundRate: this.toRate(values.refundedAmount, values.capturedAmount),
+        }),
+      );
+
+    return {
+      from: start,
+      to: end,
+      timezone,
+      groupBy: [
+        PaymentSummaryGroupType.CURRENCY,
+        ...groupBy.filter(
+          (group) => group !== PaymentSummaryGroupType.CURRENCY,
+        ),
+      ],
+      rows,
+    };
   }
 
   /**
-   * Find payments by status
+   * Actions currently allowed for a payment
    */
-  async findByStatus(status: PaymentStatusType): Promise<Payment[]> {
-    return this.payments.filter((p) => p.status === status);
+  async getAvailableActions(id: number): Promise<PaymentActionType[]> {
+    const payment = await this.findOne(id);
+    return PaymentStateMachine.availableEvents(payment.status, payment);
   }
 
   /**
-   * Find payments by customer email
+   * Process payment (custom business operation)
+   * Charges the payment gateway; a decline moves the payment to failed
    */
-  async findByCustomerEmail(email: string): Promise<Payment[]> {
-    return this.payments.filter((p) => p.customerEmail === email);
+  async processPayment(
+    id: number,
+    processPaymentDto: ProcessPaymentDto = {},
+  ): Promise<Payment> {
+    const payment = await this.findOne(id);
+    PaymentStateMachine.assertCan(
+      payment.status,
+      PaymentActionType.PROCESS,
+      payment,
+    );
+
+    const result = await this.paymentGateway.charge({
+      reference: payment.transactionId ?? `payment_${payment.id}`,
+      amount: payment.amount,
+      currency: payment.currency,
+      cardToken: processPaymentDto.cardToken,
+    });
+
+    return this.applyAction(
+      payment,
+      PaymentActionType.PROCESS,
+      result.success ? PaymentStatusType.COMPLETED : PaymentStatusType.FAILED,
+      {
+        gatewayReference: result.gatewayReference,
+        declineCode: result.declineCode,
+        declineMessage: result.declineMessage,
+        capturedAmount: result.success ? payment.amount : 0,
+      },
+    );
   }
 
   /**
-   * Update a payment
+   * Authorize payment - reserves funds without charging them
+   * The authorization must be captured before it expires
    */
-  async update(id: number, updatePaymentDto: UpdatePaymentDto): Promise<Payment> {
+  async authorizePayment(
+    id: number,
+    processPaymentDto: ProcessPaymentDto = {},
+  ): Promise<Payment> {
     const payment = await this.findOne(id);
+    PaymentStateMachine.assertCan(
+      payment.status,
+      PaymentActionType.AUTHORIZE,
+      payment,
+    );
+
+    const result = await this.paymentGateway.authorize({
+      reference: payment.transactionId ?? `payment_${payment.id}`,
+      amount: payment.amount,
+      currency: payment.currency,
+      cardToken: processPaymentDto.cardToken,
+    });
+
+    const expiresAt = new Date(
+      Date.now() + getPaymentConfig().authorizationTtlMinutes * 60 * 1000,
+    );
+
+    return this.applyAction(
+      payment,
+      PaymentActionType.AUTHORIZE,
+      result.success ? PaymentStatusType.AUTHORIZED : PaymentStatusType.FAILED,
+      {
+        gatewayReference: result.gatewayReference,
+        declineCode: result.declineCode,
+        declineMessage: result.declineMessage,
+        authorizationExpiresAt: result.success ? expiresAt : null,
+      },
+    );
+  }
 
-    // Validate status transition if status is being updated
-    if (updatePaymentDto.status) {
-      this.validateStatusTransition(payment.status, updatePaymentDto.status as PaymentStatusType);
+  /**
+   * Capture an authorized payment - full amount by default, or part of it
+   * The uncaptured remainder of the authorization is released
+   */
+  async capturePayment(
+    id: number,
+    capturePaymentDto: CapturePaymentDto = {},
+  ): Promise<Payment> {
+    const payment = await this.findOne(id);
+    PaymentStateMachine.assertCan(
+      payment.status,
+      PaymentActionType.CAPTURE,
+      payment,
+    );
+
+    const currencies = getCurrencyRegistry();
+    const amount =
+      capturePaymentDto.amount === undefined
+        ? payment.amount
+        : currencies.toMinorUnits(capturePaymentDto.amount, payment.currency);
+    if (amount > payment.amount) {
+      throw new PaymentAmountExceededError(
+        'capture',
+        currencies.fromMinorUnits(amount, payment.currency),
+        currencies.fromMinorUnits(payment.amount, payment.currency),
+      );
     }
 
-    // Prepare update data with proper type casting
-    const { status, ...otherUpdates } = updatePaymentDto;
-    
-    // Update payment - @AutoEntity allows object literal
-    const updatedPayment: Payment = {
-      ...payment,
-      ...otherUpdates,
-      ...(status && { status: status as PaymentStatusType }),
-      updatedAt: new Date(),
-    };
-
-    // Replace in array
-    const index = this.payments.findIndex((p) => p.id === id);
-    this.payments[index] = updatedPayment;
+    const result = await this.paymentGateway.capture({
+      gatewayReference: payment.gatewayReference ?? '',
+      amount,
+      currency: payment.currency,
+    });
+
+    if (!result.success) {
+      throw new PaymentDeclinedError(
+        'capture',
+        result.declineMessage,
+        result.declineCode,
+      );
+    }
 
-    return updatedPayment;
+    return this.applyAction(payment, PaymentActionType.CAPTURE, undefined, {
+      capturedAmount: amount,
+      authorizationExpiresAt: null,
+    });
   }
 
   /**
-   * Remove a payment
+   * Void an authorized payment - releases the reserved funds
    */
-  async remove(id: number): Promise<void> {
+  async voidPayment(id: number): Promise<Payment> {
     const payment = await this.findOne(id);
-    
-    // Business rule: cannot delete completed or refunded payments
-    if (payment.status === PaymentStatusType.COMPLETED || payment.status === PaymentStatusType.REFUNDED) {
-      throw new BadRequestException(`Cannot delete ${payment.status} payments`);
+    PaymentStateMachine.assertCan(
+      payment.status,
+      PaymentActionType.VOID,
+      payment,
+    );
+
+    await this.paymentGateway.void(payment.gatewayReference ?? '');
+
+    return this.applyAction(payment, PaymentActionType.VOID, undefined, {
+      authorizationExpiresAt: null,
+    });
+  }
+
+  /**
+   * Void every authorization whose capture window has passed
+   * Returns the number of voided payments
+   *
+   * Each payment is voided in its own tenant, so audit entries and webhooks land there
+   */
+  async expireAuthorizations(now = new Date()): Promise<number> {
+    const authorized = await this.repository.findBy({
+      status: PaymentStatusType.AUTHORIZED,
+    });
+    const expired = authorized.filter((payment) =>
+      isAuthorizationExpired(payment, now),
+    );
+
+    for (const payment of expired) {
+      await runWithTenantContext(
+        { tenantId: payment.tenantId ?? null },
+        async () => {
+          await this.paymentGateway.void(payment.gatewayReference ?? '');
+          await this.applyAction(payment, PaymentActionType.VOID, undefined, {
+            authorizationExpiresAt: null,
+            declineCode: 'authorization_expired',
+            declineMessage: 'Authorization expired before it was captured',
+          });
+        },
+      );
     }
 
-    const index = this.payments.findIndex((p) => p.id === id);
-    this.payments.splice(index, 1);
+    return expired.length;
   }
 
   /**
-   * Process payment (custom business operation)
+   * Refund the whole remaining amount of a payment (custom business operation)
    */
-  async processPayment(id: number): Promise<Payment> {
+  async refundPayment(id: number): Promise<Payment> {
     const payment = await this.findOne(id);
+    PaymentStateMachine.assertCan(
+      payment.status,
+      PaymentActionType.REFUND,
+      payment,
+    );
+
+    await this.recordRefund(
+      payment,
+      getRefundableAmount(payment),
+      'Full refund',
+    );
+    return this.findOne(id);
+  }
 
-    if (payment.status !== PaymentStatusType.PENDING) {
-      throw new BadRequestException(`Payment with ID ${id} is not in pending status`);
+  /**
+   * Refund part of a payment and record it in the refund ledger
+   */
+  async createRefund(
+    id: number,
+    createRefundDto: CreateRefundDto,
+  ): Promise<Refund> {
+    const payment = await this.findOne(id);
+    PaymentStateMachine.assertCan(
+      payment.status,
+      PaymentActionType.REFUND,
+      payment,
+    );
+
+    const currencies = getCurrencyRegistry();
+    const amount = currencies.toMinorUnits(
+      createRefundDto.amount,
+      payment.currency,
+    );
+    const refundableAmount = getRefundableAmount(payment);
+    if (amount > refundableAmount) {
+      throw new PaymentAmountExceededError(
+        'refund',
+        createRefundDto.amount,
+        currencies.fromMinorUnits(refundableAmount, payment.currency),
+      );
     }
 
-    // Simulate payment processing
-    const success = Math.random() > 0.1; // 90% success rate
+    return this.recordRefund(payment, amount, createRefundDto.reason);
+  }
+
+  /**
+   * Apply an asynchronous gateway notification to the matching payment
+   * applied is false when no payment matches or it already reflects the event
+   *
+   * Gateways know no tenants: the payment is looked up across all of them
+   * and the event applied in the payment's tenant
+   */
+  async applyGatewayEvent(
+    event: GatewayWebhookEvent,
+  ): Promise<{ payment?: Payment; applied: boolean }> {
+    const [payment] = event.gatewayReference
+      ? await this.repository.findBy({
+          gatewayReference: event.gatewayReference,
+        })
+      : event.reference
+        ? await this.repository.findBy({ transactionId: event.reference })
+        : [];
+
+    if (!payment) {
+      return { applied: false };
+    }
+
+    return runWithTenantContext({ tenantId: payment.tenantId ?? null }, () =>
+      this.applyGatewayEventTo(payment, event),
+    );
+  }
 
-    const updatedPayment: Payment = {
-      ...payment,
-      status: success ? PaymentStatusType.COMPLETED : PaymentStatusType.FAILED,
-      updatedAt: new Date(),
+  /**
+   * Refund ledger of a payment
+   */
+  async findRefunds(id: number): Promise<Refund[]> {
+    await this.findOne(id);
+    return this.refundRepository.findBy({ paymentId: id });
+  }
+
+  private async applyGatewayEventTo(
+    payment: Payment,
+    event: GatewayWebhookEvent,
+  ): Promise<{ payment: Payment; applied: boolean }> {
+    const gatewayFields = {
+      gatewayReference: event.gatewayReference ?? payment.gatewayReference,
+      declineCode: event.declineCode,
+      declineMessage: event.declineMessage,
     };
+    const status = payment.status;
+    let updated: Payment | undefined;
+
+    if (event.outcome === 'succeeded' && status === PaymentStatusType.PENDING) {
+      updated = await this.applyAction(
+        payment,
+        PaymentActionType.PROCESS,
+        PaymentStatusType.COMPLETED,
+        {
+          ...gatewayFields,
+          capturedAmount: payment.amount,
+        },
+      );
+    } else if (
+      (event.outcome === 'succeeded' || event.outcome === 'captured') &&
+      status === PaymentStatusType.AUTHORIZED
+    ) {
+      updated = await this.applyAction(
+        payment,
+        PaymentActionType.CAPTURE,
+        undefined,
+        {
+          capturedAmount: Math.min(
+            event.amount ?? payment.amount,
+            payment.amount,
+          ),
+          authorizationExpiresAt: null,
+        },
+      );
+    } else if (
+      event.outcome === 'failed' &&
+      status === PaymentStatusType.PENDING
+    ) {
+      updated = await this.applyAction(
+        payment,
+        PaymentActionType.PROCESS,
+        PaymentStatusType.FAILED,
+        gatewayFields,
+      );
+    } else if (
+      event.outcome === 'voided' &&
+      status === PaymentStatusType.AUTHORIZED
+    ) {
+      updated = await this.applyAction(
+        payment,
+        PaymentActionType.VOID,
+        undefined,
+        { authorizationExpiresAt: null },
+      );
+    } else if (
+      event.outcome === 'refunded' &&
+      PaymentStateMachine.can(status, PaymentActionType.REFUND, payment)
+    ) {
+      // Refunds we started ourselves are already in the ledger
+      const known = event.refundReference
+        ? await this.refundRepository.findBy({
+            gatewayReference: event.refundReference,
+          })
+        : [];
+      if (known.length === 0) {
+        const amount = Math.min(
+          event.amount ?? getRefundableAmount(payment),
+          getRefundableAmount(payment),
+        );
+        updated = await this.requireTransactionManager('Refunds').run(
+          async () => {
+            const claimed = await this.claimRefund(payment, amount);
+            await this.addRefundToLedger(
+              payment,
+              claimed,
+              amount,
+              'Refunded by payment provider',
+              event.refundReference,
+            );
+            return claimed;
+          },
+        );
+      }
+    }
 
-    const index = this.payments.findIndex((p) => p.id === id);
-    this.payments[index] = updatedPayment;
+    return { payment: updated ?? payment, applied: updated !== undefined };
+  }
+
+  /**
+   * Refund an amount (in minor units) through the gateway and record it in the ledger
+   *
+   * The amount is claimed before the gateway is called, so the call holds no
+   * transaction open; a decline hands the claim back
+   */
+  private async recordRefund(
+    payment: Payment,
+    amount: number,
+    reason: string,
+  ): Promise<Refund> {
+    const claimed = await this.claimRefund(payment, amount);
+
+    let gatewayReference: string | undefined;
+    try {
+      const result = await this.paymentGateway.refund({
+        gatewayReference: payment.gatewayReference ?? '',
+        amount,
+        currency: payment.currency,
+      });
+
+      if (!result.success) {
+        throw new PaymentDeclinedError(
+          'refund',
+          result.declineMessage,
+          result.declineCode,
+        );
+      }
+      gatewayReference = result.gatewayReference;
+    } catch (err) {
+      await this.releaseRefund(payment, amount);
+      throw err;
+    }
 
-    return updatedPayment;
+    return this.addRefundToLedger(
+      payment,
+      claimed,
+      amount,
+      reason,
+      gatewayReference,
+    );
   }
 
   /**
-   * Refund a payment (custom business operation)
+   * Move the payment status and add the amount to refundedAmount
+   *
+   * Only applies to the version the refundable amount was checked against,
+   * so concurrent refunds cannot overdraw it (412 instead)
    */
-  async refundPayment(id: number): Promise<Payment> {
-    const payment = await this.findOne(id);
+  private async claimRefund(
+    payment: Payment,
+    amount: number,
+  ): Promise<Payment> {
+    const status = await PaymentStateMachine.transition(
+      payment.status,
+      PaymentActionType.REFUND,
+      payment,
+      amount === getRefundableAmount(payment)
+        ? PaymentStatusType.REFUNDED
+        : PaymentStatusType.PARTIALLY_REFUNDED,
+    );
+
+    return this.save(
+      payment.id,
+      { status, refundedAmount: payment.refundedAmount + amount },
+      PaymentActionType.REFUND,
+      payment.version,
+    );
+  }
+
+  /**
+   * Hand back an amount claimed for a refund the gateway did not make
+   * Reads the payment again, as other refunds may have been claimed since
+   */
+  private releaseRefund(payment: Payment, amount: number): Promise<Payment> {
+    return this.requireTransactionManager('Refunds').run(async () => {
+      const current = await this.findOne(payment.id);
+      const refundedAmount = current.refundedAmount - amount;
+
+      return this.save(
+        current.id,
+        {
+          refundedAmount,
+          status:
+            refundedAmount > 0
+              ? PaymentStatusType.PARTIALLY_REFUNDED
+              : payment.status,
+        },
+        'refund_declined',
+        current.version,
+      );
+    });
+  }
+
+  /**
+   * Record a claimed refund in the ledger and announce it
+   */
+  private async addRefundToLedger(
+    previous: Payment,
+    claimed: Payment,
+    amount: number,
+    reason: string,
+    gatewayReference: string | undefined,
+  ): Promise<Refund> {
+    const refund = await this.refundRepository.create({
+      paymentId: claimed.id,
+      amount,
+      currency: claimed.currency,
+      reason,
+      gatewayReference,
+    });
+
+    this.publishStatusChange(claimed, previous.status);
+    this.domainEventBus.publish(new PaymentRefunded(claimed, refund));
+    return refund;
+  }
 
-    if (payment.status !== PaymentStatusType.COMPLETED) {
-      throw new BadRequestException(`Can only refund completed payments`);
+  /**
+   * Run a state machine transition and persist the resulting status
+   * Only while the payment is still at the version the transition was checked on
+   */
+  private async applyAction(
+    payment: Payment,
+    action: PaymentActionType,
+    to?: PaymentStatusType,
+    changes: Partial<Payment> = {},
+  ): Promise<Payment> {
+    const status = await PaymentStateMachine.transition(
+      payment.status,
+      action,
+      payment,
+      to,
+    );
+    const updated = await this.save(
+      payment.id,
+      { ...changes, status },
+      action,
+      payment.version,
+    );
+
+    this.publishStatusChange(updated, payment.status);
+    return updated;
+  }
+
+  private publishStatusChange(
+    payment: Payment,
+    previousStatus: PaymentStatusType,
+  ): void {
+    this.domainEventBus.publish(
+      new PaymentStatusChanged(payment, previousStatus, payment.status),
+    );
+    if (
+      payment.status === PaymentStatusType.COMPLETED ||
+      payment.status === PaymentStatusType.CAPTURED
+    ) {
+      this.domainEventBus.publish(new PaymentCompleted(payment));
+    } else if (payment.status === PaymentStatusType.FAILED) {
+      this.domainEventBus.publish(new PaymentFailed(payment));
     }
+  }
+
+  /**
+   * Lifecycle hooks
+   */
+  protected async beforeCreate(
+    createPaymentDto: CreatePaymentDto,
+  ): Promise<Partial<Payment>> {
+    // 1. Validation
+    const amount = await this.validatePayment(createPaymentDto);
 
-    const updatedPayment: Payment = {
-      ...payment,
-      status: PaymentStatusType.REFUNDED,
-      updatedAt: new Date(),
+    // 2. Generate transaction ID
+    const transactionId = this.generateTransactionId();
+
+    return {
+      ...createPaymentDto,
+      amount,
+      currency: createPaymentDto.currency.toUpperCase(),
+      status: PaymentStateMachine.initial,
+      transactionId,
+      capturedAmount: 0,
+      refundedAmount: 0,
     };
+  }
+
+  protected afterCreate(payment: Payment): void {
+    this.domainEventBus.publish(new PaymentCreated(payment));
+  }
 
-    const index = this.payments.findIndex((p) => p.id === id);
-    this.payments[index] = updatedPayment;
+  protected beforeUpdate(
+    payment: Payment,
+    updatePaymentDto: UpdatePaymentDto,
+  ): Partial<Payment> {
+    if (
+      updatePaymentDto.amount === undefined &&
+      updatePaymentDto.currency === undefined
+    ) {
+      return { ...updatePaymentDto } as Partial<Payment>;
+    }
 
-    return updatedPayment;
+    // Business rule: the charged amount is fixed once the gateway has seen it
+    if (payment.status !== PaymentStatusType.PENDING) {
+      throw new PaymentAmountLockedError(payment.status);
+    }
+
+    // Re-express the amount in the minor units of the (possibly new) currency
+    const currencies = getCurrencyRegistry();
+    const currency = (
+      updatePaymentDto.currency ?? payment.currency
+    ).toUpperCase();
+    const amount =
+      updatePaymentDto.amount ??
+      currencies.fromMinorUnits(payment.amount, payment.currency);
+
+    return {
+      ...updatePaymentDto,
+      currency,
+      amount: currencies.toMinorUnits(amount, currency),
+    };
+  }
+
+  protected beforeRemove(payment: Payment): void {
+    // Business rule: only payments that never moved money (or released it) can be deleted
+    const deletableStatuses = [
+      PaymentStatusType.PENDING,
+      PaymentStatusType.FAILED,
+      PaymentStatusType.VOIDED,
+    ];
+    if (!deletableStatuses.includes(payment.status)) {
+      throw new PaymentNotDeletableError(payment.status);
+    }
   }
 
   /**
    * Private validation methods
    */
-  private async validatePayment(dto: CreatePaymentDto): Promise<void> {
+  /**
+   * Returns the amount in minor units of the payment currency
+   */
+  private async validatePayment(dto: CreatePaymentDto): Promise<number> {
     // Validate amount
     if (dto.amount <= 0) {
-      throw new BadRequestException('Payment amount must be positive');
+      throw new PaymentAmountInvalidError();
     }
 
-    // Validate currency
-    const validCurrencies = ['USD', 'EUR', 'GBP'];
-    if (!validCurrencies.includes(dto.currency.toUpperCase())) {
-      throw new BadRequestException(`Invalid currency. Supported: ${validCurrencies.join(', ')}`);
-    }
+    // Validate currency and amount precision
+    return getCurrencyRegistry().toMinorUnits(dto.amount, dto.currency);
   }
 
-  private validateStatusTransition(currentStatus: PaymentStatusType, newStatus: PaymentStatusType): void {
-    const validTransitions: Record<PaymentStatusType, PaymentStatusType[]> = {
-      [PaymentStatusType.PENDING]: [PaymentStatusType.COMPLETED, PaymentStatusType.FAILED],
-      [PaymentStatusType.COMPLETED]: [PaymentStatusType.REFUNDED],
-      [PaymentStatusType.FAILED]: [],
-      [PaymentStatusType.REFUNDED]: [],
-    };
-
-    const allowedStatuses = validTransitions[currentStatus] || [];
-    
-    if (!allowedStatuses.includes(newStatus)) {
-      throw new BadRequestException(
-        `Invalid status transition from ${currentStatus} to ${newStatus}`,
-      );
-    }
+  private toRate(part: number, whole: number): number {
+    return whole === 0 ? 0 : Math.round((part / whole) * 10000) / 10000;
   }
 
   private generateTransactionId(): string {
     return `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 }
-
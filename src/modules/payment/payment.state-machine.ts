@@ -0,0 +1,70 @@
+import { StateMachine } from '../../common/state-machine/state-machine';
+import { Payment, getRefundableAmount } from './entities/payment.entity';
+import { PaymentActionType } from './enums/payment-action.enum';
+import { PaymentStatusType } from './enums/payment-status.enum';
+
+/**
+ * Payment lifecycle
+ *
+ * Status only changes through these named actions; the generic
+ * PATCH /payments/:id endpoint cannot modify it
+ *
+ * - One-step:  pending -> process -> completed
+ * - Two-step:  pending -> authorize -> authorized -> capture -> captured (or void -> voided)
+ */
+export const PaymentStateMachine = new StateMachine<
+  PaymentStatusType,
+  PaymentActionType,
+  Payment
+>({
+  name: 'Payment',
+  initial: PaymentStatusType.PENDING,
+  transitions: [
+    {
+      event: PaymentActionType.PROCESS,
+      from: PaymentStatusType.PENDING,
+      to: [PaymentStatusType.COMPLETED, PaymentStatusType.FAILED],
+    },
+    {
+      event: PaymentActionType.AUTHORIZE,
+      from: PaymentStatusType.PENDING,
+      to: [PaymentStatusType.AUTHORIZED, PaymentStatusType.FAILED],
+    },
+    {
+      event: PaymentActionType.CAPTURE,
+      from: PaymentStatusType.AUTHORIZED,
+      to: PaymentStatusType.CAPTURED,
+      guard: ({ context }) =>
+        !isAuthorizationExpired(context) || 'Authorization has expired',
+    },
+    {
+      event: PaymentActionType.VOID,
+      from: PaymentStatusType.AUTHORIZED,
+      to: PaymentStatusType.VOIDED,
+    },
+    {
+      event: PaymentActionType.REFUND,
+      from: [
+        PaymentStatusType.COMPLETED,
+        PaymentStatusType.CAPTURED,
+        PaymentStatusType.PARTIALLY_REFUNDED,
+      ],
+      to: [PaymentStatusType.PARTIALLY_REFUNDED, PaymentStatusType.REFUNDED],
+      guard: ({ context }) =>
+        getRefundableAmount(context) > 0 ||
+        'Payment has no refundable amount left',
+    },
+  ],
+});
+
+/**
+ * Whether an authorization can no longer be captured
+ */
+export function isAuthorizationExpired(
+  payment: Payment,
+  now = new Date(),
+): boolean {
+  return (
+    !!payment.authorizationExpiresAt && payment.authorizationExpiresAt <= now
+  );
+}
@@ -1,17 +1,301 @@
 import { ResponseFieldConfig } from '../../../common/decorators/auto-response.decorator';
 import { PaymentStatusType } from '../enums/payment-status.enum';
+import { PaymentActionType } from '../enums/payment-action.enum';
+import { PaymentWebhookEventStatus } from '../enums/payment-webhook-event-status.enum';
+import { PaymentSummaryGroupType } from '../enums/payment-summary-group.enum';
 
 /**
  * Response field configuration for Payment DTOs
  * Used by @AutoResponse decorator for Swagger documentation
  */
 export const PaymentResponseMapping: Record<string, ResponseFieldConfig> = {
-  amount: { description: 'Payment amount', example: 99.99, required: true, type: Number },
-  currency: { description: 'Payment currency', example: 'USD', required: true, type: String },
-  status: { description: 'Payment status', example: 'completed', required: true, enum: PaymentStatusType },
-  customerEmail: { description: 'Customer email', example: 'customer@example.com', required: true, type: String },
-  customerName: { description: 'Customer name', example: 'John Doe', required: true, type: String },
-  description: { description: 'Payment description', example: 'Payment for order #1234', required: false, type: String },
-  transactionId: { description: 'Transaction ID', example: 'txn_1234567890', required: false, type: String },
+  amount: {
+    description: 'Payment amount',
+    example: 99.99,
+    required: true,
+    type: Number,
+  },
+  currency: {
+    description: 'Payment currency',
+    example: 'USD',
+    required: true,
+    type: String,
+  },
+  status: {
+    description: 'Payment status',
+    example: 'completed',
+    required: true,
+    enum: PaymentStatusType,
+  },
+  customerEmail: {
+    description: 'Customer email',
+    example: 'customer@example.com',
+    required: true,
+    type: String,
+  },
+  customerName: {
+    description: 'Customer name',
+    example: 'John Doe',
+    required: true,
+    type: String,
+  },
+  description: {
+    description: 'Payment description',
+    example: 'Payment for order #1234',
+    required: false,
+    type: String,
+  },
+  transactionId: {
+    description: 'Transaction ID',
+    example: 'txn_1234567890',
+    required: false,
+    type: String,
+  },
+  capturedAmount: {
+    description: 'Amount captured (charged) so far',
+    example: 99.99,
+    required: true,
+    type: Number,
+  },
+  authorizationExpiresAt: {
+    description: 'When an open authorization expires',
+    example: '2024-01-08T00:00:00.000Z',
+    required: false,
+    type: Date,
+  },
+  refundedAmount: {
+    description: 'Total amount refunded so far',
+    example: 25.0,
+    required: true,
+    type: Number,
+  },
+  refundableAmount: {
+    description: 'Amount still available for refunds',
+    example: 74.99,
+    required: true,
+    type: Number,
+  },
+  gatewayReference: {
+    description: 'Payment gateway charge reference',
+    example: 'fake_ch_txn_1234567890',
+    required: false,
+    type: String,
+  },
+  declineCode: {
+    description: 'Gateway decline code for failed payments',
+    example: 'insufficient_funds',
+    required: false,
+    type: String,
+  },
+  declineMessage: {
+    description: 'Gateway decline message for failed payments',
+    example: 'The card has insufficient funds',
+    required: false,
+    type: String,
+  },
 };
 
+export const PaymentTransitionsResponseMapping: Record<
+  string,
+  ResponseFieldConfig
+> = {
+  id: { description: 'Payment ID', example: 1, required: true, type: Number },
+  status: {
+    description: 'Current payment status',
+    example: 'pending',
+    required: true,
+    enum: PaymentStatusType,
+  },
+  actions: {
+    description: 'Actions currently allowed',
+    example: ['process'],
+    required: true,
+    enum: PaymentActionType,
+    isArray: true,
+  },
+};
+
+export const RefundResponseMapping: Record<string, ResponseFieldConfig> = {
+  paymentId: {
+    description: 'Refunded payment ID',
+    example: 1,
+    required: true,
+    type: Number,
+  },
+  amount: {
+    description: 'Refund amount',
+    example: 25.0,
+    required: true,
+    type: Number,
+  },
+  currency: {
+    description: 'Refund currency',
+    example: 'USD',
+    required: true,
+    type: String,
+  },
+  reason: {
+    description: 'Refund reason',
+    example: 'Customer returned one item',
+    required: true,
+    type: String,
+  },
+  gatewayReference: {
+    description: 'Payment gateway refund reference',
+    example: 'fake_re_fake_ch_txn_1234567890_25',
+    required: false,
+    type: String,
+  },
+};
+
+export const PaymentWebhookEventResponseMapping: Record<
+  string,
+  ResponseFieldConfig
+> = {
+  provider: {
+    description: 'Payment provider',
+    example: 'fake',
+    required: true,
+    type: String,
+  },
+  eventId: {
+    description: 'Provider event ID',
+    example: 'evt_123',
+    required: true,
+    type: String,
+  },
+  type: {
+    description: 'Provider event type',
+    example: 'charge.succeeded',
+    required: true,
+    type: String,
+  },
+  payload: {
+    description: 'Event body as received',
+    example: { id: 'evt_123', type: 'charge.succeeded' },
+    required: true,
+    type: Object,
+  },
+  status: {
+    description: 'Processing outcome',
+    example: 'processed',
+    required: true,
+    enum: PaymentWebhookEventStatus,
+  },
+  paymentId: {
+    description: 'Matched payment ID',
+    example: 1,
+    required: false,
+    type: Number,
+  },
+  error: {
+    description: 'Why processing failed',
+    example: 'Cannot refund Payment in pending status',
+    required: false,
+    type: String,
+  },
+};
+
+export const PaymentSummaryRowResponseMapping: Record<
+  string,
+  ResponseFieldConfig
+> = {
+  period: {
+    description:
+      'First day of the period in the report time zone, null without a period group',
+    example: '2024-01-01',
+    required: false,
+    type: String,
+  },
+  currency: {
+    description: 'Currency - amounts are never added across currencies',
+    example: 'USD',
+    required: true,
+    type: String,
+  },
+  status: {
+    description: 'Payment status, when grouped by status',
+    example: 'completed',
+    required: false,
+    enum: PaymentStatusType,
+  },
+  count: {
+    description: 'Payments created in the period',
+    example: 120,
+    required: true,
+    type: Number,
+  },
+  totalAmount: {
+    description: 'Sum of their amounts',
+    example: 11998.8,
+    required: true,
+    type: Number,
+  },
+  capturedAmount: {
+    description: 'Sum of their captured amounts',
+    example: 10498.95,
+    required: true,
+    type: Number,
+  },
+  refundedAmount: {
+    description: 'Sum of their refunded amounts',
+    example: 524.95,
+    required: true,
+    type: Number,
+  },
+  failedCount: {
+    description: 'Payments that failed',
+    example: 6,
+    required: true,
+    type: Number,
+  },
+  refundedCount: {
+    description: 'Payments refunded in full or in part',
+    example: 5,
+    required: true,
+    type: Number,
+  },
+  failureRate: {
+    description: 'failedCount / count',
+    example: 0.05,
+    required: true,
+    type: Number,
+  },
+  refundRate: {
+    description: 'refundedAmount / capturedAmount',
+    example: 0.05,
+    required: true,
+    type: Number,
+  },
+};
+
+export const PaymentSummaryResponseMapping: Record<
+  string,
+  ResponseFieldConfig
+> = {
+  from: {
+    description: 'First day of the range',
+    example: '2024-01-01',
+    required: true,
+    type: String,
+  },
+  to: {
+    description: 'Last day of the range, included',
+    example: '2024-01-31',
+    required: true,
+    type: String,
+  },
+  timezone: {
+    description: 'Time zone days are counted in',
+    example: 'Europe/Berlin',
+    required: true,
+    type: String,
+  },
+  groupBy: {
+    description: 'Groups of each row, currency always included',
+    example: ['currency', 'month'],
+    required: true,
+    enum: PaymentSummaryGroupType,
+    isArray: true,
+  },
+};
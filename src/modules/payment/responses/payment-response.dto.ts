@@ -1,11 +1,14 @@
 import { BaseResponseDto } from '../../../common/base/base-dto';
+import { Payment, getRefundableAmount } from '../entities/payment.entity';
 import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
 import { PaymentStatusType } from '../enums/payment-status.enum';
+import { getCurrencyRegistry } from '../../../common/currency/currency.registry';
 import { PaymentResponseMapping } from './mapping';
 
 /**
  * Response DTO for payment details
  * Swagger documentation is defined in responses/mapping.ts
+ * Amounts are converted from stored minor units to major units
  */
 @AutoResponse(PaymentResponseMapping)
 export class PaymentResponseDto extends BaseResponseDto {
@@ -16,5 +19,25 @@ export class PaymentResponseDto extends BaseResponseDto {
   customerName: string;
   description?: string;
   transactionId?: string;
-}
+  capturedAmount: number;
+  authorizationExpiresAt?: Date | null;
+  refundedAmount: number;
+  refundableAmount: number;
+  gatewayReference?: string;
+  declineCode?: string;
+  declineMessage?: string;
+
+  constructor(payment?: Payment) {
+    super(payment);
+    if (payment) {
+      const currencies = getCurrencyRegistry();
+      const toMajor = (minor: number) =>
+        currencies.fromMinorUnits(minor, payment.currency);
 
+      this.amount = toMajor(payment.amount);
+      this.capturedAmount = toMajor(payment.capturedAmount);
+      this.refundedAmount = toMajor(payment.refundedAmount);
+      this.refundableAmount = toMajor(getRefundableAmount(payment));
+    }
+  }
+}
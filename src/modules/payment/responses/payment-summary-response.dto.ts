@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { PaymentSummaryGroupType } from '../enums/payment-summary-group.enum';
+import { PaymentSummaryRowResponseDto } from './payment-summary-row-response.dto';
+import { PaymentSummaryResponseMapping } from './mapping';
+import type { PaymentSummary } from '../payment.service';
+
+/**
+ * Response DTO for the payment summary report
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(PaymentSummaryResponseMapping)
+export class PaymentSummaryResponseDto {
+  from: string;
+  to: string;
+  timezone: string;
+  groupBy: PaymentSummaryGroupType[];
+
+  @ApiProperty({
+    description: 'One row per group, ordered by period then group values',
+    type: PaymentSummaryRowResponseDto,
+    isArray: true,
+  })
+  rows: PaymentSummaryRowResponseDto[];
+
+  constructor(summary?: PaymentSummary) {
+    if (summary) {
+      Object.assign(this, summary);
+      this.rows = summary.rows.map(
+        (row) => new PaymentSummaryRowResponseDto(row),
+      );
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { PaymentStatusType } from '../enums/payment-status.enum';
+import { getCurrencyRegistry } from '../../../common/currency/currency.registry';
+import type { PaymentSummaryRow } from '../payment.service';
+import { PaymentSummaryRowResponseMapping } from './mapping';
+
+/**
+ * Response DTO for one group of the payment summary
+ * Swagger documentation is defined in responses/mapping.ts
+ * Amounts are converted from stored minor units to major units of the row currency
+ */
+@AutoResponse(PaymentSummaryRowResponseMapping)
+export class PaymentSummaryRowResponseDto {
+  period: string | null;
+  currency: string;
+  status?: PaymentStatusType;
+  count: number;
+  totalAmount: number;
+  capturedAmount: number;
+  refundedAmount: number;
+  failedCount: number;
+  refundedCount: number;
+  failureRate: number;
+  refundRate: number;
+
+  constructor(row?: PaymentSummaryRow) {
+    if (row) {
+      const toMajor = (minor: number) =>
+        getCurrencyRegistry().fromMinorUnits(minor, row.currency);
+
+      Object.assign(this, row);
+      this.totalAmount = toMajor(row.totalAmount);
+      this.capturedAmount = toMajor(row.capturedAmount);
+      this.refundedAmount = toMajor(row.refundedAmount);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { PaymentActionType } from '../enums/payment-action.enum';
+import { PaymentStatusType } from '../enums/payment-status.enum';
+import { PaymentTransitionsResponseMapping } from './mapping';
+
+/**
+ * Response DTO for the actions currently allowed on a payment
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(PaymentTransitionsResponseMapping)
+export class PaymentTransitionsResponseDto {
+  id: number;
+  status: PaymentStatusType;
+  actions: PaymentActionType[];
+
+  constructor(partial?: Partial<PaymentTransitionsResponseDto>) {
+    Object.assign(this, partial);
+  }
+}
@@ -0,0 +1,10 @@
+import { BaseListResponseDto } from '../../../common/base/base-dto';
+import { AutoListResponse } from '../../../common/decorators/auto-response.decorator';
+import { PaymentWebhookEventResponseDto } from './payment-webhook-event-response.dto';
+
+/**
+ * Response DTO for received gateway webhook list
+ * Swagger documentation is automatically configured via @AutoListResponse
+ */
+@AutoListResponse(PaymentWebhookEventResponseDto)
+export class PaymentWebhookEventListResponseDto extends BaseListResponseDto<PaymentWebhookEventResponseDto> {}
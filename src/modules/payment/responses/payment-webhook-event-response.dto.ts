@@ -0,0 +1,19 @@
+import { BaseResponseDto } from '../../../common/base/base-dto';
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { PaymentWebhookEventStatus } from '../enums/payment-webhook-event-status.enum';
+import { PaymentWebhookEventResponseMapping } from './mapping';
+
+/**
+ * Response DTO for a received gateway webhook
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(PaymentWebhookEventResponseMapping)
+export class PaymentWebhookEventResponseDto extends BaseResponseDto {
+  provider: string;
+  eventId: string;
+  type: string;
+  payload: Record<string, unknown>;
+  status: PaymentWebhookEventStatus;
+  paymentId?: number | null;
+  error?: string | null;
+}
@@ -0,0 +1,10 @@
+import { BaseListResponseDto } from '../../../common/base/base-dto';
+import { AutoListResponse } from '../../../common/decorators/auto-response.decorator';
+import { RefundResponseDto } from './refund-response.dto';
+
+/**
+ * Response DTO for refund list
+ * Swagger documentation is automatically configured via @AutoListResponse
+ */
+@AutoListResponse(RefundResponseDto)
+export class RefundListResponseDto extends BaseListResponseDto<RefundResponseDto> {}
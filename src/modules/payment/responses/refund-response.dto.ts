@@ -0,0 +1,28 @@
+import { BaseResponseDto } from '../../../common/base/base-dto';
+import { getCurrencyRegistry } from '../../../common/currency/currency.registry';
+import { Refund } from '../entities/refund.entity';
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { RefundResponseMapping } from './mapping';
+
+/**
+ * Response DTO for refund details
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(RefundResponseMapping)
+export class RefundResponseDto extends BaseResponseDto {
+  paymentId: number;
+  amount: number;
+  currency: string;
+  reason: string;
+  gatewayReference?: string;
+
+  constructor(refund?: Refund) {
+    super(refund);
+    if (refund) {
+      this.amount = getCurrencyRegistry().fromMinorUnits(
+        refund.amount,
+        refund.currency,
+      );
+    }
+  }
+}
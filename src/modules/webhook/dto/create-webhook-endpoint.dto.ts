@@ -0,0 +1,17 @@
+import { BaseCreateDto } from '../../../common/base/base-dto';
+import { AutoApplyDecorators } from '../../../common/decorators/auto-apply.decorator';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+import { CreateWebhookEndpointMapping } from './mapping';
+
+/**
+ * DTO for subscribing a new webhook endpoint
+ * Validation rules are defined in dto/mapping.ts
+ */
+@AutoApplyDecorators(CreateWebhookEndpointMapping)
+export class CreateWebhookEndpointDto extends BaseCreateDto {
+  url: string;
+  events: WebhookEventType[];
+  secret?: string;
+  description?: string;
+  active?: boolean;
+}
@@ -0,0 +1,51 @@
+import {
+  StringField,
+  UrlField,
+  EnumField,
+  BooleanField,
+} from '../../../common/decorators/field.decorator';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+
+/**
+ * Field mappings for WebhookEndpoint DTOs
+ * Each property maps to a field decorator with its validation rules
+ */
+export const CreateWebhookEndpointMapping = {
+  url: () => UrlField('Receiver URL', 'https://example.com/webhooks', true),
+  events: () =>
+    EnumField(
+      WebhookEventType,
+      'Subscribed events',
+      ['payment.completed'],
+      true,
+      true,
+    ),
+  secret: () =>
+    StringField(
+      'Signing secret, generated when omitted',
+      'whsec_2f9c...',
+      false,
+      16,
+      128,
+    ),
+  description: () =>
+    StringField('Endpoint description', 'Order service', false),
+  active: () =>
+    BooleanField('Whether events are delivered to this endpoint', true, false),
+};
+
+export const UpdateWebhookEndpointMapping = {
+  url: () => UrlField('Receiver URL', 'https://example.com/webhooks', false),
+  events: () =>
+    EnumField(
+      WebhookEventType,
+      'Subscribed events',
+      ['payment.completed'],
+      false,
+      true,
+    ),
+  description: () =>
+    StringField('Endpoint description', 'Order service', false),
+  active: () =>
+    BooleanField('Whether events are delivered to this endpoint', true, false),
+};
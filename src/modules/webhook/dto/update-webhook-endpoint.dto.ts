@@ -0,0 +1,17 @@
+import { BaseUpdateDto } from '../../../common/base/base-dto';
+import { AutoApplyDecorators } from '../../../common/decorators/auto-apply.decorator';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+import { UpdateWebhookEndpointMapping } from './mapping';
+
+/**
+ * DTO for updating a webhook endpoint
+ * Validation rules are defined in dto/mapping.ts
+ * The signing secret cannot be changed - create a new endpoint to rotate it
+ */
+@AutoApplyDecorators(UpdateWebhookEndpointMapping)
+export class UpdateWebhookEndpointDto extends BaseUpdateDto {
+  url?: string;
+  events?: WebhookEventType[];
+  description?: string;
+  active?: boolean;
+}
@@ -0,0 +1,51 @@
+import { Column, Entity, JoinColumn, ManyToOne } from 'typeorm';
+import { AutoEntity } from '../../../common/decorators/auto-entity.decorator';
+import { BaseEntity } from '../../../common/base/base-entity';
+import { WebhookEndpoint } from './webhook-endpoint.entity';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+
+/**
+ * Webhook delivery entity - one event sent to one endpoint, with its attempt log
+ */
+@Entity('webhook_deliveries')
+@AutoEntity()
+export class WebhookDelivery extends BaseEntity {
+  @Column()
+  endpointId: number;
+
+  @ManyToOne(() => WebhookEndpoint, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'endpointId' })
+  endpoint?: WebhookEndpoint;
+
+  @Column()
+  eventId: string;
+
+  @Column({ type: 'simple-enum', enum: WebhookEventType })
+  event: WebhookEventType;
+
+  @Column('simple-json')
+  payload: Record<string, unknown>;
+
+  @Column({
+    type: 'simple-enum',
+    enum: WebhookDeliveryStatus,
+    default: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'datetime', nullable: true })
+  nextAttemptAt?: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  lastAttemptAt?: Date | null;
+
+  @Column({ type: 'integer', nullable: true })
+  responseStatus?: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  error?: string | null;
+}
@@ -0,0 +1,28 @@
+import { Column, Entity } from 'typeorm';
+import { AutoEntity } from '../../../common/decorators/auto-entity.decorator';
+import { BaseEntity } from '../../../common/base/base-entity';
+import { NotAudited } from '../../../common/decorators/not-audited.decorator';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+
+/**
+ * Webhook endpoint entity - a receiver URL subscribed to events
+ */
+@Entity('webhook_endpoints')
+@AutoEntity()
+export class WebhookEndpoint extends BaseEntity {
+  @Column()
+  url: string;
+
+  @Column('simple-json')
+  events: WebhookEventType[];
+
+  @NotAudited()
+  @Column()
+  secret: string; // HMAC-SHA256 signing secret
+
+  @Column({ nullable: true })
+  description?: string;
+
+  @Column({ default: true })
+  active: boolean;
+}
@@ -0,0 +1,8 @@
+/**
+ * Webhook delivery status enum
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending', // Waiting for its first attempt or a retry
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed', // Gave up after the last retry
+}
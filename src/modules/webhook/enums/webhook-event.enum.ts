@@ -0,0 +1,9 @@
+/**
+ * Webhook event enum - events clients can subscribe to
+ */
+export enum WebhookEventType {
+  PAYMENT_CREATED = 'payment.created',
+  PAYMENT_COMPLETED = 'payment.completed',
+  PAYMENT_FAILED = 'payment.failed',
+  PAYMENT_REFUNDED = 'payment.refunded',
+}
@@ -0,0 +1,28 @@
+import { Injectable } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { WebhookDispatcher } from '../webhook-dispatcher.service';
+
+/**
+ * Retries failed webhook deliveries once their backoff has elapsed
+ * A run is skipped while the previous one is still sending
+ */
+@Injectable()
+export class WebhookRetryJob {
+  private running = false;
+
+  constructor(private readonly webhookDispatcher: WebhookDispatcher) {}
+
+  @Interval(10_000)
+  async handle(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.webhookDispatcher.retryDue();
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { ResponseFieldConfig } from '../../../common/decorators/auto-response.decorator';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+
+/**
+ * Response field configuration for Webhook DTOs
+ * Used by @AutoResponse decorator for Swagger documentation
+ */
+export const WebhookEndpointResponseMapping: Record<
+  string,
+  ResponseFieldConfig
+> = {
+  url: {
+    description: 'Receiver URL',
+    example: 'https://example.com/webhooks',
+    required: true,
+    type: String,
+  },
+  events: {
+    description: 'Subscribed events',
+    example: ['payment.completed'],
+    required: true,
+    enum: WebhookEventType,
+    isArray: true,
+  },
+  description: {
+    description: 'Endpoint description',
+    example: 'Order service',
+    required: false,
+    type: String,
+  },
+  active: {
+    description: 'Whether events are delivered to this endpoint',
+    example: true,
+    required: true,
+    type: Boolean,
+  },
+};
+
+export const WebhookEndpointCreatedResponseMapping: Record<
+  string,
+  ResponseFieldConfig
+> = {
+  secret: {
+    description:
+      'HMAC-SHA256 signing secret - shown only in this response, store it now',
+    example: 'whsec_2f9c...',
+    required: true,
+    type: String,
+  },
+};
+
+export const WebhookDeliveryResponseMapping: Record<
+  string,
+  ResponseFieldConfig
+> = {
+  endpointId: {
+    description: 'Webhook endpoint ID',
+    example: 1,
+    required: true,
+    type: Number,
+  },
+  eventId: {
+    description: 'Event ID, identical across redeliveries',
+    example: 'evt_1a2b3c4d5e6f',
+    required: true,
+    type: String,
+  },
+  event: {
+    description: 'Event type',
+    example: 'payment.completed',
+    required: true,
+    enum: WebhookEventType,
+  },
+  payload: {
+    description: 'Delivered JSON body',
+    example: { id: 'evt_1a2b3c4d5e6f', type: 'payment.completed', data: {} },
+    required: true,
+    type: Object,
+  },
+  status: {
+    description: 'Delivery status',
+    example: 'succeeded',
+    required: true,
+    enum: WebhookDeliveryStatus,
+  },
+  attempts: {
+    description: 'Attempts made so far',
+    example: 1,
+    required: true,
+    type: Number,
+  },
+  nextAttemptAt: {
+    description: 'When the next retry is due',
+    example: '2024-01-01T00:00:30.000Z',
+    required: false,
+    type: Date,
+  },
+  lastAttemptAt: {
+    description: 'When the last attempt was made',
+    example: '2024-01-01T00:00:00.000Z',
+    required: false,
+    type: Date,
+  },
+  responseStatus: {
+    description: 'HTTP status returned by the receiver',
+    example: 200,
+    required: false,
+    type: Number,
+  },
+  error: {
+    description: 'Why the last attempt failed',
+    example: 'Receiver responded with 500',
+    required: false,
+    type: String,
+  },
+};
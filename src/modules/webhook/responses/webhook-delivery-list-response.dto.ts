@@ -0,0 +1,10 @@
+import { BaseListResponseDto } from '../../../common/base/base-dto';
+import { AutoListResponse } from '../../../common/decorators/auto-response.decorator';
+import { WebhookDeliveryResponseDto } from './webhook-delivery-response.dto';
+
+/**
+ * Response DTO for webhook delivery list
+ * Swagger documentation is automatically configured via @AutoListResponse
+ */
+@AutoListResponse(WebhookDeliveryResponseDto)
+export class WebhookDeliveryListResponseDto extends BaseListResponseDto<WebhookDeliveryResponseDto> {}
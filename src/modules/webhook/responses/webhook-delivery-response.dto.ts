@@ -0,0 +1,23 @@
+import { BaseResponseDto } from '../../../common/base/base-dto';
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+import { WebhookDeliveryStatus } from '../enums/webhook-delivery-status.enum';
+import { WebhookDeliveryResponseMapping } from './mapping';
+
+/**
+ * Response DTO for a webhook delivery log entry
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(WebhookDeliveryResponseMapping)
+export class WebhookDeliveryResponseDto extends BaseResponseDto {
+  endpointId: number;
+  eventId: string;
+  event: WebhookEventType;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  lastAttemptAt?: Date | null;
+  responseStatus?: number | null;
+  error?: string | null;
+}
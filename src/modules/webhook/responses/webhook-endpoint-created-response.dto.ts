@@ -0,0 +1,12 @@
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { WebhookEndpointResponseDto } from './webhook-endpoint-response.dto';
+import { WebhookEndpointCreatedResponseMapping } from './mapping';
+
+/**
+ * Response DTO for a new webhook endpoint, the only one carrying its secret
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(WebhookEndpointCreatedResponseMapping)
+export class WebhookEndpointCreatedResponseDto extends WebhookEndpointResponseDto {
+  secret: string;
+}
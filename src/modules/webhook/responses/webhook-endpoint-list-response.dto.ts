@@ -0,0 +1,10 @@
+import { BaseListResponseDto } from '../../../common/base/base-dto';
+import { AutoListResponse } from '../../../common/decorators/auto-response.decorator';
+import { WebhookEndpointResponseDto } from './webhook-endpoint-response.dto';
+
+/**
+ * Response DTO for webhook endpoint list
+ * Swagger documentation is automatically configured via @AutoListResponse
+ */
+@AutoListResponse(WebhookEndpointResponseDto)
+export class WebhookEndpointListResponseDto extends BaseListResponseDto<WebhookEndpointResponseDto> {}
@@ -0,0 +1,16 @@
+import { BaseResponseDto } from '../../../common/base/base-dto';
+import { AutoResponse } from '../../../common/decorators/auto-response.decorator';
+import { WebhookEventType } from '../enums/webhook-event.enum';
+import { WebhookEndpointResponseMapping } from './mapping';
+
+/**
+ * Response DTO for webhook endpoint details - never includes the signing secret
+ * Swagger documentation is defined in responses/mapping.ts
+ */
+@AutoResponse(WebhookEndpointResponseMapping, { exclude: ['secret'] })
+export class WebhookEndpointResponseDto extends BaseResponseDto {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  active: boolean;
+}
@@ -0,0 +1,233 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { DatabaseModule } from '../../common/database/database.module';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhookEndpointService } from './webhook-endpoint.service';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookEventType } from './enums/webhook-event.enum';
+import { WebhookDeliveryStatus } from './enums/webhook-delivery-status.enum';
+import { verifyWebhookSignature } from './webhook-signature';
+import { WebhookRetryJob } from './jobs/webhook-retry.job';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP receiver standing in for a client's webhook endpoint
+ */
+async function startReceiver(statuses: number[]) {
+  const received: ReceivedRequest[] = [];
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => (body += chunk.toString()));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/hooks`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('WebhookDispatcher', () => {
+  let module: TestingModule;
+  let dispatcher: WebhookDispatcher;
+  let endpoints: WebhookEndpointService;
+
+  beforeEach(async () => {
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    process.env.WEBHOOK_RETRY_BASE_SECONDS = '30';
+
+    module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        DatabaseModule.forFeature([WebhookEndpoint, WebhookDelivery]),
+      ],
+      providers: [WebhookDispatcher, WebhookEndpointService],
+    }).compile();
+
+    dispatcher = module.get(WebhookDispatcher);
+    endpoints = module.get(WebhookEndpointService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    delete process.env.WEBHOOK_RETRY_BASE_SECONDS;
+  });
+
+  it('should deliver signed events to subscribed endpoints only', async () => {
+    const receiver = await startReceiver([]);
+
+    try {
+      const endpoint = await endpoints.create({
+        url: receiver.url,
+        events: [WebhookEventType.PAYMENT_COMPLETED],
+      });
+      await endpoints.create({
+        url: receiver.url,
+        events: [WebhookEventType.PAYMENT_REFUNDED],
+      });
+
+      const [delivery] = await dispatcher.publish(
+        WebhookEventType.PAYMENT_COMPLETED,
+        { id: 7, amount: 49.99 },
+      );
+      await dispatcher.flush();
+
+      expect(receiver.received).toHaveLength(1);
+      const { headers, body } = receiver.received[0];
+      expect(JSON.parse(body)).toMatchObject({
+        id: delivery.eventId,
+        type: 'payment.completed',
+        data: { id: 7, amount: 49.99 },
+      });
+      expect(headers['x-webhook-event']).toBe('payment.completed');
+      expect(
+        verifyWebhookSignature(
+          endpoint.secret,
+          Number(headers['x-webhook-timestamp']),
+          body,
+          headers['x-webhook-signature'] as string,
+        ),
+      ).toBe(true);
+
+      const [logged] = await dispatcher.findDeliveries(endpoint.id);
+      expect(logged).toMatchObject({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: 1,
+        responseStatus: 200,
+        nextAttemptAt: null,
+      });
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    const receiver = await startReceiver([500, 503, 502]);
+
+    try {
+      const endpoint = await endpoints.create({
+        url: receiver.url,
+        events: [WebhookEventType.PAYMENT_CREATED],
+      });
+
+      const started = Date.now();
+      await dispatcher.publish(WebhookEventType.PAYMENT_CREATED, { id: 1 });
+      await dispatcher.flush();
+
+      let [delivery] = await dispatcher.findDeliveries(endpoint.id);
+      expect(delivery).toMatchObject({
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 1,
+        responseStatus: 500,
+        error: 'Receiver responded with 500',
+      });
+      const firstDelay = delivery.nextAttemptAt!.getTime() - started;
+      expect(firstDelay).toBeGreaterThanOrEqual(30_000);
+      expect(firstDelay).toBeLessThan(35_000);
+
+      expect(await dispatcher.retryDue()).toBe(0);
+      expect(await dispatcher.retryDue(delivery.nextAttemptAt!)).toBe(1);
+
+      [delivery] = await dispatcher.findDeliveries(endpoint.id);
+      const secondDelay = delivery.nextAttemptAt!.getTime() - Date.now();
+      expect(delivery.attempts).toBe(2);
+      expect(secondDelay).toBeGreaterThan(55_000);
+      expect(secondDelay).toBeLessThanOrEqual(60_000);
+
+      await dispatcher.retryDue(delivery.nextAttemptAt!);
+      [delivery] = await dispatcher.findDeliveries(endpoint.id);
+      expect(delivery).toMatchObject({
+        status: WebhookDeliveryStatus.FAILED,
+        attempts: 3,
+        nextAttemptAt: null,
+      });
+
+      const redelivered = await dispatcher.redeliver(endpoint.id, delivery.id);
+      expect(redelivered.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+      expect(receiver.received).toHaveLength(4);
+      expect(
+        new Set(receiver.received.map(({ headers }) => headers['x-webhook-id']))
+          .size,
+      ).toBe(1);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should send a due delivery once when retry runs overlap', async () => {
+    const receiver = await startReceiver([500, 200]);
+
+    try {
+      const endpoint = await endpoints.create({
+        url: receiver.url,
+        events: [WebhookEventType.PAYMENT_CREATED],
+      });
+      await dispatcher.publish(WebhookEventType.PAYMENT_CREATED, { id: 1 });
+      await dispatcher.flush();
+      let [delivery] = await dispatcher.findDeliveries(endpoint.id);
+
+      const attempts = await Promise.all([
+        dispatcher.retryDue(delivery.nextAttemptAt!),
+        dispatcher.retryDue(delivery.nextAttemptAt!),
+      ]);
+
+      expect(attempts[0] + attempts[1]).toBe(1);
+      expect(receiver.received).toHaveLength(2);
+      [delivery] = await dispatcher.findDeliveries(endpoint.id);
+      expect(delivery).toMatchObject({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts: 2,
+      });
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should skip a retry run while the previous one is still going', async () => {
+    let finish!: () => void;
+    const retryDue = jest
+      .spyOn(dispatcher, 'retryDue')
+      .mockReturnValue(new Promise((resolve) => (finish = () => resolve(0))));
+    const job = new WebhookRetryJob(dispatcher);
+
+    const first = job.handle();
+    await job.handle();
+    finish();
+    await first;
+    await job.handle();
+
+    expect(retryDue).toHaveBeenCalledTimes(2);
+  });
+
+  it('should mark deliveries to unreachable receivers for retry', async () => {
+    const receiver = await startReceiver([]);
+    await receiver.close();
+
+    const endpoint = await endpoints.create({
+      url: receiver.url,
+      events: [WebhookEventType.PAYMENT_FAILED],
+    });
+    await dispatcher.publish(WebhookEventType.PAYMENT_FAILED, { id: 1 });
+    await dispatcher.flush();
+
+    const [delivery] = await dispatcher.findDeliveries(endpoint.id);
+    expect(delivery.status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(delivery.responseStatus).toBeNull();
+    expect(delivery.error).toBeTruthy();
+  });
+});
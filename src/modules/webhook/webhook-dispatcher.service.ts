@@ -0,0 +1,265 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import type { IRepository } from '../../common/interfaces/repository.interface';
+import { InjectEntityRepository } from '../../common/database/repository.tokens';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookEventType } from './enums/webhook-event.enum';
+import { WebhookDeliveryStatus } from './enums/webhook-delivery-status.enum';
+import { getWebhookConfig } from './webhook.config';
+import {
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from './webhook-signature';
+
+/**
+ * Webhook dispatcher - fans events out to subscribed endpoints
+ *
+ * Every (event, endpoint) pair becomes a WebhookDelivery. The first attempt
+ * runs in the background right away; failures are retried with exponential
+ * backoff by WebhookRetryJob until WEBHOOK_MAX_ATTEMPTS is reached
+ */
+@Injectable()
+export class WebhookDispatcher implements OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private readonly inFlight = new Set<Promise<unknown>>();
+
+  constructor(
+    @InjectEntityRepository(WebhookEndpoint)
+    private readonly endpointRepository: IRepository<WebhookEndpoint>,
+    @InjectEntityRepository(WebhookDelivery)
+    private readonly deliveryRepository: IRepository<WebhookDelivery>,
+  ) {}
+
+  /**
+   * Record a delivery per subscribed endpoint and start sending them
+   * Never throws on receiver errors - the caller's request is not affected
+   */
+  async publish(
+    event: WebhookEventType,
+    data: object,
+  ): Promise<WebhookDelivery[]> {
+    const endpoints = await this.endpointRepository.findBy({ active: true });
+    const subscribed = endpoints.filter((endpoint) =>
+      endpoint.events.includes(event),
+    );
+    if (subscribed.length === 0) {
+      return [];
+    }
+
+    const eventId = `evt_${randomBytes(12).toString('hex')}`;
+    const payload = {
+      id: eventId,
+      type: event,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    // Fallback retry time in case the immediate attempt never completes
+    const nextAttemptAt = this.retryAt(1);
+    const deliveries: WebhookDelivery[] = [];
+    for (const endpoint of subscribed) {
+      deliveries.push(
+        await this.deliveryRepository.create({
+          endpointId: endpoint.id,
+          eventId,
+          event,
+          payload,
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt,
+        }),
+      );
+    }
+
+    for (const delivery of deliveries) {
+      this.track(this.attempt(delivery));
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Delivery log of an endpoint, newest first
+   */
+  async findDeliveries(endpointId: number): Promise<WebhookDelivery[]> {
+    const deliveries = await this.deliveryRepository.findBy({ endpointId });
+    return deliveries.sort((a, b) => b.id - a.id);
+  }
+
+  /**
+   * Send a delivery again now, whatever its status
+   */
+  async redeliver(
+    endpointId: number,
+    deliveryId: number,
+  ): Promise<WebhookDelivery> {
+    const delivery = await this.deliveryRepository.findById(deliveryId);
+    if (!delivery || delivery.endpointId !== endpointId) {
+      throw new NotFoundException(
+        `Webhook delivery with ID ${deliveryId} not found`,
+      );
+    }
+
+    return this.attempt(delivery);
+  }
+
+  /**
+   * Attempt every pending delivery whose retry is due
+   * Each delivery is claimed first, so concurrent runs never send it twice.
+   * Returns the number of attempts made
+   */
+  async retryDue(now = new Date()): Promise<number> {
+    const pending = await this.deliveryRepository.findBy({
+      status: WebhookDeliveryStatus.PENDING,
+    });
+    const due = pending.filter(
+      (delivery) => delivery.nextAttemptAt && delivery.nextAttemptAt <= now,
+    );
+
+    let attempted = 0;
+    for (const delivery of due) {
+      const claimed = await this.claim(delivery, now);
+      if (claimed) {
+        await this.attempt(claimed);
+        attempted++;
+      }
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Wait for background attempts started by publish()
+   */
+  async flush(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.allSettled([...this.inFlight]);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.flush();
+  }
+
+  /**
+   * Move the retry time of a delivery past its attempt, unless another run
+   * changed the delivery first (null). Should the attempt never finish, the
+   * delivery is retried once that time has passed
+   */
+  private claim(
+    delivery: WebhookDelivery,
+    now: Date,
+  ): Promise<WebhookDelivery | null> {
+    const { timeoutMs } = getWebhookConfig();
+    return this.deliveryRepository.update(
+      delivery.id,
+      { nextAttemptAt: new Date(now.getTime() + 2 * timeoutMs) },
+      delivery.version,
+    );
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const endpoint = await this.endpointRepository.findById(
+      delivery.endpointId,
+    );
+    const attempts = delivery.attempts + 1;
+    const lastAttemptAt = new Date();
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      if (!endpoint) {
+        throw new Error('Webhook endpoint no longer exists');
+      }
+      responseStatus = await this.send(endpoint, delivery);
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `Receiver responded with ${responseStatus}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const { maxAttempts } = getWebhookConfig();
+    const status = !error
+      ? WebhookDeliveryStatus.SUCCEEDED
+      : attempts >= maxAttempts || !endpoint
+        ? WebhookDeliveryStatus.FAILED
+        : WebhookDeliveryStatus.PENDING;
+
+    if (error) {
+      this.logger.warn(
+        `Delivery ${delivery.id} of ${delivery.event} failed (attempt ${attempts}): ${error}`,
+      );
+    }
+
+    const updated = await this.deliveryRepository.update(delivery.id, {
+      status,
+      attempts,
+      lastAttemptAt,
+      responseStatus,
+      error,
+      nextAttemptAt:
+        status === WebhookDeliveryStatus.PENDING
+          ? this.retryAt(attempts)
+          : null,
+    });
+
+    return updated ?? delivery;
+  }
+
+  private async send(
+    endpoint: WebhookEndpoint,
+    delivery: WebhookDelivery,
+  ): Promise<number> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_ID_HEADER]: delivery.eventId,
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          endpoint.secret,
+          timestamp,
+          body,
+        ),
+      },
+      body,
+      signal: AbortSignal.timeout(getWebhookConfig().timeoutMs),
+    });
+
+    // Drain the body so the connection can be reused
+    await response.arrayBuffer();
+    return response.status;
+  }
+
+  /**
+   * Exponential backoff: base, 2x base, 4x base, ... after each failed attempt
+   */
+  private retryAt(attempts: number): Date {
+    const { retryBaseSeconds } = getWebhookConfig();
+    const delaySeconds = retryBaseSeconds * 2 ** (attempts - 1);
+    return new Date(Date.now() + delaySeconds * 1000);
+  }
+
+  private track(promise: Promise<unknown>): void {
+    const tracked = promise
+      .catch((err: unknown) =>
+        this.logger.error(`Webhook delivery crashed: ${String(err)}`),
+      )
+      .finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+  }
+}
@@ -0,0 +1,37 @@
+import { Injectable } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { BaseCrudService } from '../../common/base/base-crud-service';
+import type { IRepository } from '../../common/interfaces/repository.interface';
+import { InjectEntityRepository } from '../../common/database/repository.tokens';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+
+/**
+ * Webhook endpoint service - CRUD for subscriptions
+ */
+@Injectable()
+export class WebhookEndpointService extends BaseCrudService<
+  WebhookEndpoint,
+  CreateWebhookEndpointDto,
+  UpdateWebhookEndpointDto
+> {
+  constructor(
+    @InjectEntityRepository(WebhookEndpoint)
+    endpointRepository: IRepository<WebhookEndpoint>,
+  ) {
+    super(endpointRepository);
+  }
+
+  protected getEntityName = () => 'Webhook endpoint';
+
+  protected beforeCreate(
+    dto: CreateWebhookEndpointDto,
+  ): Partial<WebhookEndpoint> {
+    return {
+      ...dto,
+      secret: dto.secret ?? `whsec_${randomBytes(24).toString('hex')}`,
+      active: dto.active ?? true,
+    };
+  }
+}
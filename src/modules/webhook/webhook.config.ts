@@ -0,0 +1,21 @@
+/**
+ * Webhook configuration
+ *
+ * Selected through environment variables:
+ * - WEBHOOK_MAX_ATTEMPTS: delivery attempts before a delivery is marked failed (default 6)
+ * - WEBHOOK_RETRY_BASE_SECONDS: delay before the first retry, doubled on each attempt (default 30)
+ * - WEBHOOK_TIMEOUT_MS: how long to wait for the receiver to respond (default 10000)
+ */
+export interface WebhookConfig {
+  maxAttempts: number;
+  retryBaseSeconds: number;
+  timeoutMs: number;
+}
+
+export function getWebhookConfig(): WebhookConfig {
+  return {
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 6),
+    retryBaseSeconds: Number(process.env.WEBHOOK_RETRY_BASE_SECONDS ?? 30),
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS ?? 10_000),
+  };
+}
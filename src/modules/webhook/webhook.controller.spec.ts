@@ -0,0 +1,100 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DatabaseModule } from '../../common/database/database.module';
+import { DomainEventsModule } from '../../common/events/domain-events.module';
+import { AuthModule } from '../../common/auth/auth.module';
+import { ValidationPipe } from '../../common/pipes/validation.pipe';
+import { ResponseInterceptor } from '../../common/interceptors/response.interceptor';
+import { WebhookModule } from './webhook.module';
+
+describe('WebhookController', () => {
+  const signer = new JwtService({ secret: 'webhook-spec-secret' });
+  const admin = `Bearer ${signer.sign({ sub: 'admin-1', roles: ['admin'] })}`;
+  const finance = `Bearer ${signer.sign({ sub: 'finance-1', roles: ['finance'] })}`;
+  const endpoint = {
+    url: 'https://example.com/webhooks',
+    events: ['payment.completed'],
+  };
+
+  let app: INestApplication<App>;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'webhook-spec-secret';
+  });
+
+  afterAll(() => {
+    delete process.env.JWT_SECRET;
+  });
+
+  beforeEach(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        DatabaseModule.forRoot(),
+        DomainEventsModule.forRoot(),
+        AuthModule.forRoot(),
+        WebhookModule,
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe());
+    app.useGlobalInterceptors(new ResponseInterceptor());
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should let only admins manage endpoints', async () => {
+    await request(app.getHttpServer())
+      .post('/webhooks')
+      .set('Authorization', finance)
+      .send(endpoint)
+      .expect(403);
+    await request(app.getHttpServer())
+      .get('/webhooks')
+      .set('Authorization', finance)
+      .expect(403);
+  });
+
+  it('should show the signing secret only when the endpoint is created', async () => {
+    const created = await request(app.getHttpServer())
+      .post('/webhooks')
+      .set('Authorization', admin)
+      .send(endpoint)
+      .expect(201);
+    const { id, secret } = (
+      created.body as { data: { id: number; secret: string } }
+    ).data;
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+
+    const bulk = await request(app.getHttpServer())
+      .post('/webhooks/bulk')
+      .set('Authorization', admin)
+      .send({ items: [endpoint] })
+      .expect(200);
+    expect(bulk.body).toMatchObject({
+      data: { items: [{ data: { secret: expect.any(String) as string } }] },
+    });
+
+    const found = await request(app.getHttpServer())
+      .get(`/webhooks/${id}`)
+      .set('Authorization', admin)
+      .expect(200);
+    expect((found.body as { data: object }).data).not.toHaveProperty('secret');
+
+    const listed = await request(app.getHttpServer())
+      .get('/webhooks')
+      .set('Authorization', admin)
+      .expect(200);
+    const { items } = (listed.body as { data: { items: object[] } }).data;
+    expect(items).toHaveLength(2);
+    for (const item of items) {
+      expect(item).not.toHaveProperty('secret');
+    }
+  });
+});
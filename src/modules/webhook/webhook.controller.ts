@@ -0,0 +1,190 @@
+import {
+  Body,
+  Get,
+  Param,
+  ParseBoolPipe,
+  ParseIntPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse } from '@nestjs/swagger';
+import { CrudController } from '../../common/decorators/crud-controller.decorator';
+import { BaseController } from '../../common/base/base-controller';
+import {
+  CreateEndpoint,
+  BulkCreateEndpoint,
+  BulkUpdateEndpoint,
+  BulkDeleteEndpoint,
+  GetAllEndpoint,
+  GetByIdEndpoint,
+  UpdateEndpoint,
+  DeleteEndpoint,
+} from '../../common/decorators/endpoint.decorator';
+import { ListQuery } from '../../common/decorators/list-query.decorator';
+import { IfMatch } from '../../common/decorators/if-match.decorator';
+import { BulkCreateDto } from '../../common/bulk/dto/bulk-create.dto';
+import { BulkUpdateDto } from '../../common/bulk/dto/bulk-update.dto';
+import { BulkDeleteDto } from '../../common/bulk/dto/bulk-delete.dto';
+import type { ListQueryOptions } from '../../common/interfaces/list-query.interface';
+import { WebhookEndpointService } from './webhook-endpoint.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+import { WebhookEndpointResponseDto } from './responses/webhook-endpoint-response.dto';
+import { WebhookEndpointCreatedResponseDto } from './responses/webhook-endpoint-created-response.dto';
+import { WebhookEndpointListResponseDto } from './responses/webhook-endpoint-list-response.dto';
+import { WebhookDeliveryResponseDto } from './responses/webhook-delivery-response.dto';
+import { WebhookDeliveryListResponseDto } from './responses/webhook-delivery-list-response.dto';
+
+/**
+ * Webhook controller - admins manage endpoint subscriptions and their delivery log
+ *
+ * The signing secret is only returned when the endpoint is created
+ */
+@CrudController('webhooks', 'Webhook', { roles: ['admin'] })
+export class WebhookController extends BaseController<
+  WebhookEndpoint,
+  CreateWebhookEndpointDto,
+  UpdateWebhookEndpointDto,
+  WebhookEndpointResponseDto,
+  WebhookEndpointListResponseDto
+> {
+  constructor(
+    private readonly webhookEndpointService: WebhookEndpointService,
+    private readonly webhookDispatcher: WebhookDispatcher,
+  ) {
+    super(webhookEndpointService);
+  }
+
+  /**
+   * Implement abstract methods from BaseController
+   */
+  protected getResponseClass = () => WebhookEndpointResponseDto;
+  protected getListResponseClass = () => WebhookEndpointListResponseDto;
+  protected getEntityName = () => 'Webhook endpoint';
+
+  /**
+   * Standard CRUD endpoints using base class methods
+   */
+
+  @CreateEndpoint('Webhook endpoint', WebhookEndpointCreatedResponseDto)
+  async create(
+    @Body() createWebhookEndpointDto: CreateWebhookEndpointDto,
+  ): Promise<WebhookEndpointCreatedResponseDto> {
+    return new WebhookEndpointCreatedResponseDto(
+      await this.webhookEndpointService.create(createWebhookEndpointDto),
+    );
+  }
+
+  @BulkCreateEndpoint('Webhook endpoint', CreateWebhookEndpointDto)
+  bulkCreate(
+    @Body() bulkCreateDto: BulkCreateDto,
+    @Query('atomic', new ParseBoolPipe({ optional: true })) atomic?: boolean,
+  ) {
+    return this.bulkCreateEntities(
+      bulkCreateDto,
+      CreateWebhookEndpointDto,
+      atomic,
+      WebhookEndpointCreatedResponseDto,
+    );
+  }
+
+  @BulkUpdateEndpoint('Webhook endpoint', UpdateWebhookEndpointDto)
+  bulkUpdate(
+    @Body() bulkUpdateDto: BulkUpdateDto,
+    @Query('atomic', new ParseBoolPipe({ optional: true })) atomic?: boolean,
+  ) {
+    return this.bulkUpdateEntities(
+      bulkUpdateDto,
+      UpdateWebhookEndpointDto,
+      atomic,
+    );
+  }
+
+  @BulkDeleteEndpoint('Webhook endpoint')
+  bulkRemove(
+    @Body() bulkDeleteDto: BulkDeleteDto,
+    @Query('atomic', new ParseBoolPipe({ optional: true })) atomic?: boolean,
+  ) {
+    return this.bulkRemoveEntities(bulkDeleteDto, atomic);
+  }
+
+  @GetAllEndpoint('Webhook endpoint', WebhookEndpointListResponseDto, {
+    url: { type: String },
+    active: { type: Boolean },
+  })
+  findAll(@ListQuery() query: ListQueryOptions) {
+    return this.findAllEntities(query);
+  }
+
+  @GetByIdEndpoint('Webhook endpoint', WebhookEndpointResponseDto)
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.findOneEntity(id);
+  }
+
+  @UpdateEndpoint('Webhook endpoint', WebhookEndpointResponseDto)
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateWebhookEndpointDto: UpdateWebhookEndpointDto,
+    @IfMatch() version?: number,
+  ) {
+    return this.updateEntity(id, updateWebhookEndpointDto, version);
+  }
+
+  @DeleteEndpoint('Webhook endpoint')
+  remove(@Param('id', ParseIntPipe) id: number, @IfMatch() version?: number) {
+    return this.removeEntity(id, version);
+  }
+
+  /**
+   * Delivery log endpoints
+   */
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'List deliveries sent to a webhook endpoint' })
+  @ApiParam({ name: 'id', type: 'number', description: 'Webhook endpoint ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Delivery log of the endpoint, newest first',
+    type: WebhookDeliveryListResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  async findDeliveries(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<WebhookDeliveryListResponseDto> {
+    await this.webhookEndpointService.findOne(id);
+    const deliveries = await this.webhookDispatcher.findDeliveries(id);
+    const responseItems = deliveries.map(
+      (delivery) => new WebhookDeliveryResponseDto(delivery),
+    );
+    return new WebhookDeliveryListResponseDto(responseItems, deliveries.length);
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @ApiOperation({ summary: 'Send a delivery to the endpoint again' })
+  @ApiParam({ name: 'id', type: 'number', description: 'Webhook endpoint ID' })
+  @ApiParam({
+    name: 'deliveryId',
+    type: 'number',
+    description: 'Webhook delivery ID',
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Delivery attempted - status shows whether the receiver accepted it',
+    type: WebhookDeliveryResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Webhook endpoint or delivery not found',
+  })
+  async redeliver(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('deliveryId', ParseIntPipe) deliveryId: number,
+  ): Promise<WebhookDeliveryResponseDto> {
+    await this.webhookEndpointService.findOne(id);
+    const delivery = await this.webhookDispatcher.redeliver(id, deliveryId);
+    return new WebhookDeliveryResponseDto(delivery);
+  }
+}
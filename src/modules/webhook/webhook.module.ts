@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '../../common/database/database.module';
+import { WebhookController } from './webhook.controller';
+import { WebhookEndpointService } from './webhook-endpoint.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookRetryJob } from './jobs/webhook-retry.job';
+
+/**
+ * Webhook module - outbound event notifications
+ */
+@Module({
+  imports: [DatabaseModule.forFeature([WebhookEndpoint, WebhookDelivery])],
+  controllers: [WebhookController],
+  providers: [WebhookEndpointService, WebhookDispatcher, WebhookRetryJob],
+  exports: [WebhookDispatcher],
+})
+export class WebhookModule {}
@@ -5,6 +5,8 @@
 
 BASE_URL="http://localhost:3000/api/v1"
 CONTENT_TYPE="Content-Type: application/json"
+# Access token signed with the key set in JWT_PUBLIC_KEY / JWT_SECRET, with a tenant_id claim
+AUTH="Authorization: Bearer ${TOKEN:?Set TOKEN to an access token}"
 
 echo "======================================"
 echo "Testing Payment API Endpoints"
@@ -14,7 +16,7 @@ echo ""
 # Test 1: Create a new payment
 echo "1️⃣  Creating a new payment..."
 echo "POST ${BASE_URL}/payments"
-curl -X POST "${BASE_URL}/payments" \
+curl -X POST "${BASE_URL}/payments" -H "${AUTH}" \
   -H "${CONTENT_TYPE}" \
   -d '{
     "amount": 149.99,
@@ -30,35 +32,35 @@ echo ""
 # Test 2: Get all payments
 echo "2️⃣  Getting all payments..."
 echo "GET ${BASE_URL}/payments"
-curl -X GET "${BASE_URL}/payments" -s | jq '.'
+curl -X GET "${BASE_URL}/payments" -H "${AUTH}" -s | jq '.'
 echo ""
 echo ""
 
 # Test 3: Get payment by ID
 echo "3️⃣  Getting payment by ID (ID: 1)..."
 echo "GET ${BASE_URL}/payments/1"
-curl -X GET "${BASE_URL}/payments/1" -s | jq '.'
+curl -X GET "${BASE_URL}/payments/1" -H "${AUTH}" -s | jq '.'
 echo ""
 echo ""
 
 # Test 4: Filter payments by status
 echo "4️⃣  Getting pending payments..."
 echo "GET ${BASE_URL}/payments?status=pending"
-curl -X GET "${BASE_URL}/payments?status=pending" -s | jq '.'
+curl -X GET "${BASE_URL}/payments?status=pending" -H "${AUTH}" -s | jq '.'
 echo ""
 echo ""
 
 # Test 5: Process a payment
 echo "5️⃣  Processing a pending payment (ID: 1)..."
 echo "POST ${BASE_URL}/payments/1/process"
-curl -X POST "${BASE_URL}/payments/1/process" -s | jq '.'
+curl -X POST "${BASE_URL}/payments/1/process" -H "${AUTH}" -s | jq '.'
 echo ""
 echo ""
 
 # Test 6: Update a payment
 echo "6️⃣  Updating payment (ID: 2)..."
 echo "PATCH ${BASE_URL}/payments/2"
-curl -X PATCH "${BASE_URL}/payments/2" \
+curl -X PATCH "${BASE_URL}/payments/2" -H "${AUTH}" \
   -H "${CONTENT_TYPE}" \
   -d '{
     "description": "Updated: Payment for premium annual subscription"
@@ -70,7 +72,7 @@ echo ""
 # Test 7: Get payments by status
 echo "7️⃣  Getting completed payments..."
 echo "GET ${BASE_URL}/payments/status/completed"
-curl -X GET "${BASE_URL}/payments/status/completed" -s | jq '.'
+curl -X GET "${BASE_URL}/payments/status/completed" -H "${AUTH}" -s | jq '.'
 echo ""
 echo ""
 